@@ -0,0 +1,44 @@
+// app/api/auth/login/route.test.ts
+import { beforeAll, describe, expect, it } from "vitest";
+import { POST } from "./route";
+import { db } from "@/lib/db";
+import { sql } from "@/lib/drivers";
+import { migrate } from "@/lib/migrate";
+import { TRASH_RETENTION_DAYS } from "@/lib/trash";
+import { PASSWORD, request, signUp } from "@/test/routes";
+
+const daysAgo = (days: number) =>
+  new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const signIn = (email: string) =>
+  POST(request("POST", "/api/auth/login", { email, password: PASSWORD }));
+
+describe("signing in to a closed account", () => {
+  beforeAll(async () => {
+    await migrate();
+  });
+
+  it("reopens it within the retention period", async () => {
+    const user = await signUp();
+    await db.deleteUser(user.id);
+
+    const res = await signIn(user.email);
+
+    expect(res.status).toBe(200);
+    expect(await db.getUser(user.id)).toBeTruthy();
+  });
+
+  it("answers 401 and purges it once the retention period is over", async () => {
+    const user = await signUp();
+    await db.deleteUser(user.id);
+    await sql`
+      UPDATE user_profiles SET deleted_at = ${daysAgo(TRASH_RETENTION_DAYS + 1)}
+      WHERE id = ${user.id}
+    `;
+
+    const res = await signIn(user.email);
+
+    expect(res.status).toBe(401);
+    expect(await db.getCredentials(user.email)).toBeUndefined();
+  });
+});
@@ -0,0 +1,52 @@
+// app/api/auth/login/route.ts
+export const dynamic = 'force-dynamic';
+
+import { db } from '@/lib/db';
+import { normalizeEmail, startSession, verifyPassword } from '@/lib/auth';
+import { loginSchema } from '@/lib/schemas';
+import { pastRetention } from '@/lib/trash';
+import { parseBody, validationErrorResponse } from '@/lib/validate';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { email, password } = await parseBody(request, loginSchema);
+
+    let credentials = await db.getCredentials(normalizeEmail(email));
+
+    // Past its retention period a closed account can't be reopened, it goes now rather
+    // than at the next sweep
+    if (credentials?.deleted_at && pastRetention(credentials.deleted_at)) {
+      await db.purgeUser(credentials.id);
+      credentials = undefined;
+    }
+
+    const valid =
+      !!credentials?.password_hash &&
+      (await verifyPassword(password, credentials.password_hash));
+
+    // Same answer for unknown email and wrong password
+    if (!credentials || !valid) {
+      return NextResponse.json(
+        { error: 'Invalid email or password' },
+        { status: 401 }
+      );
+    }
+
+    // Signing in to a closed account within the retention period reopens it
+    if (credentials.deleted_at) await db.restoreUser(credentials.id);
+
+    await startSession(credentials.id);
+    
+    return NextResponse.json(await db.getUser(credentials.id));
+  } catch (error: any) {
+    const invalid = validationErrorResponse(error);
+    if (invalid) return invalid;
+
+    console.error('Error in POST /api/auth/login:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign in', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,19 @@
+// app/api/auth/logout/route.ts
+export const dynamic = 'force-dynamic';
+
+import { endSession } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+
+export async function POST() {
+  try {
+    await endSession();
+    
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error in POST /api/auth/logout:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign out', details: error.message },
+      { status: 500 }
+    );
+  }
+}
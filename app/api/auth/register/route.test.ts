@@ -0,0 +1,34 @@
+// app/api/auth/register/route.test.ts
+import { beforeAll, describe, expect, it } from "vitest";
+import { POST } from "./route";
+import { migrate } from "@/lib/migrate";
+import { PASSWORD, request } from "@/test/routes";
+
+const register = (email: string) =>
+  POST(
+    request("POST", "/api/auth/register", {
+      name: "Racer",
+      email,
+      password: PASSWORD,
+      startWeight: 80,
+    })
+  );
+
+describe("POST /api/auth/register", () => {
+  beforeAll(async () => {
+    await migrate();
+  });
+
+  it("answers 409 for an email that is taken", async () => {
+    expect((await register("taken@example.com")).status).toBe(201);
+    expect((await register("taken@example.com")).status).toBe(409);
+  });
+
+  it("answers 409, not 500, to the loser of two sign ups at once", async () => {
+    const statuses = (
+      await Promise.all([register("race@example.com"), register("race@example.com")])
+    ).map((res) => res.status);
+
+    expect(statuses.sort()).toEqual([201, 409]);
+  });
+});
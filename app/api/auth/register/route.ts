@@ -0,0 +1,69 @@
+// app/api/auth/register/route.ts
+export const dynamic = 'force-dynamic';
+
+import { db } from '@/lib/db';
+import { isUniqueViolation } from '@/lib/drivers';
+import { hashPassword, normalizeEmail, startSession } from '@/lib/auth';
+import { registerSchema } from '@/lib/schemas';
+import { pastRetention } from '@/lib/trash';
+import { parseBody, validationErrorResponse } from '@/lib/validate';
+import { NextRequest, NextResponse } from 'next/server';
+
+const emailTaken = () =>
+  NextResponse.json(
+    { error: 'An account with this email already exists' },
+    { status: 409 }
+  );
+
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      name,
+      email,
+      password,
+      startWeight,
+      goalWeight,
+      goalDirection,
+      goalTolerance,
+      targetDate,
+      weightUnit,
+      timezone,
+    } = await parseBody(request, registerSchema);
+
+    const normalizedEmail = normalizeEmail(email);
+
+    const existing = await db.getCredentials(normalizedEmail);
+
+    // A closed account past its retention period (the sweep just hasn't run yet) gives way
+    // to the new one. Within it the email stays taken: only signing in reopens the account
+    if (existing?.deleted_at && pastRetention(existing.deleted_at)) {
+      await db.purgeUser(existing.id);
+    } else if (existing) {
+      return emailTaken();
+    }
+
+    const user = await db.createUser(
+      name,
+      startWeight,
+      goalWeight ?? null,
+      targetDate,
+      { email: normalizedEmail, passwordHash: await hashPassword(password) },
+      { direction: goalDirection, tolerance: goalTolerance, weightUnit, timezone }
+    );
+
+    await startSession(user.id);
+
+    return NextResponse.json(user, { status: 201 });
+  } catch (error: any) {
+    const invalid = validationErrorResponse(error);
+    if (invalid) return invalid;
+    // Lost a race with another sign up for the same email
+    if (isUniqueViolation(error)) return emailTaken();
+
+    console.error('Error in POST /api/auth/register:', error);
+    return NextResponse.json(
+      { error: 'Failed to create account', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { accessErrorResponse, requireUser } from "@/lib/authz";
+import { dayInput, upsertDayEntrySchema } from "@/lib/schemas";
+import { parseBody, parseInput, validationErrorResponse } from "@/lib/validate";
+import { localMidday, localToday } from "@/lib/dates";
+
+// =========================
+// PUT /api/entries/day/:date
+// ✅ idempotent create-or-replace of one local day (YYYY-MM-DD)
+// ✅ or of its morning / evening reading in multi weigh-in mode
+// =========================
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ date: string }> }
+) {
+  try {
+    const user = await requireUser();
+
+    const day = parseInput(dayInput, (await params).date);
+    const body = await parseBody(req, upsertDayEntrySchema);
+    const { weight, note } = body;
+    const timezone = body.timezone ?? user.timezone;
+    const slot = user.multi_weigh_in ? body.slot : undefined;
+
+    const today = localToday(timezone);
+
+    if (day > today) {
+      return NextResponse.json(
+        { error: "Entries can't be logged for a future date" },
+        { status: 400 }
+      );
+    }
+
+    // Only used when the row is new, an existing entry keeps its timestamp
+    const date = day === today ? new Date() : localMidday(day, timezone);
+
+    const entry = await db.upsertWeightEntryForDay(
+      user.id,
+      day,
+      weight,
+      note || null,
+      date.toISOString(),
+      slot
+    );
+
+    return NextResponse.json(entry);
+  } catch (err) {
+    const handled = accessErrorResponse(err) ?? validationErrorResponse(err);
+    if (handled) return handled;
+
+    console.error("PUT day entry error:", err);
+    return NextResponse.json({ error: "Failed to save entry" }, { status: 500 });
+  }
+}
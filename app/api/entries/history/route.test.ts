@@ -0,0 +1,66 @@
+// app/api/entries/history/route.test.ts
+import { beforeAll, describe, expect, it } from "vitest";
+import { GET, POST } from "./route";
+import { PATCH as updateEntry, POST as createEntry } from "../route";
+import { db } from "@/lib/db";
+import { migrate } from "@/lib/migrate";
+import { request, signInAs, signUp, type TestUser } from "@/test/routes";
+
+describe("/api/entries/history ownership", () => {
+  let alice: TestUser;
+  let bob: TestUser;
+  let entryId: number;
+  let revisionId: number;
+
+  beforeAll(async () => {
+    await migrate();
+
+    alice = await signUp();
+    const created = await createEntry(
+      request("POST", "/api/entries", { weight: 80, date: "2026-01-10T08:00:00.000Z" })
+    );
+    entryId = Number((await created.json()).id);
+    await updateEntry(request("PATCH", "/api/entries", { entryId, weight: 81 }));
+
+    // The first revision holds the entry as it was logged
+    const listed = await GET(request("GET", `/api/entries/history?id=${entryId}`));
+    revisionId = Number((await listed.json())[0].id);
+
+    bob = await signUp();
+  });
+
+  it("listing someone else's revisions answers 403", async () => {
+    signInAs(bob);
+    const res = await GET(request("GET", `/api/entries/history?id=${entryId}`));
+
+    expect(res.status).toBe(403);
+  });
+
+  it("reverting someone else's entry answers 403 and leaves it alone", async () => {
+    signInAs(bob);
+    const res = await POST(request("POST", "/api/entries/history", { entryId, revisionId }));
+
+    expect(res.status).toBe(403);
+    expect(Number((await db.getWeightEntry(entryId))!.weight)).toBe(81);
+  });
+
+  it("answers 404 for an entry that doesn't exist", async () => {
+    signInAs(bob);
+
+    const listed = await GET(request("GET", "/api/entries/history?id=999999"));
+    const reverted = await POST(
+      request("POST", "/api/entries/history", { entryId: 999_999, revisionId })
+    );
+
+    expect(listed.status).toBe(404);
+    expect(reverted.status).toBe(404);
+  });
+
+  it("lets the owner revert", async () => {
+    signInAs(alice);
+    const res = await POST(request("POST", "/api/entries/history", { entryId, revisionId }));
+
+    expect(res.status).toBe(200);
+    expect(Number((await res.json()).weight)).toBe(80);
+  });
+});
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { AccessError, accessErrorResponse, requireEntryOwner, requireUser } from "@/lib/authz";
+import { entryIdInput, revertEntrySchema } from "@/lib/schemas";
+import { parseBody, parseInput, validationErrorResponse } from "@/lib/validate";
+import { isUniqueViolation } from "@/lib/drivers";
+
+// =========================
+// GET /api/entries/history?id=...
+// ✅ every revision of a live entry, oldest first
+// =========================
+export async function GET(req: Request) {
+  try {
+    const user = await requireUser();
+
+    const { searchParams } = new URL(req.url);
+    const id = parseInput(entryIdInput, searchParams.get("id") ?? undefined);
+
+    const entry = await requireEntryOwner(user, id);
+
+    const revisions = await db.getEntryRevisions(entry.id);
+
+    return NextResponse.json(revisions);
+  } catch (err) {
+    const handled = accessErrorResponse(err) ?? validationErrorResponse(err);
+    if (handled) return handled;
+
+    console.error("GET entry history error:", err);
+    return NextResponse.json({ error: "Failed to load entry history" }, { status: 500 });
+  }
+}
+
+// =========================
+// POST /api/entries/history
+// ✅ revert the entry to the values a revision left it with
+// =========================
+export async function POST(req: Request) {
+  try {
+    const user = await requireUser();
+
+    const { entryId, revisionId } = await parseBody(req, revertEntrySchema);
+
+    const entry = await requireEntryOwner(user, entryId);
+
+    const revision = await db.getEntryRevision(entry.id, revisionId);
+    if (!revision) throw new AccessError("Revision not found", 404);
+
+    // A delete revision leaves nothing to go back to; restoring is the trash's job
+    if (!revision.new_values) {
+      return NextResponse.json(
+        { error: "This revision can't be reverted to" },
+        { status: 400 }
+      );
+    }
+
+    const reverted = await db.revertWeightEntry(user.id, entry.id, revision.new_values);
+
+    return NextResponse.json(reverted);
+  } catch (err) {
+    const handled = accessErrorResponse(err) ?? validationErrorResponse(err);
+    if (handled) return handled;
+    // The revision's day (or slot) has been logged by another entry since
+    if (isUniqueViolation(err)) {
+      return NextResponse.json(
+        { error: "Another entry now exists on this date" },
+        { status: 409 }
+      );
+    }
+
+    console.error("Revert entry error:", err);
+    return NextResponse.json({ error: "Failed to revert entry" }, { status: 500 });
+  }
+}
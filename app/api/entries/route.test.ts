@@ -0,0 +1,67 @@
+// app/api/entries/route.test.ts
+import { beforeAll, describe, expect, it } from "vitest";
+import { DELETE, PATCH, POST } from "./route";
+import { db } from "@/lib/db";
+import { migrate } from "@/lib/migrate";
+import { request, signInAs, signUp, type TestUser } from "@/test/routes";
+
+describe("/api/entries ownership", () => {
+  let alice: TestUser;
+  let bob: TestUser;
+  let entryId: number;
+
+  beforeAll(async () => {
+    await migrate();
+
+    alice = await signUp();
+    const res = await POST(
+      request("POST", "/api/entries", { weight: 80, date: "2026-01-10T08:00:00.000Z" })
+    );
+    entryId = Number((await res.json()).id);
+
+    bob = await signUp();
+  });
+
+  it("PATCH answers 403 for someone else's entry and leaves it alone", async () => {
+    signInAs(bob);
+    const res = await PATCH(request("PATCH", "/api/entries", { entryId, weight: 95 }));
+
+    expect(res.status).toBe(403);
+    expect(Number((await db.getWeightEntry(entryId))!.weight)).toBe(80);
+  });
+
+  it("DELETE answers 403 for someone else's entry and leaves it alone", async () => {
+    signInAs(bob);
+    const res = await DELETE(request("DELETE", `/api/entries?id=${entryId}`));
+
+    expect(res.status).toBe(403);
+    expect(await db.getWeightEntry(entryId)).toBeTruthy();
+  });
+
+  it("answers 404 for an entry that doesn't exist", async () => {
+    signInAs(bob);
+
+    const patched = await PATCH(
+      request("PATCH", "/api/entries", { entryId: 999_999, weight: 95 })
+    );
+    const deleted = await DELETE(request("DELETE", "/api/entries?id=999999"));
+
+    expect(patched.status).toBe(404);
+    expect(deleted.status).toBe(404);
+  });
+
+  it("answers 401 when signed out", async () => {
+    signInAs(null);
+    const res = await PATCH(request("PATCH", "/api/entries", { entryId, weight: 95 }));
+
+    expect(res.status).toBe(401);
+  });
+
+  it("lets the owner through", async () => {
+    signInAs(alice);
+    const res = await PATCH(request("PATCH", "/api/entries", { entryId, weight: 79 }));
+
+    expect(res.status).toBe(200);
+    expect(Number((await res.json()).weight)).toBe(79);
+  });
+});
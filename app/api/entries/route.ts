@@ -1,29 +1,85 @@
 import { NextResponse } from "next/server";
-import { neon } from "@neondatabase/serverless";
-
-// ✅ Load env
-const sql = neon(process.env.NEON_DATABASE_URL!);
+import { db } from "@/lib/db";
+import { accessErrorResponse, requireEntryOwner, requireUser } from "@/lib/authz";
+import {
+  createEntrySchema,
+  entryIdInput,
+  entryListQuerySchema,
+  updateEntrySchema,
+  weightEntrySummarySchema,
+  type EntrySlot,
+} from "@/lib/schemas";
+import { parseBody, parseInput, validationErrorResponse } from "@/lib/validate";
+import { localDayKey, localHour, localToday } from "@/lib/dates";
+import { slotForHour } from "@/lib/daily";
+import { isUniqueViolation } from "@/lib/drivers";
+
+// One entry per calendar day (in the client's time zone), backed by a unique index.
+// In multi weigh-in mode that becomes one morning and one evening reading per day
+const sameDayConflict = (entryId?: number, slot?: EntrySlot | null) =>
+  NextResponse.json(
+    {
+      error: slot
+        ? `You already logged your ${slot} weigh-in on this date`
+        : "You already have an entry on this date",
+      entryId,
+    },
+    { status: 409 }
+  );
+
+const findSameDay = (
+  userId: number,
+  day: string,
+  slot: EntrySlot | null,
+  excludeId?: number
+) => {
+  if (slot === "other") return undefined;
+  return slot
+    ? db.getWeightEntryBySlot(userId, day, slot, excludeId)
+    : db.getWeightEntryByDay(userId, day, excludeId);
+};
 
 // =========================
-// GET /api/entries?userId=...
+// GET /api/entries?from=&to=&limit=&cursor=&fields=
+// ✅ newest first, one page at a time: { entries, nextCursor }
+// ✅ fields=summary drops notes and bookkeeping columns
 // =========================
 export async function GET(req: Request) {
   try {
-    const { searchParams } = new URL(req.url);
-    const userId = searchParams.get("userId");
-
-    if (!userId) {
-      return NextResponse.json({ error: "Missing userId" }, { status: 400 });
-    }
-
-    const entries = await sql`
-      SELECT * FROM weight_entries
-      WHERE user_id = ${userId}
-      ORDER BY date DESC
-    `;
+    const user = await requireUser();
 
-    return NextResponse.json(entries);
+    const { searchParams } = new URL(req.url);
+    const { from, to, limit, cursor, fields } = parseInput(
+      entryListQuerySchema,
+      Object.fromEntries(searchParams)
+    );
+
+    // One extra row tells whether another page exists
+    const rows = await db.listWeightEntries(user.id, {
+      from,
+      to,
+      limit: limit + 1,
+      after: cursor,
+    });
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+
+    const nextCursor =
+      rows.length > limit
+        ? Buffer.from(`${last.date}|${last.id}`).toString("base64url")
+        : null;
+
+    return NextResponse.json({
+      entries:
+        fields === "summary"
+          ? page.map((entry) => weightEntrySummarySchema.parse(entry))
+          : page,
+      nextCursor,
+    });
   } catch (err) {
+    const handled = accessErrorResponse(err) ?? validationErrorResponse(err);
+    if (handled) return handled;
+
     console.error("GET entries error:", err);
     return NextResponse.json({ error: "Failed to load entries" }, { status: 500 });
   }
@@ -31,27 +87,49 @@ export async function GET(req: Request) {
 
 // =========================
 // POST /api/entries
+// ✅ optional date for backdated entries
+// ✅ optional slot in multi weigh-in mode
 // =========================
 export async function POST(req: Request) {
   try {
-    const body = await req.json();
-    const { userId, weight, note } = body;
+    const user = await requireUser();
+
+    const body = await parseBody(req, createEntrySchema);
+    const { weight, note, date } = body;
+    const timezone = body.timezone ?? user.timezone;
+
+    const at = date ? new Date(date) : new Date();
+    const day = localDayKey(at, timezone);
+    const slot = user.multi_weigh_in
+      ? (body.slot ?? slotForHour(localHour(at, timezone)))
+      : null;
 
-    if (!userId || !weight) {
+    if (day > localToday(timezone)) {
       return NextResponse.json(
-        { error: "Missing userId or weight" },
+        { error: "Entries can't be logged for a future date" },
         { status: 400 }
       );
     }
 
-    const inserted = await sql`
-      INSERT INTO weight_entries (user_id, weight, note, date)
-      VALUES (${userId}, ${weight}, ${note || null}, NOW())
-      RETURNING *
-    `;
+    const existing = await findSameDay(user.id, day, slot);
+    if (existing) return sameDayConflict(existing.id, slot);
 
-    return NextResponse.json(inserted[0]);
+    const inserted = await db.createWeightEntry(
+      user.id,
+      weight,
+      note || null,
+      at.toISOString(),
+      day,
+      slot
+    );
+
+    return NextResponse.json(inserted);
   } catch (err) {
+    const handled = accessErrorResponse(err) ?? validationErrorResponse(err);
+    if (handled) return handled;
+    // Lost a race with another request for the same day
+    if (isUniqueViolation(err)) return sameDayConflict();
+
     console.error("POST entry error:", err);
     return NextResponse.json({ error: "Failed to create entry" }, { status: 500 });
   }
@@ -59,36 +137,45 @@ export async function POST(req: Request) {
 
 // =========================
 // PATCH /api/entries
-// ✅ update weight + note + date
+// ✅ update weight + note + date (+ slot in multi weigh-in mode)
 // =========================
 export async function PATCH(req: Request) {
   try {
-    const body = await req.json();
+    const user = await requireUser();
+
+    const body = await parseBody(req, updateEntrySchema);
     const { entryId, weight, note, date } = body;
 
-    if (!entryId || weight === undefined) {
-      return NextResponse.json(
-        { error: "Missing entryId or weight" },
-        { status: 400 }
-      );
-    }
+    const entry = await requireEntryOwner(user, entryId);
 
-    // ✅ Default date = current DB date if not provided
-    const updated = await sql`
-      UPDATE weight_entries
-      SET weight = ${weight},
-          note = ${note},
-          date = COALESCE(${date}, date)
-      WHERE id = ${entryId}
-      RETURNING *
-    `;
-
-    if (!updated.length) {
-      return NextResponse.json({ error: "Entry not found" }, { status: 404 });
+    const day = date
+      ? localDayKey(new Date(date), body.timezone ?? user.timezone)
+      : null;
+    const slot = user.multi_weigh_in && body.slot ? body.slot : entry.slot;
+    const targetDay = day ?? entry.day;
+
+    if (targetDay && (day || slot !== entry.slot)) {
+      const existing = await findSameDay(user.id, targetDay, slot, entry.id);
+      if (existing) return sameDayConflict(existing.id, slot);
     }
 
-    return NextResponse.json(updated[0]);
+    // ✅ Default date = current DB date if not provided
+    const updated = await db.updateWeightEntry(
+      user.id,
+      entry.id,
+      weight,
+      note,
+      date,
+      day,
+      slot
+    );
+
+    return NextResponse.json(updated);
   } catch (err) {
+    const handled = accessErrorResponse(err) ?? validationErrorResponse(err);
+    if (handled) return handled;
+    if (isUniqueViolation(err)) return sameDayConflict();
+
     console.error("PATCH entry error:", err);
     return NextResponse.json({ error: "Failed to update entry" }, { status: 500 });
   }
@@ -96,23 +183,24 @@ export async function PATCH(req: Request) {
 
 // =========================
 // DELETE /api/entries?id=...
+// ✅ moves the entry to the trash (see /api/entries/trash)
 // =========================
 export async function DELETE(req: Request) {
   try {
+    const user = await requireUser();
+
     const { searchParams } = new URL(req.url);
-    const id = searchParams.get("id");
+    const id = parseInput(entryIdInput, searchParams.get("id") ?? undefined);
 
-    if (!id) {
-      return NextResponse.json({ error: "Missing entry id" }, { status: 400 });
-    }
+    const entry = await requireEntryOwner(user, id);
 
-    await sql`
-      DELETE FROM weight_entries
-      WHERE id = ${id}
-    `;
+    await db.deleteWeightEntry(user.id, entry.id);
 
     return NextResponse.json({ success: true });
   } catch (err) {
+    const handled = accessErrorResponse(err) ?? validationErrorResponse(err);
+    if (handled) return handled;
+
     console.error("DELETE entry error:", err);
     return NextResponse.json({ error: "Failed to delete entry" }, { status: 500 });
   }
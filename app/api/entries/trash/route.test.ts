@@ -0,0 +1,72 @@
+// app/api/entries/trash/route.test.ts
+import { beforeAll, describe, expect, it } from "vitest";
+import { DELETE, POST } from "./route";
+import { DELETE as deleteEntry, POST as createEntry } from "../route";
+import { db } from "@/lib/db";
+import { migrate } from "@/lib/migrate";
+import { request, signInAs, signUp, type TestUser } from "@/test/routes";
+
+describe("/api/entries/trash ownership", () => {
+  let alice: TestUser;
+  let bob: TestUser;
+  let trashedId: number;
+  let liveId: number;
+
+  beforeAll(async () => {
+    await migrate();
+
+    alice = await signUp();
+    const log = async (date: string) => {
+      const res = await createEntry(request("POST", "/api/entries", { weight: 80, date }));
+      return Number((await res.json()).id);
+    };
+    trashedId = await log("2026-01-10T08:00:00.000Z");
+    liveId = await log("2026-01-11T08:00:00.000Z");
+    await deleteEntry(request("DELETE", `/api/entries?id=${trashedId}`));
+
+    bob = await signUp();
+  });
+
+  it("restoring someone else's entry answers 403 and keeps it in the trash", async () => {
+    signInAs(bob);
+    const res = await POST(request("POST", "/api/entries/trash", { entryId: trashedId }));
+
+    expect(res.status).toBe(403);
+    expect(await db.getTrashedWeightEntry(trashedId)).toBeTruthy();
+  });
+
+  it("purging someone else's entry answers 403 and keeps it", async () => {
+    signInAs(bob);
+    const res = await DELETE(request("DELETE", `/api/entries/trash?id=${trashedId}`));
+
+    expect(res.status).toBe(403);
+    expect(await db.getTrashedWeightEntry(trashedId)).toBeTruthy();
+  });
+
+  it("emptying the trash only touches the caller's own", async () => {
+    signInAs(bob);
+    const res = await DELETE(request("DELETE", "/api/entries/trash?all=true"));
+
+    expect(res.status).toBe(200);
+    expect(await db.getTrashedWeightEntry(trashedId)).toBeTruthy();
+  });
+
+  it("answers 404 for an entry that isn't in the trash", async () => {
+    signInAs(alice);
+
+    const restored = await POST(request("POST", "/api/entries/trash", { entryId: liveId }));
+    const purged = await DELETE(request("DELETE", `/api/entries/trash?id=${liveId}`));
+
+    expect(restored.status).toBe(404);
+    expect(purged.status).toBe(404);
+    expect(await db.getWeightEntry(liveId)).toBeTruthy();
+  });
+
+  it("lets the owner restore it", async () => {
+    signInAs(alice);
+    const res = await POST(request("POST", "/api/entries/trash", { entryId: trashedId }));
+
+    expect(res.status).toBe(200);
+    expect(await db.getWeightEntry(trashedId)).toBeTruthy();
+  });
+});
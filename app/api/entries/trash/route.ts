@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { accessErrorResponse, requireEntryOwner, requireUser } from "@/lib/authz";
+import { entryIdInput, restoreEntrySchema } from "@/lib/schemas";
+import { parseBody, parseInput, validationErrorResponse } from "@/lib/validate";
+import { isUniqueViolation } from "@/lib/drivers";
+import { TRASH_RETENTION_DAYS, purgeExpired } from "@/lib/trash";
+
+// =========================
+// GET /api/entries/trash
+// ✅ deleted entries still within the retention period
+// =========================
+export async function GET() {
+  try {
+    const user = await requireUser();
+
+    // Sweep first so nothing past retention is offered for restore
+    await purgeExpired();
+    const entries = await db.getTrashedWeightEntries(user.id);
+
+    return NextResponse.json({ entries, retentionDays: TRASH_RETENTION_DAYS });
+  } catch (err) {
+    const handled = accessErrorResponse(err) ?? validationErrorResponse(err);
+    if (handled) return handled;
+
+    console.error("GET trash error:", err);
+    return NextResponse.json({ error: "Failed to load trash" }, { status: 500 });
+  }
+}
+
+// =========================
+// POST /api/entries/trash
+// ✅ restore (also backs the undo toast)
+// =========================
+export async function POST(req: Request) {
+  try {
+    const user = await requireUser();
+
+    const { entryId } = await parseBody(req, restoreEntrySchema);
+
+    const entry = await requireEntryOwner(user, entryId, { inTrash: true });
+
+    const restored = await db.restoreWeightEntry(user.id, entry.id);
+
+    return NextResponse.json(restored);
+  } catch (err) {
+    const handled = accessErrorResponse(err) ?? validationErrorResponse(err);
+    if (handled) return handled;
+    // The day (or slot) was logged again after the delete
+    if (isUniqueViolation(err)) {
+      return NextResponse.json(
+        { error: "Another entry now exists on this date" },
+        { status: 409 }
+      );
+    }
+
+    console.error("Restore entry error:", err);
+    return NextResponse.json({ error: "Failed to restore entry" }, { status: 500 });
+  }
+}
+
+// =========================
+// DELETE /api/entries/trash?id=...  (or ?all=true to empty it)
+// ✅ permanent
+// =========================
+export async function DELETE(req: Request) {
+  try {
+    const user = await requireUser();
+
+    const { searchParams } = new URL(req.url);
+
+    if (searchParams.get("all") === "true") {
+      await db.purgeWeightEntries(user.id);
+      return NextResponse.json({ success: true });
+    }
+
+    const id = parseInput(entryIdInput, searchParams.get("id") ?? undefined);
+
+    const entry = await requireEntryOwner(user, id, { inTrash: true });
+
+    await db.purgeWeightEntries(user.id, entry.id);
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    const handled = accessErrorResponse(err) ?? validationErrorResponse(err);
+    if (handled) return handled;
+
+    console.error("Purge entry error:", err);
+    return NextResponse.json({ error: "Failed to purge entry" }, { status: 500 });
+  }
+}
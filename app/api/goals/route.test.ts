@@ -0,0 +1,51 @@
+// app/api/goals/route.test.ts
+import { beforeAll, describe, expect, it } from "vitest";
+import { DELETE, POST } from "./route";
+import { db } from "@/lib/db";
+import { migrate } from "@/lib/migrate";
+import { request, signInAs, signUp, type TestUser } from "@/test/routes";
+
+describe("/api/goals ownership", () => {
+  let alice: TestUser;
+  let bob: TestUser;
+  let goalId: number;
+
+  beforeAll(async () => {
+    await migrate();
+
+    alice = await signUp();
+    const res = await POST(
+      request("POST", "/api/goals", {
+        phase: "lose",
+        targetWeight: 75,
+        startDay: "2026-01-01",
+      })
+    );
+    goalId = Number((await res.json()).id);
+
+    bob = await signUp();
+  });
+
+  it("DELETE answers 403 for someone else's phase and keeps it", async () => {
+    signInAs(bob);
+    const res = await DELETE(request("DELETE", `/api/goals?id=${goalId}`));
+
+    expect(res.status).toBe(403);
+    expect(await db.getGoalPhase(goalId)).toBeTruthy();
+  });
+
+  it("DELETE answers 404 for a phase that doesn't exist", async () => {
+    signInAs(bob);
+    const res = await DELETE(request("DELETE", "/api/goals?id=999999"));
+
+    expect(res.status).toBe(404);
+  });
+
+  it("lets the owner delete it", async () => {
+    signInAs(alice);
+    const res = await DELETE(request("DELETE", `/api/goals?id=${goalId}`));
+
+    expect(res.status).toBe(200);
+    expect(await db.getGoalPhase(goalId)).toBeFalsy();
+  });
+});
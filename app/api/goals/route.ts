@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { accessErrorResponse, requireGoalOwner, requireUser } from "@/lib/authz";
+import { createGoalPhaseSchema, goalPhaseIdInput } from "@/lib/schemas";
+import { parseBody, parseInput, validationErrorResponse } from "@/lib/validate";
+
+// =========================
+// GET /api/goals
+// ✅ goal phases in start order
+// =========================
+export async function GET() {
+  try {
+    const user = await requireUser();
+
+    const phases = await db.getGoalPhases(user.id);
+
+    return NextResponse.json(phases);
+  } catch (err) {
+    const handled = accessErrorResponse(err) ?? validationErrorResponse(err);
+    if (handled) return handled;
+
+    console.error("GET goals error:", err);
+    return NextResponse.json({ error: "Failed to load goals" }, { status: 500 });
+  }
+}
+
+// =========================
+// POST /api/goals
+// ✅ add a phase (lose / maintain / gain)
+// =========================
+export async function POST(req: Request) {
+  try {
+    const user = await requireUser();
+
+    const { phase, targetWeight, tolerance, startDay, endDay } = await parseBody(
+      req,
+      createGoalPhaseSchema
+    );
+
+    const created = await db.createGoalPhase(
+      user.id,
+      phase,
+      targetWeight,
+      tolerance,
+      startDay,
+      endDay
+    );
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (err) {
+    const handled = accessErrorResponse(err) ?? validationErrorResponse(err);
+    if (handled) return handled;
+
+    console.error("POST goal error:", err);
+    return NextResponse.json({ error: "Failed to create goal" }, { status: 500 });
+  }
+}
+
+// =========================
+// DELETE /api/goals?id=...
+// =========================
+export async function DELETE(req: Request) {
+  try {
+    const user = await requireUser();
+
+    const { searchParams } = new URL(req.url);
+    const id = parseInput(goalPhaseIdInput, searchParams.get("id") ?? undefined);
+
+    const goal = await requireGoalOwner(user, id);
+
+    await db.deleteGoalPhase(user.id, goal.id);
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    const handled = accessErrorResponse(err) ?? validationErrorResponse(err);
+    if (handled) return handled;
+
+    console.error("DELETE goal error:", err);
+    return NextResponse.json({ error: "Failed to delete goal" }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { accessErrorResponse, requireUser } from "@/lib/authz";
+import { calendarQuerySchema } from "@/lib/schemas";
+import { parseInput, validationErrorResponse } from "@/lib/validate";
+import { dailyWeights } from "@/lib/daily";
+import { localToday } from "@/lib/dates";
+import { loggingCalendar, monthlyLoggingRates, streakSummary } from "@/lib/streaks";
+
+// =========================
+// GET /api/stats/calendar?year=
+// ✅ logged days of a year with their daily change, for the heatmap
+// ✅ current streak (today has until midnight), longest streak, logging rate per month,
+//    all following the weigh-in schedule
+// =========================
+export async function GET(req: Request) {
+  try {
+    const user = await requireUser();
+
+    const { searchParams } = new URL(req.url);
+    const query = parseInput(calendarQuerySchema, Object.fromEntries(searchParams));
+
+    const today = localToday(user.timezone);
+    const year = query.year ?? Number(today.slice(0, 4));
+
+    // Streaks and changes reach across years, so the whole history is read
+    const entries = await db.getWeightEntries(user.id);
+    const days = dailyWeights(entries, user.daily_value, user.timezone);
+
+    return NextResponse.json({
+      year,
+      today,
+      days: loggingCalendar(days, year),
+      months: monthlyLoggingRates(days, year, today, user.weigh_in_days),
+      streak: streakSummary(days, today, user.weigh_in_days),
+    });
+  } catch (err) {
+    const handled = accessErrorResponse(err) ?? validationErrorResponse(err);
+    if (handled) return handled;
+
+    console.error("GET calendar error:", err);
+    return NextResponse.json({ error: "Failed to load calendar" }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { accessErrorResponse, requireUser } from "@/lib/authz";
+import { statsQuerySchema } from "@/lib/schemas";
+import { parseInput, validationErrorResponse } from "@/lib/validate";
+import { dailyWeights } from "@/lib/daily";
+import { computeStats } from "@/lib/stats";
+
+// =========================
+// GET /api/stats?from=&to=
+// ✅ trend, streak, goal and phase progress for any range of local days
+// =========================
+export async function GET(req: Request) {
+  try {
+    const user = await requireUser();
+
+    const { searchParams } = new URL(req.url);
+    const range = parseInput(statsQuerySchema, Object.fromEntries(searchParams));
+
+    // The streak can reach back past `from`, so the whole history is read
+    const entries = await db.getWeightEntries(user.id);
+    const days = dailyWeights(entries, user.daily_value, user.timezone);
+    const phases = await db.getGoalPhases(user.id);
+
+    return NextResponse.json(computeStats(user, days, range, phases));
+  } catch (err) {
+    const handled = accessErrorResponse(err) ?? validationErrorResponse(err);
+    if (handled) return handled;
+
+    console.error("GET stats error:", err);
+    return NextResponse.json({ error: "Failed to load stats" }, { status: 500 });
+  }
+}
@@ -1,29 +1,20 @@
 // app/api/test/route.ts
 export const dynamic = 'force-dynamic';
 
-import { neon } from '@neondatabase/serverless';
+import { db } from '@/lib/db';
 import { NextResponse } from 'next/server';
 
 export async function GET() {
   console.log('🔍 /api/test endpoint called');
   
   try {
-    if (!process.env.NEON_DATABASE_URL) {
-      return NextResponse.json({ 
-        success: false, 
-        error: 'NEON_DATABASE_URL is not defined',
-        hint: 'Check .env.local file and restart dev server'
-      }, { status: 500 });
-    }
+    const result = await db.ping();
 
-    console.log('✅ NEON_DATABASE_URL found');
-    
-    const sql = neon(process.env.NEON_DATABASE_URL);
-    const result = await sql`SELECT NOW() as current_time, version() as db_version`;
+    console.log(`✅ Connected using the ${result.driver} driver`);
     
     return NextResponse.json({ 
       success: true, 
-      data: result[0],
+      data: result,
       message: 'Database connection successful!'
     });
     
@@ -33,8 +24,8 @@ export async function GET() {
     return NextResponse.json({ 
       success: false, 
       error: error.message,
-      hint: 'Check your Neon connection string in .env.local',
-      connectionStringPreview: process.env.NEON_DATABASE_URL?.substring(0, 60) + '...'
+      driver: process.env.DB_DRIVER || null,
+      hint: 'Check DB_DRIVER and its connection settings in .env.local, then restart the server'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,45 @@
+// app/api/user/route.test.ts
+import { beforeAll, describe, expect, it } from "vitest";
+import { DELETE } from "./route";
+import { POST as register } from "../auth/register/route";
+import { db } from "@/lib/db";
+import { migrate } from "@/lib/migrate";
+import { PASSWORD, request, signUp } from "@/test/routes";
+
+const registerAgain = (email: string) =>
+  register(
+    request("POST", "/api/auth/register", {
+      name: "Fresh start",
+      email,
+      password: PASSWORD,
+      startWeight: 75,
+    })
+  );
+
+describe("DELETE /api/user", () => {
+  beforeAll(async () => {
+    await migrate();
+  });
+
+  it("closes the account, keeping its email taken during retention", async () => {
+    const user = await signUp();
+
+    const res = await DELETE(request("DELETE", "/api/user"));
+    expect(res.status).toBe(200);
+    expect((await db.getCredentials(user.email))?.deleted_at).toBeTruthy();
+
+    expect((await registerAgain(user.email)).status).toBe(409);
+  });
+
+  it("with ?purge=true deletes it at once so the email starts over", async () => {
+    const user = await signUp();
+
+    const res = await DELETE(request("DELETE", "/api/user?purge=true"));
+    expect(res.status).toBe(200);
+    expect(await db.getCredentials(user.email)).toBeUndefined();
+
+    const again = await registerAgain(user.email);
+    expect(again.status).toBe(201);
+    expect(Number((await again.json()).start_weight)).toBe(75);
+  });
+});
@@ -2,89 +2,88 @@
 export const dynamic = 'force-dynamic';
 
 import { db } from '@/lib/db';
-import { NextRequest, NextResponse } from 'next/server';
+import { endSession, getSessionUser } from '@/lib/auth';
+import { updateUserSchema } from '@/lib/schemas';
+import { parseBody, validationErrorResponse } from '@/lib/validate';
+import { TRASH_RETENTION_DAYS } from '@/lib/trash';
+import { NextResponse } from 'next/server';
 
-export async function POST(request: NextRequest) {
+// Accounts are created through POST /api/auth/register
+
+export async function GET() {
   try {
-    const body = await request.json();
-    const { name, startWeight, goalWeight, targetDate } = body;
-    
-    console.log('Creating user with:', { name, startWeight, goalWeight });
+    const user = await getSessionUser();
     
-    if (!name || startWeight === undefined) {
+    if (!user) {
       return NextResponse.json(
-        { error: 'Name and start weight are required' },
-        { status: 400 }
+        { error: 'Not signed in' },
+        { status: 401 }
       );
     }
-
-    const user = await db.createUser(
-      name,
-      parseFloat(startWeight),
-      goalWeight ? parseFloat(goalWeight) : null,
-      targetDate
-    );
-
-    return NextResponse.json(user, { status: 201 });
+    
+    return NextResponse.json(user);
   } catch (error: any) {
-    console.error('Error in POST /api/user:', error);
+    console.error('Error in GET /api/user:', error);
     return NextResponse.json(
-      { 
-        error: 'Failed to create user',
-        details: error.message
-      },
+      { error: 'Failed to fetch user', details: error.message },
       { status: 500 }
     );
   }
 }
 
-export async function GET(request: NextRequest) {
+export async function PATCH(req: Request) {
   try {
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('id');
-    
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'User ID is required' },
-        { status: 400 }
-      );
-    }
-    
-    const user = await db.getUser(parseInt(userId));
+    const user = await getSessionUser();
     
     if (!user) {
       return NextResponse.json(
-        { error: 'User not found' },
-        { status: 404 }
+        { error: 'Not signed in' },
+        { status: 401 }
       );
     }
     
-    return NextResponse.json(user);
+    const changes = await parseBody(req, updateUserSchema);
+    const updated = await db.updateUser(user.id, changes);
+    
+    return NextResponse.json(updated);
   } catch (error: any) {
-    console.error('Error in GET /api/user:', error);
+    const handled = validationErrorResponse(error);
+    if (handled) return handled;
+
+    console.error('Error in PATCH /api/user:', error);
     return NextResponse.json(
-      { error: 'Failed to fetch user', details: error.message },
+      { error: 'Failed to update user', details: error.message },
       { status: 500 }
     );
   }
 }
 
-export async function DELETE(request: NextRequest) {
+// DELETE /api/user closes the account, ?purge=true deletes it and its data right away
+// ("Reset everything", which starts over rather than pausing)
+export async function DELETE(request: Request) {
   try {
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('id');
+    const user = await getSessionUser();
     
-    if (!userId) {
+    if (!user) {
       return NextResponse.json(
-        { error: 'User ID is required' },
-        { status: 400 }
+        { error: 'Not signed in' },
+        { status: 401 }
       );
     }
     
-    await db.deleteUser(parseInt(userId));
+    const purge = new URL(request.url).searchParams.get('purge') === 'true';
+
+    // Soft delete: signing in again within the retention period restores everything
+    await endSession();
+    await db.deleteUser(user.id);
+    if (purge) await db.purgeUser(user.id);
     
     return NextResponse.json(
-      { success: true, message: 'User deleted successfully' },
+      {
+        success: true,
+        message: purge ? 'Account deleted' : 'Account closed',
+        retentionDays: purge ? 0 : TRASH_RETENTION_DAYS,
+      },
       { status: 200 }
     );
   } catch (error: any) {
@@ -94,4 +93,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import { useEffect, useEffectEvent, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import { ArrowLeft, Calendar, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { EntriesTable } from "@/components/entries-table";
+import { useI18n } from "@/components/i18n-provider";
+import { LocaleSwitcher } from "@/components/locale-switcher";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ApiError, apiCall, fetchAllEntries } from "@/lib/api";
+import { currentTimeZone } from "@/lib/dates";
+import { newestFirst } from "@/lib/entries";
+import {
+  userProfileSchema,
+  weightEntryListSchema,
+  type UserProfile,
+  type WeightEntry,
+} from "@/lib/schemas";
+
+// ==================== HISTORY PAGE ====================
+// The whole history at once: the dashboard only lists the latest entries
+export default function HistoryPage() {
+  const router = useRouter();
+  const { t } = useI18n();
+  const [timeZone] = useState(currentTimeZone);
+
+  // null while loading
+  const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
+  const [entries, setEntries] = useState<WeightEntry[] | null>(null);
+
+  // Reads the current language without making the load depend on it
+  const notifyLoadFailed = useEffectEvent(() => toast.error(t("app.loadFailed")));
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const user = userProfileSchema.parse(await apiCall("user"));
+        const rows = weightEntryListSchema.parse(await fetchAllEntries());
+        if (cancelled) return;
+
+        setUserProfile(user);
+        setEntries(rows);
+      } catch (err) {
+        // Nobody signed in: the dashboard shows the sign in screen
+        if (err instanceof ApiError && err.status === 401) {
+          router.replace("/");
+          return;
+        }
+        console.error(err);
+        notifyLoadFailed();
+        if (!cancelled) setEntries([]);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [router]);
+
+  const handleUpdated = (entry: WeightEntry) => {
+    setEntries((current) =>
+      (current ?? []).map((e) => (e.id === entry.id ? entry : e)).sort(newestFirst)
+    );
+  };
+
+  const handleDeleted = (ids: number[]) => {
+    setEntries((current) => (current ?? []).filter((e) => !ids.includes(e.id)));
+  };
+
+  const handleRestored = (restored: WeightEntry[]) => {
+    setEntries((current) =>
+      [
+        ...(current ?? []).filter((e) => !restored.some((r) => r.id === e.id)),
+        ...restored,
+      ].sort(newestFirst)
+    );
+  };
+
+  return (
+    <div className="min-h-screen">
+      {/* Header */}
+      <header className="sticky top-0 z-20 border-b border-white/10 bg-black/30 backdrop-blur-xl">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-2xl overflow-hidden border border-white/10 bg-white/5">
+              <Image src="/logo.png" alt="logo" width={40} height={40} />
+            </div>
+            <div>
+              <p className="font-semibold text-white">WeightWise Pro</p>
+              <p className="text-xs text-gray-400">{t("app.tagline")}</p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <LocaleSwitcher />
+
+            <Button
+              asChild
+              variant="outline"
+              className="border-white/10 bg-white/5 hover:bg-white/10 text-gray-200"
+            >
+              <Link href="/">
+                <ArrowLeft className="me-2 h-4 w-4 rtl:rotate-180" />
+                {t("allEntries.back")}
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main */}
+      <main className="container mx-auto px-4 py-10">
+        <Card className="border-white/10 bg-white/[0.04] backdrop-blur-xl shadow-xl">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-3">
+              <div className="p-2 rounded-xl bg-white/5 border border-white/10">
+                <Calendar className="h-5 w-5 text-orange-300" />
+              </div>
+              {t("allEntries.title")}
+            </CardTitle>
+            <CardDescription className="text-gray-400">
+              {t("allEntries.description")}
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent>
+            {entries === null ? (
+              <div className="flex justify-center py-16">
+                <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+              </div>
+            ) : userProfile === null ? (
+              <div className="text-center py-16 text-gray-400">{t("app.loadFailed")}</div>
+            ) : (
+              <EntriesTable
+                entries={entries}
+                unit={userProfile.weight_unit}
+                multiWeighIn={userProfile.multi_weigh_in}
+                timeZone={timeZone}
+                onUpdated={handleUpdated}
+                onDeleted={handleDeleted}
+                onRestored={handleRestored}
+              />
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -1,12 +1,9 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useEffectEvent, useMemo, useRef, useState } from "react";
 import {
   format,
   parseISO,
-  differenceInDays,
-  startOfDay,
-  isSameDay,
   subDays,
 } from "date-fns";
 import {
@@ -18,6 +15,7 @@ import {
   Tooltip,
   ResponsiveContainer,
   ReferenceLine,
+  Brush,
 } from "recharts";
 import {
   Scale,
@@ -43,11 +41,24 @@ import {
   ShieldCheck,
   Clock,
   Quote,
+  Mail,
+  Lock,
+  LogOut,
+  CalendarPlus,
+  History,
+  Settings,
+  CalendarRange,
+  Coffee,
+  Bell,
+  X,
 } from "lucide-react";
 import { toast } from "sonner";
 import { motion, AnimatePresence } from "framer-motion";
 import Image from "next/image";
+import Link from "next/link";
 
+import { useI18n } from "@/components/i18n-provider";
+import { LocaleSwitcher } from "@/components/locale-switcher";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -62,6 +73,13 @@ import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 
 import {
   Dialog,
@@ -72,52 +90,63 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
+import { ConsistencyCalendar } from "@/components/consistency-calendar";
+import { EntryHistory } from "@/components/entry-history";
+import { LogDayDialog } from "@/components/log-day-dialog";
+import { RangeDialog } from "@/components/range-dialog";
+import { SettingsDialog } from "@/components/settings-dialog";
+import { SlotPicker } from "@/components/slot-picker";
+import { TrashDialog } from "@/components/trash-dialog";
+import { WeightInput } from "@/components/weight-input";
+import { ApiError, apiCall, apiErrorMessage, fetchAllEntries } from "@/lib/api";
+import { currentTimeZone, localDayKey, localHour, localToday } from "@/lib/dates";
+import { entryEditPayload, findCollision, newestFirst } from "@/lib/entries";
+import { isTowardGoal, phaseOn } from "@/lib/goals";
+import { formatNumber, type Translator } from "@/lib/i18n";
+import { DEFAULT_CHART_RANGE, isCustomRange, rangeBounds, rangeLength } from "@/lib/ranges";
+import { isWeighInDay, nextWeighInDay } from "@/lib/streaks";
+import { trendWarmUpFrom, trendWeights } from "@/lib/trend";
+import {
+  formatAxisWeight,
+  formatWeight,
+  formatWeightChange,
+  fromUnit,
+  toUnit,
+  weightFieldValue,
+} from "@/lib/units";
+import {
+  dailyWeights,
+  entryDay,
+  slotForHour,
+  type DailyWeight,
+} from "@/lib/daily";
+import {
+  goalPhaseListSchema,
+  loggingCalendarSchema,
+  userProfileSchema,
+  weightEntryListSchema,
+  weightEntrySchema,
+  weightStatsSchema,
+  parseWeightField,
+  CHART_RANGE_PRESETS,
+  WEIGHT_UNITS,
+  type ChartRange,
+  type EntrySlot,
+  type GoalPhase,
+  type LoggingCalendar,
+  type UserProfile,
+  type WeightEntry,
+  type WeightEntrySummary,
+  type WeightStats,
+  type WeightUnit,
+} from "@/lib/schemas";
 
 // ==================== HELPERS ====================
-const safeToNumber = (value: any): number => {
-  if (value === null || value === undefined) return 0;
-  const num = typeof value === "string" ? parseFloat(value) : value;
-  return isNaN(num) ? 0 : num;
-};
-
-const safeToFixed = (value: any, decimals: number = 1): string => {
-  const num = safeToNumber(value);
-  return num.toFixed(decimals);
-};
-
-const apiCall = async (endpoint: string, options: RequestInit = {}) => {
-  const response = await fetch(`/api/${endpoint}`, {
-    headers: { "Content-Type": "application/json" },
-    ...options,
-  });
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({}));
-    throw new Error(error.error || "API request failed");
-  }
-
-  return response.json();
-};
-
-// ==================== TYPES ====================
-type WeightEntry = {
-  id: number;
-  user_id: number;
-  date: string;
-  weight: number;
-  note?: string | null;
-  created_at: string;
-};
-
-type UserProfile = {
-  id: number;
-  name: string;
-  start_weight: number;
-  goal_weight: number | null;
-  start_date: string;
-  target_date: string | null;
-  created_at: string;
-  updated_at: string;
+// Setup placeholders (current, goal) per unit, stones only fill the first box
+const SETUP_EXAMPLES: Record<WeightUnit, [number, number]> = {
+  kg: [75.5, 70],
+  lb: [166.5, 154.5],
+  st: [11, 11],
 };
 
 // ==================== MOTIVATION ====================
@@ -133,46 +162,56 @@ type Motivation = {
 const pickRandom = <T,>(arr: T[]) =>
   arr[Math.floor(Math.random() * arr.length)];
 
+// Weekly change that still reads as "holding" for a maintenance goal
+const WEEKLY_DRIFT_KG = 0.25;
+
 const buildMotivation = ({
   user,
   stats,
   entryToday,
+  today,
+  i18n: { t, locale, formatDate },
 }: {
   user: UserProfile;
-  stats: any;
+  stats: WeightStats | null;
   entryToday: WeightEntry | null;
+  today: string;
+  i18n: Pick<Translator, "t" | "locale" | "formatDate">;
 }): Motivation => {
-  const hasGoal = !!user.goal_weight;
-  const goal = user.goal_weight || 0;
-  const current = stats?.currentWeight ?? user.start_weight;
+  const hasGoal = user.goal_weight != null;
+  const direction = hasGoal ? user.goal_direction : null;
   const streak = stats?.streak ?? 1;
   const weekly = stats?.weeklyAvg ?? 0;
   const progress = stats?.goalProgress ?? 0;
-
-  const remaining = hasGoal ? Math.abs(current - goal) : null;
+  const remaining = stats?.goalRemaining ?? null;
+  const unit = user.weight_unit;
+  const change = (kg: number | null, decimals = 1) =>
+    formatWeightChange(kg, unit, decimals, locale);
 
   const celebrate: Motivation[] = [
     {
-      title: "You’re unstoppable 🔥",
-      message: `Your streak is ${streak} days. That’s real discipline.`,
+      title: t("motivation.unstoppable.title"),
+      message: t("motivation.unstoppable.message", { count: streak }),
       mood: "celebrate",
       icon: Flame,
     },
     {
-      title: "Goal progress unlocked 🏆",
-      message: `You’ve completed ${safeToFixed(progress, 0)}% of your goal. Keep attacking!`,
+      title: t("motivation.progress.title"),
+      message: t("motivation.progress.message", {
+        progress: formatNumber(progress, 0, locale),
+      }),
       mood: "celebrate",
       icon: Trophy,
     },
     {
-      title: "Momentum is on your side ⚡",
-      message: `Your trend is ${safeToFixed(weekly, 2)}kg/week. That’s elite progress.`,
+      title: t("motivation.momentum.title"),
+      message: t("motivation.momentum.message", { rate: change(weekly, 2) }),
       mood: "celebrate",
       icon: Zap,
     },
     {
-      title: "Consistency beats talent 💎",
-      message: `Every day you log is a step closer to who you want to be.`,
+      title: t("motivation.consistency.title"),
+      message: t("motivation.consistency.message"),
       mood: "celebrate",
       icon: Sparkles,
     },
@@ -180,22 +219,24 @@ const buildMotivation = ({
 
   const good: Motivation[] = [
     {
-      title: "Small steps = big results 🌱",
-      message: hasGoal
-        ? `Only ${safeToFixed(remaining, 1)}kg left until your goal. You're closer than you think.`
-        : "Consistency beats motivation. Just show up today.",
+      title: t("motivation.smallSteps.title"),
+      message: !hasGoal
+        ? t("motivation.smallSteps.noGoal")
+        : direction === "maintain"
+          ? t("motivation.smallSteps.maintain", { amount: change(remaining) })
+          : t("motivation.smallSteps.goal", { amount: change(remaining) }),
       mood: "good",
       icon: Target,
     },
     {
-      title: "You’re building the habit ✅",
-      message: `Your streak is growing. Keep the rhythm alive.`,
+      title: t("motivation.habit.title"),
+      message: t("motivation.habit.message"),
       mood: "good",
       icon: Activity,
     },
     {
-      title: "Progress is invisible until it’s not ✨",
-      message: "Keep going. Your future self will thank you.",
+      title: t("motivation.invisible.title"),
+      message: t("motivation.invisible.message"),
       mood: "good",
       icon: Sparkles,
     },
@@ -203,94 +244,176 @@ const buildMotivation = ({
 
   const warning: Motivation[] = [
     {
-      title: "Fluctuations are normal 🚧",
-      message:
-        "Daily weight goes up and down. Focus on the trend — not one day.",
+      title: t("motivation.fluctuations.title"),
+      message: t("motivation.fluctuations.message"),
       mood: "warning",
-      icon: TrendingUp,
+      icon: direction === "gain" ? TrendingDown : TrendingUp,
     },
     {
-      title: "Don’t quit. Adjust 🧠",
+      title: t("motivation.adjust.title"),
       message:
-        "Weight increases are feedback, not failure. Hydrate, sleep, move.",
+        direction === "gain"
+          ? t("motivation.adjust.gain")
+          : direction === "maintain"
+            ? t("motivation.adjust.maintain")
+            : t("motivation.adjust.lose"),
       mood: "warning",
-      icon: RotateCw,
+      icon: direction === "gain" ? TrendingDown : RotateCw,
     },
   ];
 
   const neutral: Motivation[] = [
     {
-      title: "Today is a checkpoint 📍",
-      message: "Log your weight today. Data creates clarity.",
+      title: t("motivation.checkpoint.title"),
+      message: t("motivation.checkpoint.message"),
       mood: "neutral",
       icon: Calendar,
     },
     {
-      title: "Future you is watching 👀",
-      message: "One entry today makes tomorrow easier. Keep the rhythm.",
+      title: t("motivation.futureYou.title"),
+      message: t("motivation.futureYou.message"),
       mood: "neutral",
       icon: Clock,
     },
   ];
 
-  if (!entryToday) return pickRandom(neutral);
-
-  if (hasGoal && current <= goal) {
+  // A planned rest day doesn't ask for a log
+  if (!entryToday && !isWeighInDay(today, user.weigh_in_days)) {
     return {
-      title: "Goal achieved 🏆",
-      message:
-        "You did it! Now focus on maintaining and improving your lifestyle.",
-      mood: "celebrate",
-      icon: Trophy,
+      title: t("motivation.restDay.title"),
+      message: t("motivation.restDay.message", {
+        day: formatDate(nextWeighInDay(today, user.weigh_in_days), "weekday"),
+      }),
+      mood: "neutral",
+      icon: Coffee,
     };
   }
 
-  if (weekly < 0) return pickRandom([...celebrate, ...good]);
-  if (weekly > 0 && hasGoal) return pickRandom(warning);
+  if (!entryToday) return pickRandom(neutral);
+
+  if (stats?.goalReached) {
+    return direction === "maintain"
+      ? {
+          title: t("motivation.holding.title"),
+          message: t("motivation.holding.message", {
+            tolerance: change(user.goal_tolerance),
+            goal: formatWeight(user.goal_weight, unit, 1, locale),
+          }),
+          mood: "celebrate",
+          icon: Trophy,
+        }
+      : {
+          title: t("motivation.achieved.title"),
+          message: t("motivation.achieved.message"),
+          mood: "celebrate",
+          icon: Trophy,
+        };
+  }
+
+  // Maintaining, a flat week is the win; otherwise moving towards the goal is
+  if (isTowardGoal(direction, weekly, WEEKLY_DRIFT_KG)) {
+    return pickRandom([...celebrate, ...good]);
+  }
+  if (weekly !== 0 && hasGoal) return pickRandom(warning);
 
   return pickRandom([...good, ...neutral]);
 };
 
 // ==================== PREMIUM TOOLTIP ====================
-function ModernTooltip({ active, payload, label }: any) {
+// Chart values are already in the profile's unit, readings are stored kg
+function ModernTooltip({ active, payload, label, unit }: any) {
+  const { locale, t, formatDate } = useI18n();
   if (!active || !payload?.length) return null;
 
-  const value = payload[0].value;
+  const show = (value: number) => formatWeight(fromUnit(value, unit), unit, 1, locale);
+
+  const point = payload[0].payload ?? {};
+  // Days with several weigh-ins list each reading under the daily value
+  const readings: WeightEntry[] = point.readings ?? [];
+  const goal: number | null = point.goal ?? null;
+  const trend: number | null = point.trend ?? null;
+  // Days past the newest entry only carry the forecast
+  const projected = point.weight === undefined;
 
   return (
     <div className="rounded-2xl border border-white/10 bg-gray-950/80 px-4 py-3 backdrop-blur-xl shadow-2xl">
-      <p className="text-xs text-gray-400 mb-1">{label}</p>
+      <p className="text-xs text-gray-400 mb-1">
+        {formatDate(label, "medium")}
+        {projected && ` · ${t("chart.forecast")}`}
+      </p>
       <p className="text-lg font-semibold text-white">
-        {safeToFixed(value, 1)}{" "}
-        <span className="text-sm text-gray-400">kg</span>
+        {show(projected ? point.projection : point.weight)}
       </p>
+      {projected && point.band && (
+        <p className="text-xs text-gray-400">
+          {show(point.band[0])} – {show(point.band[1])}
+        </p>
+      )}
+      {!projected && trend !== null && (
+        <p className="text-xs text-violet-300">
+          {t("chart.trend", { weight: show(trend) })}
+        </p>
+      )}
+      {goal !== null && (
+        <p className="text-xs text-green-400">
+          {t("chart.goal", { weight: show(goal) })}
+        </p>
+      )}
+      {readings.length > 1 && (
+        <div className="mt-2 space-y-1 border-t border-white/10 pt-2">
+          {readings.map((r) => (
+            <p key={r.id} className="text-xs text-gray-300 flex justify-between gap-4">
+              <span>
+                {r.slot ? t(`slot.${r.slot}`) : t("chart.entry")} ·{" "}
+                {formatDate(r.date, "time")}
+              </span>
+              <span className="text-white">{formatWeight(r.weight, unit, 1, locale)}</span>
+            </p>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
 
 export default function WeightWiseTracker() {
+  const i18n = useI18n();
+  const { locale, dir, t, formatDate } = i18n;
   const [isLoading, setIsLoading] = useState(true);
+  // Days follow this device's time zone, the profile is kept on it (see loadAccount)
+  const [timeZone] = useState(currentTimeZone);
+  const [today, setToday] = useState(() => localToday(timeZone));
 
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [weightEntries, setWeightEntries] = useState<WeightEntry[]>([]);
-
-  // Setup
+  // Every entry from this day on is loaded, null once the whole history is
+  const [loadedFrom, setLoadedFrom] = useState<string | null>(null);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  // Start of the range picked last, a load already running catches up to it when done
+  const wantedFrom = useRef<string | null>(null);
+
+  // Setup / sign in
+  const [authMode, setAuthMode] = useState<"register" | "login">("register");
+  const [setupEmail, setSetupEmail] = useState("");
+  const [setupPassword, setSetupPassword] = useState("");
   const [setupName, setSetupName] = useState("");
   const [setupCurrentWeight, setSetupCurrentWeight] = useState("");
   const [setupGoalWeight, setSetupGoalWeight] = useState("");
+  const [setupUnit, setSetupUnit] = useState<WeightUnit>("kg");
   const [setupTargetWeeks, setSetupTargetWeeks] = useState(12);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Logging today
   const [todaysWeight, setTodaysWeight] = useState("");
+  const [isSavingToday, setIsSavingToday] = useState(false);
+  const [todaysSlot, setTodaysSlot] = useState<EntrySlot>(() =>
+    slotForHour(localHour(new Date(), timeZone))
+  );
   const inputRef = useRef<HTMLInputElement>(null);
 
-  // localStorage persistence
-  const [currentUserId, setCurrentUserId] = useState<number | null>(null);
-  const [hasLoadedFromStorage, setHasLoadedFromStorage] = useState(false);
-
   // Filter range
-  const [range, setRange] = useState<"7d" | "30d" | "all">("30d");
+  const [range, setRange] = useState<ChartRange>(DEFAULT_CHART_RANGE);
+  const [rangeOpen, setRangeOpen] = useState(false);
 
   // Editing modal
   const [editOpen, setEditOpen] = useState(false);
@@ -299,22 +422,31 @@ export default function WeightWiseTracker() {
   const [editWeight, setEditWeight] = useState("");
   const [editNote, setEditNote] = useState("");
   const [editDate, setEditDate] = useState(""); // YYYY-MM-DD
+  const [editSlot, setEditSlot] = useState<EntrySlot>("other");
+  const [historyOpen, setHistoryOpen] = useState(false);
 
   const [isSavingEdit, setIsSavingEdit] = useState(false);
+  const [logDayOpen, setLogDayOpen] = useState(false);
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [trashOpen, setTrashOpen] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+
+  const [stats, setStats] = useState<WeightStats | null>(null);
+  const [calendar, setCalendar] = useState<LoggingCalendar | null>(null);
+  const [calendarYear, setCalendarYear] = useState(() => Number(today.slice(0, 4)));
+  const [goalPhases, setGoalPhases] = useState<GoalPhase[]>([]);
 
   // ✅ Motivation
   const [motivation, setMotivation] = useState<Motivation | null>(null);
+  // Day the weigh-in reminder was dismissed on, it comes back on the next scheduled day
+  const [reminderDismissedOn, setReminderDismissedOn] = useState<string | null>(null);
 
-  // ==================== INIT LOCAL STORAGE ====================
+  // A tab left open rolls over to the next day at local midnight
   useEffect(() => {
-    if (typeof window !== "undefined") {
-      const savedId = localStorage.getItem("weightApp_userId");
-      if (savedId) setCurrentUserId(parseInt(savedId));
-      setHasLoadedFromStorage(true);
-    }
-  }, []);
+    const timer = setInterval(() => setToday(localToday(timeZone)), 60_000);
+    return () => clearInterval(timer);
+  }, [timeZone]);
 
   // Focus input when dashboard loads
   useEffect(() => {
@@ -324,115 +456,295 @@ export default function WeightWiseTracker() {
   }, [userProfile]);
 
   // ==================== LOAD USER + ENTRIES ====================
+  // Only the saved chart range (and the trend's warm-up before it) is fetched, older history
+  // follows when a wider range needs it
+  const loadAccount = async () => {
+    let user = userProfileSchema.parse(await apiCall("user"));
+    const from = trendWarmUpFrom(rangeBounds(user.chart_range, today).from);
+    const entries = weightEntryListSchema.parse(
+      await fetchAllEntries(from ? `from=${from}` : "")
+    );
+    const phases = goalPhaseListSchema.parse(await apiCall("goals"));
+
+    // Travelling (or a profile from before time zones): stats and streaks move to the zone
+    // the user is in now, the days already logged keep their date
+    if (user.timezone !== timeZone) {
+      user = userProfileSchema.parse(
+        await apiCall("user", {
+          method: "PATCH",
+          body: JSON.stringify({ timezone: timeZone }),
+        })
+      );
+      toast.info(t("app.timezoneChanged", { zone: timeZone }), {
+        description: t("app.timezoneChangedDescription"),
+      });
+    }
+
+    setUserProfile(user);
+    setWeightEntries(entries);
+    setGoalPhases(phases);
+    setLoadedFrom(from);
+    setRange(user.chart_range);
+  };
+
+  const loadHistory = async (from: string | null) => {
+    wantedFrom.current = from;
+    if (isLoadingHistory) return;
+
+    const needsMore = (loaded: string | null): loaded is string =>
+      loaded !== null && (wantedFrom.current === null || wantedFrom.current < loaded);
+    let loaded = loadedFrom;
+    if (!needsMore(loaded)) return;
+
+    setIsLoadingHistory(true);
+
+    try {
+      // The range may have been widened again while a page was on its way
+      while (needsMore(loaded)) {
+        const next = wantedFrom.current;
+        const to = format(subDays(parseISO(loaded), 1), "yyyy-MM-dd");
+        const older = weightEntryListSchema.parse(
+          await fetchAllEntries(
+            new URLSearchParams(next ? { from: next, to } : { to }).toString()
+          )
+        );
+
+        // Entries created or edited into the past may already be there
+        setWeightEntries((current) =>
+          [
+            ...current,
+            ...older.filter((e) => !current.some((c) => c.id === e.id)),
+          ].sort(newestFirst)
+        );
+        setLoadedFrom(next);
+        loaded = next;
+      }
+    } catch (err) {
+      console.error(err);
+      toast.error(t("app.olderFailed"));
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  };
+
+  // The range is saved on the profile, the chart opens on it next time
+  const handleRangeChange = (next: ChartRange) => {
+    setRange(next);
+    loadHistory(trendWarmUpFrom(rangeBounds(next, today).from));
+
+    apiCall("user", {
+      method: "PATCH",
+      body: JSON.stringify({ chartRange: next }),
+    }).catch((err) => console.error(err));
+  };
+
+  // Read the current language and day without making the first load depend on them
+  const loadOnMount = useEffectEvent(loadAccount);
+  const notifyLoadFailed = useEffectEvent(() => toast.error(t("app.loadFailed")));
+
   useEffect(() => {
     const load = async () => {
-      if (!hasLoadedFromStorage) return;
-
       try {
-        if (!currentUserId) {
-          setIsLoading(false);
-          return;
-        }
-
-        const user = await apiCall(`user?id=${currentUserId}`);
-        const processedUser = {
-          ...user,
-          start_weight: safeToNumber(user.start_weight),
-          goal_weight: user.goal_weight ? safeToNumber(user.goal_weight) : null,
-        };
-        setUserProfile(processedUser);
-
-        const entries = await apiCall(`entries?userId=${currentUserId}`);
-        const processedEntries = entries.map((e: any) => ({
-          ...e,
-          weight: safeToNumber(e.weight),
-        }));
-        setWeightEntries(processedEntries);
+        await loadOnMount();
       } catch (err) {
-        console.error(err);
-        localStorage.removeItem("weightApp_userId");
-        setCurrentUserId(null);
-        toast.error("Failed to load saved data.");
+        // 401 just means nobody is signed in on this device yet
+        if (!(err instanceof ApiError && err.status === 401)) {
+          console.error(err);
+          notifyLoadFailed();
+        }
       } finally {
         setIsLoading(false);
       }
     };
 
-    if (hasLoadedFromStorage) setTimeout(load, 500);
-  }, [currentUserId, hasLoadedFromStorage]);
+    setTimeout(load, 500);
+  }, []);
 
   // ==================== DERIVED VALUES ====================
-  const filteredEntries = useMemo(() => {
-    if (range === "all") return weightEntries;
+  // One value per logged day, per the profile's daily value setting
+  const days = useMemo<DailyWeight[]>(
+    () => dailyWeights(weightEntries, userProfile?.daily_value ?? "first", timeZone),
+    [weightEntries, userProfile?.daily_value, timeZone]
+  );
 
-    const cutoff =
-      range === "7d" ? subDays(new Date(), 7) : subDays(new Date(), 30);
-    return weightEntries.filter((e) => new Date(e.date) >= cutoff);
-  }, [weightEntries, range]);
+  const filteredDays = useMemo(() => {
+    const { from, to } = rangeBounds(range, today);
+    return days.filter((d) => (!from || d.day >= from) && (!to || d.day <= to));
+  }, [days, range, today]);
+
+  // Smoothed trend weight per day. Everything loaded reaches far enough before the range
+  // (see trendWarmUpFrom) that it matches the trend in the stats from the first day on
+  const trendByDay = useMemo(
+    () =>
+      new Map(
+        trendWeights(days, userProfile?.trend_smoothing).map((p) => [p.day, p.trend])
+      ),
+    [days, userProfile?.trend_smoothing]
+  );
+
+  // Everything is charted in the profile's unit (pounds for stones)
+  const unit = userProfile?.weight_unit ?? "kg";
 
   const chartData = useMemo(() => {
-    return [...filteredEntries].reverse().map((entry) => ({
-      ...entry,
-      displayDate: format(parseISO(entry.date), "MMM dd"),
+    const inUnit = (kg: number) => toUnit(kg, unit);
+    const point = (day: string) => {
+      // Stepped goal line, only drawn when the plan has phases
+      const goal = phaseOn(goalPhases, day)?.target_weight;
+      return {
+        day,
+        goal: goal != null ? inUnit(goal) : null,
+      };
+    };
+    const logged = [...filteredDays].reverse().map((d) => ({
+      ...d,
+      ...point(d.day),
+      weight: inUnit(d.weight),
+      trend: inUnit(trendByDay.get(d.day)!),
     }));
-  }, [filteredEntries]);
 
-  const stats = useMemo(() => {
-    if (!userProfile || weightEntries.length === 0) return null;
+    // Forecast: dashed trend and its band, starting on the newest point and running on
+    // for as long as the range looks back (at most what the server projected)
+    const projection = stats?.forecast?.projection ?? [];
+    const newest = logged[logged.length - 1];
+    if (!newest || projection[0]?.day !== newest.day) return logged;
+
+    const ahead = rangeLength(range, today) ?? projection.length;
+    const projected = projection.slice(0, ahead + 1).map((p) => ({
+      ...point(p.day),
+      projection: inUnit(p.weight),
+      band: [inUnit(p.low), inUnit(p.high)],
+    }));
 
-    const latest = weightEntries[0];
-    const first = weightEntries[weightEntries.length - 1];
+    return [
+      ...logged.slice(0, -1),
+      { ...newest, projection: projected[0].projection, band: projected[0].band },
+      ...projected.slice(1),
+    ];
+  }, [filteredDays, trendByDay, goalPhases, stats?.forecast, range, today, unit]);
 
-    const totalChange = latest.weight - first.weight;
+  // The axis is keyed on days; its labels carry the year once the chart spans more than one
+  const chartSpansYears =
+    chartData.length > 0 &&
+    chartData[0].day.slice(0, 4) !== chartData[chartData.length - 1].day.slice(0, 4);
+  const axisDate = (day: string) => formatDate(day, chartSpansYears ? "medium" : "axis");
 
-    const daysTracked =
-      differenceInDays(new Date(latest.date), new Date(first.date)) || 1;
-    const weeklyAvg = (totalChange / daysTracked) * 7;
+  // Analytics come from GET /api/stats, which sees the whole history
+  useEffect(() => {
+    if (!userProfile) return;
+    let cancelled = false;
 
-    let goalProgress = 0;
-    if (userProfile.goal_weight && totalChange < 0) {
-      const totalToLose = userProfile.start_weight - userProfile.goal_weight;
-      goalProgress = Math.min(100, (Math.abs(totalChange) / totalToLose) * 100);
-    }
+    apiCall("stats")
+      .then((data) => {
+        if (!cancelled) setStats(weightStatsSchema.parse(data));
+      })
+      .catch((err) => console.error(err));
 
-    const streak = (() => {
-      if (weightEntries.length < 2) return 1;
-      let s = 1;
-      for (let i = 0; i < weightEntries.length - 1; i++) {
-        const cur = startOfDay(new Date(weightEntries[i].date));
-        const nxt = startOfDay(new Date(weightEntries[i + 1].date));
-        if (differenceInDays(cur, nxt) === 1) s++;
-        else break;
-      }
-      return s;
-    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [userProfile, weightEntries, goalPhases]);
 
-    return {
-      currentWeight: latest.weight,
-      totalChange,
-      weeklyAvg,
-      goalProgress,
-      streak,
+  // Heatmap and streaks from GET /api/stats/calendar, one year at a time
+  useEffect(() => {
+    if (!userProfile) return;
+    let cancelled = false;
+
+    apiCall(`stats/calendar?year=${calendarYear}`)
+      .then((data) => {
+        if (!cancelled) setCalendar(loggingCalendarSchema.parse(data));
+      })
+      .catch((err) => console.error(err));
+
+    return () => {
+      cancelled = true;
     };
-  }, [userProfile, weightEntries]);
+  }, [userProfile, weightEntries, calendarYear]);
+
+  const entryToday = useMemo(
+    () => weightEntries.find((e) => entryDay(e, timeZone) === today) || null,
+    [weightEntries, today, timeZone]
+  );
 
-  const entryToday = useMemo(() => {
-    if (!weightEntries.length) return null;
-    const today = new Date();
+  // Multi weigh-in mode: today's reading in the selected slot ("other" never collides)
+  const slotEntryToday = useMemo(() => {
+    if (todaysSlot === "other") return null;
     return (
-      weightEntries.find((e) => isSameDay(new Date(e.date), today)) || null
+      weightEntries.find(
+        (e) => entryDay(e, timeZone) === today && e.slot === todaysSlot
+      ) || null
     );
-  }, [weightEntries]);
-
-  // ✅ Auto update motivation
+  }, [weightEntries, todaysSlot, today, timeZone]);
+
+  const multiWeighIn = !!userProfile?.multi_weigh_in;
+  const existingToday = multiWeighIn ? slotEntryToday : entryToday;
+
+  // Weigh-in reminder: a scheduled day with nothing logged yet (any slot will do)
+  const showReminder =
+    !!userProfile &&
+    !entryToday &&
+    isWeighInDay(today, userProfile.weigh_in_days) &&
+    reminderDismissedOn !== today;
+
+  // Trend badge: green when the trend weight moves the way the goal wants (down without one)
+  const goalDirection =
+    userProfile?.goal_weight != null ? userProfile.goal_direction : null;
+  const trendColor =
+    stats?.trendChange != null &&
+    isTowardGoal(goalDirection, stats.trendChange, userProfile?.goal_tolerance)
+      ? "text-green-400"
+      : goalDirection === "maintain"
+        ? "text-amber-400"
+        : "text-red-400";
+
+  // Profile card forecast, for losing / gaining goals not reached yet
+  const forecast =
+    stats?.forecast &&
+    (goalDirection === "lose" || goalDirection === "gain") &&
+    !stats.goalReached
+      ? stats.forecast
+      : null;
+
+  const targetDay = userProfile?.target_date
+    ? localDayKey(new Date(userProfile.target_date), timeZone)
+    : null;
+
+  // ✅ Auto update motivation, in the current language
   useEffect(() => {
     if (!userProfile || !stats) return;
-    setMotivation(buildMotivation({ user: userProfile, stats, entryToday }));
-  }, [userProfile, stats, entryToday]);
+    setMotivation(buildMotivation({ user: userProfile, stats, entryToday, today, i18n }));
+  }, [userProfile, stats, entryToday, today, i18n]);
 
   const refreshMotivation = () => {
     if (!userProfile || !stats) return;
-    setMotivation(buildMotivation({ user: userProfile, stats, entryToday }));
+    setMotivation(buildMotivation({ user: userProfile, stats, entryToday, today, i18n }));
+  };
+
+  // ==================== SIGN IN ====================
+  const handleLoginSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      await apiCall("auth/login", {
+        method: "POST",
+        body: JSON.stringify({
+          email: setupEmail.trim(),
+          password: setupPassword,
+        }),
+      });
+
+      await loadAccount();
+      setSetupPassword("");
+    } catch (err) {
+      console.error(err);
+      toast.error(
+        err instanceof ApiError && err.status === 401
+          ? t("login.invalid")
+          : t("login.failed")
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   // ==================== SETUP SUBMIT ====================
@@ -441,65 +753,74 @@ export default function WeightWiseTracker() {
     setIsSubmitting(true);
 
     if (!setupName.trim() || !setupCurrentWeight) {
-      toast.error("Please enter your name and current weight.");
+      toast.error(t("setup.missingName"));
+      setIsSubmitting(false);
+      return;
+    }
+
+    if (!setupEmail.trim() || setupPassword.length < 8) {
+      toast.error(t("setup.missingCredentials"));
+      setIsSubmitting(false);
+      return;
+    }
+
+    const current = parseWeightField(setupCurrentWeight, setupUnit, i18n);
+    const goal = setupGoalWeight
+      ? parseWeightField(setupGoalWeight, setupUnit, i18n)
+      : null;
+
+    if (current.error !== null || goal?.error) {
+      toast.error(current.error ?? goal?.error);
       setIsSubmitting(false);
       return;
     }
 
     try {
-      const currentWeightNum = parseFloat(setupCurrentWeight);
-      const goalWeightNum = setupGoalWeight
-        ? parseFloat(setupGoalWeight)
-        : null;
+      const currentWeightNum = current.weight;
+      const goalWeightNum = goal ? goal.weight : null;
 
       const targetDate = new Date();
       targetDate.setDate(targetDate.getDate() + setupTargetWeeks * 7);
 
-      const newUser = await apiCall("user", {
+      const newUser = await apiCall("auth/register", {
         method: "POST",
         body: JSON.stringify({
           name: setupName.trim(),
+          email: setupEmail.trim(),
+          password: setupPassword,
           startWeight: currentWeightNum,
           goalWeight: goalWeightNum,
           targetDate: targetDate.toISOString(),
+          weightUnit: setupUnit,
+          timezone: timeZone,
         }),
       });
 
-      const processedUser = {
-        ...newUser,
-        start_weight: safeToNumber(newUser.start_weight),
-        goal_weight: newUser.goal_weight
-          ? safeToNumber(newUser.goal_weight)
-          : null,
-      };
-
-      localStorage.setItem("weightApp_userId", newUser.id.toString());
-      setCurrentUserId(newUser.id);
-      setHasLoadedFromStorage(true);
-
       const initialEntry = await apiCall("entries", {
         method: "POST",
         body: JSON.stringify({
-          userId: newUser.id,
           weight: currentWeightNum,
-          note: "Starting point",
+          note: t("setup.startingNote"),
+          timezone: timeZone,
         }),
       });
 
-      const processedEntry = {
-        ...initialEntry,
-        weight: safeToNumber(initialEntry.weight),
-      };
-
-      setUserProfile(processedUser);
-      setWeightEntries([processedEntry]);
+      setUserProfile(userProfileSchema.parse(newUser));
+      setWeightEntries([weightEntrySchema.parse(initialEntry)]);
+      setSetupPassword("");
 
-      toast.success(`Welcome ${setupName.trim()} ✨`, {
-        description: "Your dashboard is now ready.",
+      toast.success(t("setup.welcome", { name: setupName.trim() }), {
+        description: t("setup.welcomeDescription"),
       });
     } catch (err) {
       console.error(err);
-      toast.error("Setup failed. Please try again.");
+      toast.error(
+        apiErrorMessage(err, i18n, {
+          fallback: "setup.failed",
+          conflict: "setup.emailTaken",
+          unit: setupUnit,
+        })
+      );
     } finally {
       setIsSubmitting(false);
     }
@@ -510,128 +831,202 @@ export default function WeightWiseTracker() {
     e.preventDefault();
     if (!todaysWeight || !userProfile) return;
 
-    const todaysWeightNum = parseFloat(todaysWeight);
-    if (isNaN(todaysWeightNum)) return toast.error("Invalid weight value.");
+    const { weight: todaysWeightNum, error } = parseWeightField(todaysWeight, unit, i18n);
+    if (error !== null) return toast.error(error);
+    if (isSavingToday) return;
 
     try {
-      // If entry exists today => open edit modal
-      if (entryToday) {
-        setSelectedEntry(entryToday);
-        setEditWeight(String(entryToday.weight));
-        setEditNote(entryToday.note || "");
-        setEditDate(format(new Date(entryToday.date), "yyyy-MM-dd"));
-        setEditOpen(true);
+      // If entry exists today (or in this slot) => open edit modal
+      if (existingToday) {
+        openEditModal(existingToday);
         return;
       }
 
-      const newEntry = await apiCall("entries", {
-        method: "POST",
-        body: JSON.stringify({
-          userId: userProfile.id,
-          weight: todaysWeightNum,
-          note: "Daily entry",
-        }),
-      });
+      setIsSavingToday(true);
 
-      const processed = { ...newEntry, weight: safeToNumber(newEntry.weight) };
+      // PUT is an upsert on the day (or its morning / evening slot), a double click or a
+      // second device can't duplicate it. "Other" readings can repeat, so they're POSTed
+      const body = JSON.stringify({
+        weight: todaysWeightNum,
+        note: t("quickLog.dailyNote"),
+        slot: multiWeighIn ? todaysSlot : undefined,
+        timezone: timeZone,
+      });
+      const newEntry = weightEntrySchema.parse(
+        multiWeighIn && todaysSlot === "other"
+          ? await apiCall("entries", { method: "POST", body })
+          : await apiCall(`entries/day/${today}`, {
+              method: "PUT",
+              body,
+            })
+      );
 
-      setWeightEntries([processed, ...weightEntries]);
+      setWeightEntries([
+        newEntry,
+        ...weightEntries.filter((e) => e.id !== newEntry.id),
+      ]);
       setTodaysWeight("");
 
-      toast.success("Today’s weight logged ✅");
+      toast.success(t("quickLog.saved"));
     } catch (err) {
       console.error(err);
-      toast.error("Failed to save today’s weight.");
+      toast.error(apiErrorMessage(err, i18n, { fallback: "quickLog.failed", unit }));
+    } finally {
+      setIsSavingToday(false);
     }
   };
 
   // ==================== OPEN EDIT MODAL ====================
   const openEditModal = (entry: WeightEntry) => {
     setSelectedEntry(entry);
-    setEditWeight(String(entry.weight));
+    setEditWeight(weightFieldValue(entry.weight, unit, locale));
     setEditNote(entry.note || "");
-    setEditDate(format(new Date(entry.date), "yyyy-MM-dd"));
+    setEditDate(entryDay(entry, timeZone));
+    setEditSlot(entry.slot ?? slotForHour(localHour(new Date(entry.date), timeZone)));
+    setHistoryOpen(false);
     setEditOpen(true);
   };
 
+  // ==================== REVERT (HISTORY PANEL) ====================
+  const handleReverted = (entry: WeightEntry) => {
+    setWeightEntries(
+      [...weightEntries.filter((e) => e.id !== entry.id), entry].sort(newestFirst)
+    );
+
+    // Keep the form in step with what is now stored
+    setSelectedEntry(entry);
+    setEditWeight(weightFieldValue(entry.weight, unit, locale));
+    setEditNote(entry.note || "");
+    setEditDate(entryDay(entry, timeZone));
+    setEditSlot(entry.slot ?? slotForHour(localHour(new Date(entry.date), timeZone)));
+  };
+
   // ==================== SAVE EDIT ====================
   const handleSaveEdit = async () => {
     if (!selectedEntry) return;
-    const newWeightNum = parseFloat(editWeight);
-    if (isNaN(newWeightNum)) return toast.error("Invalid weight.");
+    const { weight: newWeightNum, error } = parseWeightField(editWeight, unit, i18n);
+    if (error !== null) return toast.error(error);
+
+    // Prevent two entries on same date, or two morning / evening readings in multi
+    // weigh-in mode
+    const edit = {
+      weightField: editWeight,
+      weight: newWeightNum,
+      note: editNote,
+      day: editDate,
+      slot: editSlot,
+    };
+    const context = { unit, locale, timeZone, multiWeighIn };
+    if (findCollision(weightEntries, selectedEntry, edit, context)) {
+      return toast.error(t("edit.collision"));
+    }
 
     setIsSavingEdit(true);
 
     try {
-      // Prevent two entries on same date
-      const newDate = new Date(editDate);
-      const collision = weightEntries.find(
-        (e) => e.id !== selectedEntry.id && isSameDay(new Date(e.date), newDate)
-      );
-
-      if (collision) {
-        toast.error("You already have an entry on this date!");
-        setIsSavingEdit(false);
-        return;
-      }
-
-      // PATCH weight + note
+      // PATCH weight + note + date
       const updated = await apiCall("entries", {
         method: "PATCH",
-        body: JSON.stringify({
-          entryId: selectedEntry.id,
-          weight: newWeightNum,
-          note: editNote || null,
-          date: new Date(editDate).toISOString(), // ✅ SEND DATE TO DATABASE
-        }),
+        body: JSON.stringify(entryEditPayload(selectedEntry, edit, context)),
       });
 
-      // If date changed => update locally by overwriting date
-      const updatedEntry: WeightEntry = {
-        ...selectedEntry,
-        ...updated,
-        weight: safeToNumber(updated.weight),
-        note: editNote || null,
-        date: updated.date, // ✅ use DB response (source of truth)
+      // ✅ use DB response (source of truth), including the date
+      const updatedEntry = weightEntrySchema.parse(updated);
 
-      };
-
-      const newEntries = weightEntries
-        .map((e) => (e.id === selectedEntry.id ? updatedEntry : e))
-        .sort(
-          (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
-        );
+      // The entry may come from outside the loaded range (log-day calendar)
+      const newEntries = [
+        ...weightEntries.filter((e) => e.id !== selectedEntry.id),
+        updatedEntry,
+      ].sort(newestFirst);
 
       setWeightEntries(newEntries);
 
-      toast.success("Entry updated ✨");
+      toast.success(t("edit.saved"));
       setEditOpen(false);
     } catch (err) {
       console.error(err);
-      toast.error("Failed to update entry.");
+      toast.error(
+        apiErrorMessage(err, i18n, { fallback: "edit.failed", conflict: "edit.collision", unit })
+      );
     } finally {
       setIsSavingEdit(false);
     }
   };
 
+  // ==================== BACKDATED ENTRY ====================
+  const handleBackdatedCreated = (entry: WeightEntry) => {
+    setWeightEntries([...weightEntries, entry].sort(newestFirst));
+  };
+
+  // The calendar only holds entry summaries, editing needs the full row
+  const handleEditExisting = async (summary: WeightEntrySummary) => {
+    const loaded = weightEntries.find((e) => e.id === summary.id);
+    if (loaded) return openEditModal(loaded);
+
+    try {
+      const day = entryDay(summary, timeZone);
+      const entries = weightEntryListSchema.parse(
+        await fetchAllEntries(`from=${day}&to=${day}`)
+      );
+      const entry = entries.find((e) => e.id === summary.id);
+      if (entry) openEditModal(entry);
+    } catch (err) {
+      console.error(err);
+      toast.error(t("entries.loadFailed"));
+    }
+  };
+
   // ==================== DELETE ENTRY ====================
+  const handleRestored = (entry: WeightEntry) => {
+    setWeightEntries((current) =>
+      [...current.filter((e) => e.id !== entry.id), entry].sort(newestFirst)
+    );
+  };
+
+  const handleUndoDelete = async (entryId: number) => {
+    try {
+      const restored = await apiCall("entries/trash", {
+        method: "POST",
+        body: JSON.stringify({ entryId }),
+      });
+
+      handleRestored(weightEntrySchema.parse(restored));
+      toast.success(t("entries.restored"));
+    } catch (err) {
+      console.error(err);
+      toast.error(
+        apiErrorMessage(err, i18n, {
+          fallback: "entries.undoFailed",
+          conflict: "entries.collision",
+        })
+      );
+    }
+  };
+
   const handleDeleteEntry = async () => {
     if (!selectedEntry) return;
     setIsDeleting(true);
 
     try {
+      // Soft delete, the entry waits in the trash
       await apiCall(`entries?id=${selectedEntry.id}`, {
         method: "DELETE",
       });
 
-      setWeightEntries(weightEntries.filter((e) => e.id !== selectedEntry.id));
-      toast.success("Entry deleted 🗑️");
+      const entryId = selectedEntry.id;
+      setWeightEntries(weightEntries.filter((e) => e.id !== entryId));
+      toast.success(t("entries.trashed"), {
+        action: {
+          label: t("common.undo"),
+          onClick: () => handleUndoDelete(entryId),
+        },
+      });
 
       setDeleteConfirmOpen(false);
       setEditOpen(false);
     } catch (err) {
       console.error(err);
-      toast.error("Delete failed.");
+      toast.error(t("common.deleteFailed"));
     } finally {
       setIsDeleting(false);
     }
@@ -641,27 +1036,46 @@ export default function WeightWiseTracker() {
   const handleResetAll = async () => {
     if (!userProfile) return;
 
-    toast("Reset everything?", {
-      description: "Deletes all your data from the cloud.",
+    toast(t("reset.confirm"), {
+      description: t("reset.description"),
       action: {
-        label: "Reset",
+        label: t("header.reset"),
         onClick: async () => {
           try {
-            await apiCall(`user?id=${userProfile.id}`, { method: "DELETE" });
-            localStorage.removeItem("weightApp_userId");
+            // Purged right away, so the same email can sign up again from scratch
+            await apiCall("user?purge=true", { method: "DELETE" });
             setUserProfile(null);
             setWeightEntries([]);
-            setCurrentUserId(null);
-            setHasLoadedFromStorage(true);
-            toast.success("Account reset successfully.");
+            setStats(null);
+            setCalendar(null);
+            setGoalPhases([]);
+            setAuthMode("register");
+            toast.success(t("reset.done"), {
+              description: t("reset.doneDescription"),
+            });
           } catch {
-            toast.error("Reset failed.");
+            toast.error(t("reset.failed"));
           }
         },
       },
     });
   };
 
+  // ==================== SIGN OUT ====================
+  const handleLogout = async () => {
+    try {
+      await apiCall("auth/logout", { method: "POST" });
+      setUserProfile(null);
+      setWeightEntries([]);
+      setStats(null);
+      setCalendar(null);
+      setGoalPhases([]);
+      setAuthMode("login");
+    } catch {
+      toast.error(t("header.signOutFailed"));
+    }
+  };
+
   // ==================== LOADING ====================
   if (isLoading) {
     return (
@@ -686,17 +1100,108 @@ export default function WeightWiseTracker() {
           <h1 className="text-4xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-purple-400 via-blue-400 to-pink-400">
             WeightWise Pro
           </h1>
-          <p className="text-gray-400 mt-2">Launching your dashboard…</p>
+          <p className="text-gray-400 mt-2">{t("app.launching")}</p>
           <div className="mt-7 h-1 w-52 bg-gradient-to-r from-purple-500 to-blue-500 rounded-full mx-auto animate-pulse" />
         </div>
       </div>
     );
   }
 
+  // ==================== SIGN IN SCREEN ====================
+  if (!userProfile && authMode === "login") {
+    return (
+      <div className="relative min-h-screen flex items-center justify-center px-6 py-10">
+        <LocaleSwitcher className="absolute top-6 end-6" />
+        <Card className="w-full max-w-md border-white/10 bg-white/[0.04] backdrop-blur-xl shadow-2xl">
+          <CardHeader className="text-center space-y-4">
+            <div className="inline-flex justify-center">
+              <div className="p-4 rounded-3xl bg-gradient-to-r from-purple-500/20 to-blue-500/20 border border-white/10 shadow-xl">
+                <Lock className="w-10 h-10 text-purple-300" />
+              </div>
+            </div>
+
+            <CardTitle className="text-4xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-purple-400 via-blue-400 to-pink-400">
+              {t("login.title")}
+            </CardTitle>
+
+            <CardDescription className="text-gray-300">
+              {t("login.subtitle")}
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent className="pt-2">
+            <form onSubmit={handleLoginSubmit} className="space-y-5">
+              <div>
+                <Label className="text-gray-200 flex items-center gap-2 mb-2">
+                  <Mail className="w-4 h-4 text-gray-300" />
+                  {t("auth.email")}
+                </Label>
+                <Input
+                  type="email"
+                  autoComplete="email"
+                  value={setupEmail}
+                  onChange={(e) => setSetupEmail(e.target.value)}
+                  placeholder="you@example.com"
+                  className="h-14 text-lg bg-white/5 border-white/10"
+                  required
+                />
+              </div>
+
+              <div>
+                <Label className="text-gray-200 flex items-center gap-2 mb-2">
+                  <Lock className="w-4 h-4 text-gray-300" />
+                  {t("auth.password")}
+                </Label>
+                <Input
+                  type="password"
+                  autoComplete="current-password"
+                  value={setupPassword}
+                  onChange={(e) => setSetupPassword(e.target.value)}
+                  className="h-14 text-lg bg-white/5 border-white/10"
+                  required
+                />
+              </div>
+
+              <Button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full h-14 text-lg font-semibold bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 shadow-xl"
+              >
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="me-2 h-5 w-5 animate-spin" />
+                    {t("login.submitting")}
+                  </>
+                ) : (
+                  <>
+                    {t("auth.signIn")}
+                    <ArrowRight className="ms-2 h-5 w-5 rtl:rotate-180" />
+                  </>
+                )}
+              </Button>
+
+              <p className="text-center text-sm text-gray-400">
+                {t("login.newHere")}{" "}
+                <button
+                  type="button"
+                  onClick={() => setAuthMode("register")}
+                  className="text-purple-300 hover:text-purple-200 font-medium"
+                >
+                  {t("login.createAccount")}
+                </button>
+              </p>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   // ==================== SETUP SCREEN ====================
   if (!userProfile) {
     return (
-      <div className="min-h-screen flex items-center justify-center px-6 py-10">
+      <div className="relative min-h-screen flex items-center justify-center px-6 py-10">
+        <LocaleSwitcher className="absolute top-6 end-6" />
         <Card className="w-full max-w-4xl border-white/10 bg-white/[0.04] backdrop-blur-xl shadow-2xl">
           <CardHeader className="text-center space-y-4">
             <motion.div
@@ -711,25 +1216,25 @@ export default function WeightWiseTracker() {
             </motion.div>
 
             <CardTitle className="text-5xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-purple-400 via-blue-400 to-pink-400">
-              Start your journey
+              {t("setup.title")}
             </CardTitle>
 
             <CardDescription className="text-gray-300 text-lg">
-              Your progress is safely stored and synced in the cloud.
+              {t("setup.subtitle")}
             </CardDescription>
 
             <div className="flex justify-center gap-2">
               <Badge className="bg-white/5 border-white/10 text-gray-200">
-                <Sparkles className="w-4 h-4 mr-2" />
-                Premium UI
+                <Sparkles className="w-4 h-4 me-2" />
+                {t("setup.badgePremium")}
               </Badge>
               <Badge className="bg-white/5 border-white/10 text-gray-200">
-                <ShieldCheck className="w-4 h-4 mr-2" />
-                Cloud Backup
+                <ShieldCheck className="w-4 h-4 me-2" />
+                {t("setup.badgeBackup")}
               </Badge>
               <Badge className="bg-white/5 border-white/10 text-gray-200">
-                <Clock className="w-4 h-4 mr-2" />
-                Daily Habit
+                <Clock className="w-4 h-4 me-2" />
+                {t("setup.badgeHabit")}
               </Badge>
             </div>
           </CardHeader>
@@ -738,58 +1243,126 @@ export default function WeightWiseTracker() {
             <form onSubmit={handleSetupSubmit} className="space-y-10">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
                 <div className="space-y-5">
+                  <div>
+                    <Label className="text-gray-200 flex items-center gap-2 mb-2">
+                      <Mail className="w-4 h-4 text-gray-300" />
+                      {t("auth.email")}
+                    </Label>
+                    <Input
+                      type="email"
+                      autoComplete="email"
+                      value={setupEmail}
+                      onChange={(e) => setSetupEmail(e.target.value)}
+                      placeholder="you@example.com"
+                      className="h-14 text-lg bg-white/5 border-white/10"
+                      required
+                    />
+                  </div>
+
+                  <div>
+                    <Label className="text-gray-200 flex items-center gap-2 mb-2">
+                      <Lock className="w-4 h-4 text-gray-300" />
+                      {t("auth.password")}
+                    </Label>
+                    <Input
+                      type="password"
+                      autoComplete="new-password"
+                      minLength={8}
+                      value={setupPassword}
+                      onChange={(e) => setSetupPassword(e.target.value)}
+                      placeholder={t("auth.passwordHint")}
+                      className="h-14 text-lg bg-white/5 border-white/10"
+                      required
+                    />
+                  </div>
+
                   <div>
                     <Label className="text-gray-200 flex items-center gap-2 mb-2">
                       <User className="w-4 h-4 text-gray-300" />
-                      Name
+                      {t("setup.name")}
                     </Label>
                     <Input
                       value={setupName}
                       onChange={(e) => setSetupName(e.target.value)}
-                      placeholder="e.g. Houssem"
+                      placeholder={t("setup.namePlaceholder")}
                       className="h-14 text-lg bg-white/5 border-white/10"
                       required
                     />
                   </div>
+                </div>
+
+                <div className="space-y-5">
+                  <div>
+                    <Label className="text-gray-200 mb-2 block">{t("setup.units")}</Label>
+                    <Select
+                      value={setupUnit}
+                      dir={dir}
+                      onValueChange={(value) => {
+                        // Typed numbers were meant in the old unit
+                        setSetupUnit(value as WeightUnit);
+                        setSetupCurrentWeight("");
+                        setSetupGoalWeight("");
+                      }}
+                    >
+                      <SelectTrigger className="w-full !h-14 text-lg bg-white/5 border-white/10">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WEIGHT_UNITS.map((value) => (
+                          <SelectItem key={value} value={value}>
+                            {t(`unit.${value}`)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
 
                   <div>
                     <Label className="text-gray-200 flex items-center gap-2 mb-2">
                       <Scale className="w-4 h-4 text-gray-300" />
-                      Current Weight
+                      {t("setup.currentWeight")}
                     </Label>
-                    <Input
-                      type="number"
-                      step="0.1"
+                    <WeightInput
+                      unit={setupUnit}
                       value={setupCurrentWeight}
-                      onChange={(e) => setSetupCurrentWeight(e.target.value)}
-                      placeholder="e.g. 75.5"
+                      onChange={setSetupCurrentWeight}
+                      placeholder={t("setup.example", {
+                        value: formatNumber(
+                          SETUP_EXAMPLES[setupUnit][0],
+                          setupUnit === "st" ? 0 : 1,
+                          locale
+                        ),
+                      })}
                       className="h-14 text-lg bg-white/5 border-white/10"
                       required
                     />
                   </div>
-                </div>
 
-                <div className="space-y-5">
                   <div>
                     <Label className="text-gray-200 flex items-center gap-2 mb-2">
                       <Target className="w-4 h-4 text-gray-300" />
-                      Goal Weight (optional)
+                      {t("setup.goalWeight")}
                     </Label>
-                    <Input
-                      type="number"
-                      step="0.1"
+                    <WeightInput
+                      unit={setupUnit}
                       value={setupGoalWeight}
-                      onChange={(e) => setSetupGoalWeight(e.target.value)}
-                      placeholder="e.g. 70.0"
+                      onChange={setSetupGoalWeight}
+                      placeholder={t("setup.example", {
+                        value: formatNumber(
+                          SETUP_EXAMPLES[setupUnit][1],
+                          setupUnit === "st" ? 0 : 1,
+                          locale
+                        ),
+                      })}
                       className="h-14 text-lg bg-white/5 border-white/10"
                     />
                   </div>
 
                   <div>
                     <Label className="text-gray-200 mb-2 block">
-                      Timeline{" "}
+                      {t("setup.timeline")}{" "}
                       <span className="text-purple-300 font-semibold">
-                        ({setupTargetWeeks} weeks)
+                        ({t("setup.weeks", { count: setupTargetWeeks })})
                       </span>
                     </Label>
                     <div className="rounded-2xl bg-white/5 border border-white/10 px-5 py-5">
@@ -799,10 +1372,11 @@ export default function WeightWiseTracker() {
                         min={4}
                         max={52}
                         step={1}
+                        dir={dir}
                       />
                       <div className="flex justify-between text-xs text-gray-400 mt-3">
-                        <span>4 weeks</span>
-                        <span>52 weeks</span>
+                        <span>{t("setup.weeks", { count: 4 })}</span>
+                        <span>{t("setup.weeks", { count: 52 })}</span>
                       </div>
                     </div>
                   </div>
@@ -820,17 +1394,28 @@ export default function WeightWiseTracker() {
                 >
                   {isSubmitting ? (
                     <>
-                      <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-                      Creating profile…
+                      <Loader2 className="me-2 h-5 w-5 animate-spin" />
+                      {t("setup.submitting")}
                     </>
                   ) : (
                     <>
-                      Launch Dashboard
-                      <ArrowRight className="ml-2 h-5 w-5" />
+                      {t("setup.submit")}
+                      <ArrowRight className="ms-2 h-5 w-5 rtl:rotate-180" />
                     </>
                   )}
                 </Button>
               </motion.div>
+
+              <p className="text-center text-sm text-gray-400">
+                {t("setup.haveAccount")}{" "}
+                <button
+                  type="button"
+                  onClick={() => setAuthMode("login")}
+                  className="text-purple-300 hover:text-purple-200 font-medium"
+                >
+                  {t("auth.signIn")}
+                </button>
+              </p>
             </form>
           </CardContent>
         </Card>
@@ -851,18 +1436,38 @@ export default function WeightWiseTracker() {
               </div>
               <div>
                 <p className="font-semibold text-white">WeightWise Pro</p>
-                <p className="text-xs text-gray-400">Modern Weight Tracker</p>
+                <p className="text-xs text-gray-400">{t("app.tagline")}</p>
               </div>
             </div>
 
             <div className="flex items-center gap-3">
+              <LocaleSwitcher />
+
+              <Button
+                variant="outline"
+                onClick={() => setSettingsOpen(true)}
+                className="border-white/10 bg-white/5 hover:bg-white/10 text-gray-200"
+              >
+                <Settings className="me-2 h-4 w-4" />
+                {t("header.settings")}
+              </Button>
+
               <Button
                 variant="outline"
                 onClick={handleResetAll}
                 className="border-white/10 bg-white/5 hover:bg-white/10 text-gray-200"
               >
-                <RotateCw className="mr-2 h-4 w-4" />
-                Reset
+                <RotateCw className="me-2 h-4 w-4" />
+                {t("header.reset")}
+              </Button>
+
+              <Button
+                variant="outline"
+                onClick={handleLogout}
+                className="border-white/10 bg-white/5 hover:bg-white/10 text-gray-200"
+              >
+                <LogOut className="me-2 h-4 w-4 rtl:rotate-180" />
+                {t("header.signOut")}
               </Button>
 
               <div className="flex items-center gap-3 px-4 py-2 rounded-2xl bg-white/5 border border-white/10">
@@ -876,10 +1481,7 @@ export default function WeightWiseTracker() {
                     {userProfile.name}
                   </p>
                   <p className="text-xs text-gray-400">
-                    {stats?.currentWeight
-                      ? safeToFixed(stats.currentWeight, 1)
-                      : "0.0"}{" "}
-                    kg
+                    {formatWeight(stats?.currentWeight, unit, 1, locale)}
                   </p>
                 </div>
               </div>
@@ -893,36 +1495,80 @@ export default function WeightWiseTracker() {
           <div className="flex flex-col lg:flex-row justify-between gap-6 mb-8">
             <div>
               <h1 className="text-4xl font-bold text-white">
-                Welcome back,{" "}
+                {t("dashboard.welcome")}{" "}
                 <span className="bg-clip-text text-transparent bg-gradient-to-r from-purple-400 via-blue-400 to-pink-400">
                   {userProfile.name}
                 </span>
               </h1>
               <p className="text-gray-400 mt-2">
-                {format(new Date(), "EEEE, MMMM d, yyyy")}
+                {formatDate(today, "long")}
               </p>
             </div>
 
             <div className="flex flex-wrap items-center gap-2">
               <Badge className="bg-white/5 border-white/10 text-gray-200">
-                <Flame className="w-4 h-4 mr-2 text-orange-400" />
-                {stats?.streak || 1} day streak
+                <Flame className="w-4 h-4 me-2 text-orange-400" />
+                {t("dashboard.streak", { count: stats?.streak ?? 0 })}
               </Badge>
 
-              {stats?.totalChange !== undefined && (
+              {stats?.trendChange != null && (
                 <Badge className="bg-white/5 border-white/10 text-gray-200">
-                  {stats.totalChange < 0 ? (
-                    <TrendingDown className="w-4 h-4 mr-2 text-green-400" />
+                  {stats.trendChange < 0 ? (
+                    <TrendingDown className={`w-4 h-4 me-2 ${trendColor}`} />
                   ) : (
-                    <TrendingUp className="w-4 h-4 mr-2 text-red-400" />
+                    <TrendingUp className={`w-4 h-4 me-2 ${trendColor}`} />
                   )}
-                  {stats.totalChange < 0 ? "Down" : "Up"}{" "}
-                  {safeToFixed(Math.abs(stats.totalChange), 1)}kg
+                  {t(stats.trendChange < 0 ? "dashboard.down" : "dashboard.up", {
+                    amount: formatWeightChange(Math.abs(stats.trendChange), unit, 1, locale),
+                  })}
                 </Badge>
               )}
             </div>
           </div>
 
+          {/* Weigh-in reminder */}
+          {showReminder && (
+            <motion.div
+              initial={{ opacity: 0, y: 12 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.4 }}
+              role="status"
+              className="mb-6 flex flex-col sm:flex-row sm:items-center gap-4 px-5 py-4 rounded-2xl border border-amber-400/20 bg-amber-500/10 backdrop-blur-xl"
+            >
+              <div className="flex items-start gap-3 flex-1">
+                <Bell className="w-5 h-5 mt-0.5 text-amber-300 shrink-0" />
+                <div>
+                  <p className="text-sm font-medium text-white">{t("reminder.title")}</p>
+                  <p className="text-xs text-gray-300 mt-0.5">
+                    {stats?.streak
+                      ? t("reminder.keepStreak", { count: stats.streak })
+                      : t("reminder.message")}
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => inputRef.current?.focus()}
+                  className="bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 rounded-xl"
+                >
+                  <Zap className="w-4 h-4 me-2" />
+                  {t("reminder.logNow")}
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => setReminderDismissedOn(today)}
+                  aria-label={t("reminder.dismiss")}
+                  className="h-8 w-8 text-gray-300 hover:bg-white/10"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            </motion.div>
+          )}
+
           {/* ✅ Motivation Card */}
           {motivation && (
             <motion.div
@@ -958,8 +1604,8 @@ export default function WeightWiseTracker() {
                     onClick={refreshMotivation}
                     className="border-white/10 bg-white/5 hover:bg-white/10 text-gray-200 rounded-xl"
                   >
-                    <RotateCw className="w-4 h-4 mr-2" />
-                    Refresh
+                    <RotateCw className="w-4 h-4 me-2" />
+                    {t("dashboard.refresh")}
                   </Button>
                 </CardContent>
               </Card>
@@ -967,23 +1613,37 @@ export default function WeightWiseTracker() {
           )}
 
           {/* Range buttons */}
-          <div className="flex items-center gap-2 mb-6">
-            {(["7d", "30d", "all"] as const).map((r) => (
+          <div className="flex flex-wrap items-center gap-2 mb-6">
+            {CHART_RANGE_PRESETS.map((r) => (
               <Button
                 key={r}
                 variant="outline"
-                onClick={() => setRange(r)}
+                onClick={() => handleRangeChange(r)}
                 className={`border-white/10 bg-white/5 hover:bg-white/10 text-gray-200 rounded-xl ${
                   range === r ? "ring-2 ring-purple-500/40" : ""
                 }`}
               >
-                {r === "7d"
-                  ? "Last 7 days"
-                  : r === "30d"
-                    ? "Last 30 days"
-                    : "All"}
+                {t(`range.${r}`)}
               </Button>
             ))}
+            <Button
+              variant="outline"
+              onClick={() => setRangeOpen(true)}
+              className={`border-white/10 bg-white/5 hover:bg-white/10 text-gray-200 rounded-xl ${
+                isCustomRange(range) ? "ring-2 ring-purple-500/40" : ""
+              }`}
+            >
+              <CalendarRange className="me-2 h-4 w-4" />
+              {isCustomRange(range)
+                ? t("range.span", {
+                    from: formatDate(rangeBounds(range, today).from!, "short"),
+                    to: formatDate(rangeBounds(range, today).to!, "short"),
+                  })
+                : t("range.custom")}
+            </Button>
+            {isLoadingHistory && (
+              <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+            )}
           </div>
 
           {/* Grid */}
@@ -994,28 +1654,34 @@ export default function WeightWiseTracker() {
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                 {[
                   {
-                    label: "Current",
-                    value: `${stats?.currentWeight ? safeToFixed(stats.currentWeight, 1) : "0.0"} kg`,
+                    key: "current",
+                    label: t("stats.current"),
+                    value: formatWeight(stats?.currentWeight, unit, 1, locale),
                     icon: <Scale className="h-5 w-5" />,
                   },
                   {
-                    label: "Total Change",
-                    value: `${stats?.totalChange !== undefined ? safeToFixed(stats.totalChange, 1) : "0.0"} kg`,
+                    key: "totalChange",
+                    label: t("stats.totalChange"),
+                    value: formatWeightChange(stats?.totalChange, unit, 1, locale),
                     icon: <Activity className="h-5 w-5" />,
                   },
                   {
-                    label: "Weekly Avg",
-                    value: `${stats?.weeklyAvg !== undefined ? safeToFixed(stats.weeklyAvg, 2) : "0.00"} kg`,
+                    key: "weeklyAvg",
+                    label: t("stats.weeklyAvg"),
+                    value: formatWeightChange(stats?.weeklyAvg, unit, 2, locale),
                     icon: <TrendingUp className="h-5 w-5" />,
                   },
                   {
-                    label: "Goal",
-                    value: `${stats?.goalProgress !== undefined ? safeToFixed(stats.goalProgress, 0) : "0"}%`,
+                    key: "goal",
+                    label: t("stats.goal"),
+                    value: ((stats?.goalProgress ?? 0) / 100).toLocaleString(locale, {
+                      style: "percent",
+                    }),
                     icon: <Trophy className="h-5 w-5" />,
                   },
                 ].map((item, i) => (
                   <motion.div
-                    key={item.label}
+                    key={item.key}
                     initial={{ opacity: 0, y: 12 }}
                     animate={{ opacity: 1, y: 0 }}
                     transition={{ delay: 0.1 * i }}
@@ -1031,7 +1697,7 @@ export default function WeightWiseTracker() {
                         <p className="text-2xl font-bold text-white mt-4">
                           {item.value}
                         </p>
-                        {item.label === "Goal" && (
+                        {item.key === "goal" && (
                           <div className="mt-3">
                             <Progress
                               value={stats?.goalProgress || 0}
@@ -1052,44 +1718,57 @@ export default function WeightWiseTracker() {
                     <div className="p-2 rounded-xl bg-white/5 border border-white/10">
                       <Plus className="h-5 w-5 text-purple-300" />
                     </div>
-                    Quick Log Today
+                    {t("quickLog.title")}
                   </CardTitle>
                   <CardDescription className="text-gray-400">
-                    If today already exists, clicking Save will open edit mode.
+                    {multiWeighIn ? t("quickLog.hintMulti") : t("quickLog.hint")}
                   </CardDescription>
                 </CardHeader>
 
                 <CardContent>
                   <form onSubmit={handleSaveToday} className="space-y-4">
+                    {multiWeighIn && (
+                      <SlotPicker value={todaysSlot} onChange={setTodaysSlot} />
+                    )}
+
                     <div className="flex flex-col md:flex-row gap-4">
-                      <div className="flex-1 relative">
-                        <Input
+                      <div className="flex-1">
+                        <WeightInput
                           ref={inputRef}
-                          type="number"
-                          step="0.1"
+                          unit={unit}
                           value={todaysWeight}
-                          onChange={(e) => setTodaysWeight(e.target.value)}
+                          onChange={setTodaysWeight}
                           placeholder={
-                            entryToday
-                              ? `Today logged: ${safeToFixed(entryToday.weight, 1)}kg (edit)`
-                              : "Enter today’s weight"
+                            existingToday
+                              ? t("quickLog.loggedPlaceholder", {
+                                  weight: formatWeight(existingToday.weight, unit, 1, locale),
+                                })
+                              : t("quickLog.placeholder")
                           }
                           className="h-16 text-2xl text-center bg-white/5 border-white/10 backdrop-blur-xl"
                           required
                         />
-                        <span className="absolute right-4 top-1/2 -translate-y-1/2 text-gray-400 text-sm">
-                          kg
-                        </span>
                       </div>
 
                       <Button
                         type="submit"
+                        disabled={isSavingToday}
                         className="h-16 px-8 text-lg bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 border-0 shadow-xl"
                       >
-                        <Zap className="mr-2 h-5 w-5" />
-                        Save
+                        <Zap className="me-2 h-5 w-5" />
+                        {t("common.save")}
                       </Button>
                     </div>
+
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      onClick={() => setLogDayOpen(true)}
+                      className="text-gray-300 hover:text-white hover:bg-white/5 rounded-xl"
+                    >
+                      <CalendarPlus className="me-2 h-4 w-4" />
+                      {t("quickLog.anotherDay")}
+                    </Button>
                   </form>
                 </CardContent>
               </Card>
@@ -1101,10 +1780,10 @@ export default function WeightWiseTracker() {
                     <div className="p-2 rounded-xl bg-white/5 border border-white/10">
                       <BarChart3 className="h-5 w-5 text-blue-300" />
                     </div>
-                    Weight Trend
+                    {t("chart.title")}
                   </CardTitle>
                   <CardDescription className="text-gray-400">
-                    Smooth trend curve with goal reference line.
+                    {t("chart.description")}
                   </CardDescription>
                 </CardHeader>
 
@@ -1141,29 +1820,40 @@ export default function WeightWiseTracker() {
                             strokeDasharray="3 3"
                             stroke="#ffffff12"
                           />
+                          {/* Right to left, time runs the other way and the scale sits on the right */}
                           <XAxis
-                            dataKey="displayDate"
+                            dataKey="day"
+                            tickFormatter={axisDate}
                             stroke="#9ca3af"
                             tickLine={false}
                             axisLine={false}
+                            reversed={dir === "rtl"}
                           />
                           <YAxis
                             stroke="#9ca3af"
                             tickLine={false}
                             axisLine={false}
+                            orientation={dir === "rtl" ? "right" : "left"}
+                            width={unit === "st" ? 88 : 60}
+                            tickFormatter={(value: number) =>
+                              formatAxisWeight(value, unit, locale)
+                            }
+                            unit={unit === "st" ? undefined : ` ${unit}`}
                           />
-                          <Tooltip content={<ModernTooltip />} />
+                          <Tooltip content={<ModernTooltip unit={unit} />} />
 
-                          {userProfile.goal_weight && (
+                          {goalPhases.length === 0 && userProfile.goal_weight && (
                             <ReferenceLine
-                              y={userProfile.goal_weight}
+                              y={toUnit(userProfile.goal_weight, unit)}
                               stroke="#22c55e"
                               strokeDasharray="6 6"
                               strokeWidth={2}
                               label={{
-                                value: `Goal ${safeToFixed(userProfile.goal_weight, 1)}kg`,
+                                value: t("chart.goal", {
+                                  weight: formatWeight(userProfile.goal_weight, unit, 1, locale),
+                                }),
                                 fill: "#22c55e",
-                                position: "insideTopLeft",
+                                position: dir === "rtl" ? "insideTopRight" : "insideTopLeft",
                               }}
                             />
                           )}
@@ -1172,11 +1862,87 @@ export default function WeightWiseTracker() {
                             type="monotone"
                             dataKey="weight"
                             stroke="#8b5cf6"
-                            strokeWidth={3}
+                            strokeOpacity={0.35}
+                            strokeWidth={1}
                             fill="url(#weightFill)"
-                            dot={{ r: 3 }}
+                            dot={{ r: 3, fillOpacity: 0.6 }}
                             activeDot={{ r: 6 }}
                           />
+
+                          <Area
+                            type="monotone"
+                            dataKey="trend"
+                            stroke="#c4b5fd"
+                            strokeWidth={3}
+                            fill="none"
+                            dot={false}
+                            activeDot={false}
+                          />
+
+                          {stats?.forecast && (
+                            <>
+                              <Area
+                                type="monotone"
+                                dataKey="band"
+                                stroke="none"
+                                fill="#8b5cf6"
+                                fillOpacity={0.12}
+                                dot={false}
+                                activeDot={false}
+                                isAnimationActive={false}
+                              />
+                              <Area
+                                type="monotone"
+                                dataKey="projection"
+                                stroke="#a78bfa"
+                                strokeWidth={2}
+                                strokeDasharray="4 4"
+                                fill="none"
+                                dot={false}
+                                activeDot={false}
+                                isAnimationActive={false}
+                              />
+                            </>
+                          )}
+
+                          {targetDay &&
+                            chartData.some((d) => d.day === targetDay) && (
+                              <ReferenceLine
+                                x={targetDay}
+                                stroke="#22c55e"
+                                strokeDasharray="2 4"
+                                label={{
+                                  value: t("chart.target"),
+                                  fill: "#22c55e",
+                                  position: dir === "rtl" ? "insideTopLeft" : "insideTopRight",
+                                }}
+                              />
+                            )}
+
+                          {goalPhases.length > 0 && (
+                            <Area
+                              type="stepAfter"
+                              dataKey="goal"
+                              stroke="#22c55e"
+                              strokeDasharray="6 6"
+                              strokeWidth={2}
+                              fill="none"
+                              dot={false}
+                              activeDot={false}
+                              connectNulls={false}
+                            />
+                          )}
+
+                          {/* Drag either handle to zoom in, the range buttons reset it */}
+                          <Brush
+                            key={range}
+                            dataKey="day"
+                            tickFormatter={axisDate}
+                            height={28}
+                            travellerWidth={10}
+                            stroke="#8b5cf6"
+                            fill="#ffffff08"
+                          />
                         </AreaChart>
                       </ResponsiveContainer>
                     </div>
@@ -1185,16 +1951,25 @@ export default function WeightWiseTracker() {
                       <div className="w-20 h-20 rounded-3xl bg-white/5 border border-white/10 flex items-center justify-center mb-6">
                         <BarChart3 className="w-10 h-10 text-gray-400" />
                       </div>
-                      <p className="text-lg text-gray-300">
-                        Add one more entry to see the trend.
-                      </p>
+                      <p className="text-lg text-gray-300">{t("chart.emptyTitle")}</p>
                       <p className="text-sm text-gray-500 mt-1">
-                        You need at least 2 data points.
+                        {t("chart.emptyHint")}
                       </p>
                     </div>
                   )}
                 </CardContent>
               </Card>
+
+              {/* Consistency */}
+              <ConsistencyCalendar
+                calendar={calendar}
+                year={calendarYear}
+                onYearChange={setCalendarYear}
+                goalDirection={goalDirection}
+                tolerance={userProfile.goal_tolerance}
+                unit={unit}
+                weighInDays={userProfile.weigh_in_days}
+              />
             </div>
 
             {/* RIGHT */}
@@ -1206,10 +1981,19 @@ export default function WeightWiseTracker() {
                     <div className="p-2 rounded-xl bg-white/5 border border-white/10">
                       <User className="h-5 w-5 text-cyan-300" />
                     </div>
-                    Profile
+                    {t("profile.title")}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setSettingsOpen(true)}
+                      className="ms-auto text-gray-400 hover:text-white hover:bg-white/5 rounded-xl"
+                    >
+                      <Pencil className="h-4 w-4 me-1" />
+                      {t("common.edit")}
+                    </Button>
                   </CardTitle>
                   <CardDescription className="text-gray-400">
-                    Personal stats and plan.
+                    {t("profile.description")}
                   </CardDescription>
                 </CardHeader>
 
@@ -1225,50 +2009,154 @@ export default function WeightWiseTracker() {
                         {userProfile.name}
                       </p>
                       <p className="text-sm text-gray-400">
-                        Since{" "}
-                        {format(
-                          parseISO(userProfile.start_date),
-                          "MMM d, yyyy"
-                        )}
+                        {t("profile.since", {
+                          date: formatDate(userProfile.start_date, "medium"),
+                        })}
                       </p>
                     </div>
                   </div>
 
                   <div className="space-y-3">
                     <div className="flex justify-between items-center px-4 py-3 rounded-2xl bg-white/5 border border-white/10">
-                      <span className="text-sm text-gray-400">Start</span>
+                      <span className="text-sm text-gray-400">{t("profile.start")}</span>
                       <span className="font-semibold text-white">
-                        {safeToFixed(userProfile.start_weight, 1)} kg
+                        {formatWeight(userProfile.start_weight, unit, 1, locale)}
                       </span>
                     </div>
 
                     {userProfile.goal_weight && (
-                      <div className="flex justify-between items-center px-4 py-3 rounded-2xl bg-white/5 border border-white/10">
-                        <span className="text-sm text-gray-400">Goal</span>
-                        <span className="font-semibold text-green-400">
-                          {safeToFixed(userProfile.goal_weight, 1)} kg
-                        </span>
+                      <div className="px-4 py-3 rounded-2xl bg-white/5 border border-white/10 space-y-1">
+                        <div className="flex justify-between items-center">
+                          <span className="text-sm text-gray-400">
+                            {t("profile.goal")}
+                            {goalDirection && ` · ${t(`direction.${goalDirection}`)}`}
+                          </span>
+                          <span className="font-semibold text-green-400">
+                            {formatWeight(userProfile.goal_weight, unit, 1, locale)}
+                            {userProfile.goal_tolerance > 0 &&
+                              ` ± ${formatWeightChange(userProfile.goal_tolerance, unit, 1, locale)}`}
+                          </span>
+                        </div>
+                        {stats?.goalRemaining != null && (
+                          <p className="text-xs text-gray-400">
+                            {stats.goalReached
+                              ? goalDirection === "maintain"
+                                ? t("profile.holding")
+                                : t("profile.goalReached")
+                              : t(
+                                  goalDirection === "maintain"
+                                    ? "profile.outsideBand"
+                                    : "profile.toGo",
+                                  {
+                                    amount: formatWeightChange(
+                                      stats.goalRemaining,
+                                      unit,
+                                      1,
+                                      locale
+                                    ),
+                                  }
+                                )}
+                          </p>
+                        )}
                       </div>
                     )}
 
                     {userProfile.target_date && (
                       <div className="flex justify-between items-center px-4 py-3 rounded-2xl bg-white/5 border border-white/10">
                         <span className="text-sm text-gray-400">
-                          Target Date
+                          {t("profile.targetDate")}
                         </span>
                         <span className="font-semibold text-white">
-                          {format(
-                            parseISO(userProfile.target_date),
-                            "MMM d, yyyy"
-                          )}
+                          {formatDate(userProfile.target_date, "medium")}
                         </span>
                       </div>
                     )}
 
+                    {forecast && (
+                      <div className="px-4 py-3 rounded-2xl bg-white/5 border border-white/10 space-y-1">
+                        <div className="flex justify-between items-center">
+                          <span className="text-sm text-gray-400">{t("forecast.title")}</span>
+                          <span
+                            className={`font-semibold ${
+                              !forecast.goalDate
+                                ? "text-red-400"
+                                : (forecast.daysBehind ?? 0) > 0
+                                  ? "text-amber-400"
+                                  : "text-green-400"
+                            }`}
+                          >
+                            {!forecast.goalDate
+                              ? t("forecast.offTrack")
+                              : forecast.daysBehind === null
+                                ? formatDate(forecast.goalDate, "medium")
+                                : forecast.daysBehind > 0
+                                  ? t("forecast.daysBehind", { count: forecast.daysBehind })
+                                  : t("forecast.onTrack")}
+                          </span>
+                        </div>
+                        <p className="text-xs text-gray-400">
+                          {forecast.goalDate
+                            ? t("forecast.range", {
+                                date: formatDate(forecast.goalDate, "short"),
+                                earliest: forecast.goalDateEarliest
+                                  ? formatDate(forecast.goalDateEarliest, "short")
+                                  : t("forecast.sooner"),
+                                latest: forecast.goalDateLatest
+                                  ? formatDate(forecast.goalDateLatest, "short")
+                                  : t("forecast.later"),
+                              })
+                            : t("forecast.notHeading")}
+                        </p>
+                      </div>
+                    )}
+
+                    {stats?.phase && (
+                      <div className="px-4 py-3 rounded-2xl bg-white/5 border border-white/10 space-y-2">
+                        <div className="flex justify-between items-center">
+                          <span className="text-sm text-gray-400">
+                            {t("phase.title", {
+                              phase: t(`direction.${stats.phase.phase}`),
+                            })}
+                          </span>
+                          <span
+                            className={`font-semibold ${stats.phase.onTarget ? "text-green-400" : "text-white"}`}
+                          >
+                            {formatWeight(stats.phase.targetWeight, unit, 1, locale)}
+                            {stats.phase.tolerance > 0 &&
+                              ` ± ${formatWeightChange(stats.phase.tolerance, unit, 1, locale)}`}
+                          </span>
+                        </div>
+                        {stats.phase.progress !== null && (
+                          <Progress value={stats.phase.progress} className="h-2" />
+                        )}
+                        <p className="text-xs text-gray-400">
+                          {stats.phase.onTarget
+                            ? stats.phase.phase === "maintain"
+                              ? t("profile.holding")
+                              : t("phase.reached")
+                            : t(
+                                stats.phase.phase === "maintain"
+                                  ? "profile.outsideBand"
+                                  : "profile.toGo",
+                                {
+                                  amount: formatWeightChange(
+                                    stats.phase.remaining,
+                                    unit,
+                                    1,
+                                    locale
+                                  ),
+                                }
+                              )}
+                          {stats.phase.daysLeft !== null &&
+                            ` · ${t("common.daysLeft", { count: stats.phase.daysLeft })}`}
+                        </p>
+                      </div>
+                    )}
+
                     <div className="flex justify-between items-center px-4 py-3 rounded-2xl bg-white/5 border border-white/10">
-                      <span className="text-sm text-gray-400">Entries</span>
+                      <span className="text-sm text-gray-400">{t("profile.entries")}</span>
                       <span className="font-semibold text-white">
-                        {weightEntries.length}
+                        {stats?.entryCount ?? 0}
                       </span>
                     </div>
                   </div>
@@ -1282,10 +2170,30 @@ export default function WeightWiseTracker() {
                     <div className="p-2 rounded-xl bg-white/5 border border-white/10">
                       <Calendar className="h-5 w-5 text-orange-300" />
                     </div>
-                    Entries
+                    {t("entries.title")}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setTrashOpen(true)}
+                      className="ms-auto text-gray-400 hover:text-white hover:bg-white/5 rounded-xl"
+                    >
+                      <Trash2 className="h-4 w-4 me-1" />
+                      {t("entries.trash")}
+                    </Button>
+                    <Button
+                      asChild
+                      variant="ghost"
+                      size="sm"
+                      className="text-gray-400 hover:text-white hover:bg-white/5 rounded-xl"
+                    >
+                      <Link href="/history">
+                        {t("entries.viewAll")}
+                        <ChevronRight className="h-4 w-4 ms-1 rtl:rotate-180" />
+                      </Link>
+                    </Button>
                   </CardTitle>
                   <CardDescription className="text-gray-400">
-                    Click any entry to edit.
+                    {t("entries.description")}
                   </CardDescription>
                 </CardHeader>
 
@@ -1296,30 +2204,32 @@ export default function WeightWiseTracker() {
                         weightEntries.slice(0, 8).map((entry, index) => (
                           <motion.button
                             key={entry.id}
-                            initial={{ opacity: 0, x: -10 }}
+                            initial={{ opacity: 0, x: dir === "rtl" ? 10 : -10 }}
                             animate={{ opacity: 1, x: 0 }}
                             transition={{ delay: index * 0.05 }}
                             onClick={() => openEditModal(entry)}
-                            className="w-full text-left flex items-center justify-between px-4 py-3 rounded-2xl bg-white/5 border border-white/10 hover:bg-white/10 transition"
+                            className="w-full text-start flex items-center justify-between px-4 py-3 rounded-2xl bg-white/5 border border-white/10 hover:bg-white/10 transition"
                           >
                             <div>
                               <p className="text-white font-semibold">
-                                {safeToFixed(entry.weight, 1)} kg
+                                {formatWeight(entry.weight, unit, 1, locale)}
                               </p>
                               <p className="text-xs text-gray-400">
-                                {format(parseISO(entry.date), "MMM d, yyyy")}
+                                {formatDate(entry.date, "medium")}
+                                {entry.slot &&
+                                  ` · ${t(`slot.${entry.slot}`)} ${formatDate(entry.date, "time")}`}
                               </p>
                             </div>
 
                             <div className="flex items-center gap-2 text-gray-400">
                               <Pencil className="w-4 h-4" />
-                              <ChevronRight className="w-4 h-4" />
+                              <ChevronRight className="w-4 h-4 rtl:rotate-180" />
                             </div>
                           </motion.button>
                         ))
                       ) : (
                         <div className="text-center py-10 text-gray-400">
-                          No entries yet — start tracking today!
+                          {t("entries.empty")}
                         </div>
                       )}
                     </AnimatePresence>
@@ -1335,11 +2245,9 @@ export default function WeightWiseTracker() {
                       <Zap className="h-6 w-6 text-green-300" />
                     </div>
                     <div>
-                      <h4 className="font-semibold text-white">
-                        Cloud Sync Active
-                      </h4>
+                      <h4 className="font-semibold text-white">{t("footer.title")}</h4>
                       <p className="text-sm text-gray-300 mt-1">
-                        Your entries are safe inside Neon PostgreSQL.
+                        {t("footer.description")}
                       </p>
                     </div>
                   </div>
@@ -1356,44 +2264,74 @@ export default function WeightWiseTracker() {
           <DialogHeader>
             <DialogTitle className="text-white flex items-center gap-2">
               <Pencil className="w-5 h-5 text-purple-300" />
-              Edit Entry
+              {t("edit.title")}
             </DialogTitle>
             <DialogDescription className="text-gray-400">
-              Change weight, note or date.
+              {t("edit.description")}
             </DialogDescription>
           </DialogHeader>
 
           <div className="space-y-5 mt-4">
             <div>
-              <Label className="text-gray-300 mb-2 block">Weight (kg)</Label>
-              <Input
+              <Label className="text-gray-300 mb-2 block">{t("common.weight")}</Label>
+              <WeightInput
+                unit={unit}
                 value={editWeight}
-                onChange={(e) => setEditWeight(e.target.value)}
-                type="number"
-                step="0.1"
+                onChange={setEditWeight}
                 className="h-12 bg-white/5 border-white/10 text-white"
               />
             </div>
 
             <div>
-              <Label className="text-gray-300 mb-2 block">Date</Label>
+              <Label className="text-gray-300 mb-2 block">{t("common.date")}</Label>
               <Input
                 value={editDate}
                 onChange={(e) => setEditDate(e.target.value)}
                 type="date"
+                max={today}
                 className="h-12 bg-white/5 border-white/10 text-white"
               />
             </div>
 
+            {multiWeighIn && (
+              <div>
+                <Label className="text-gray-300 mb-2 block">{t("edit.timeOfDay")}</Label>
+                <SlotPicker value={editSlot} onChange={setEditSlot} />
+              </div>
+            )}
+
             <div>
-              <Label className="text-gray-300 mb-2 block">Note</Label>
+              <Label className="text-gray-300 mb-2 block">{t("common.note")}</Label>
               <Textarea
                 value={editNote}
                 onChange={(e) => setEditNote(e.target.value)}
-                placeholder="Optional note…"
+                placeholder={t("common.notePlaceholder")}
                 className="bg-white/5 border-white/10 text-white min-h-[90px]"
               />
             </div>
+
+            <div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setHistoryOpen(!historyOpen)}
+                className="text-gray-300 hover:text-white hover:bg-white/10 px-2"
+              >
+                <History className="w-4 h-4 me-2" />
+                {historyOpen ? t("edit.hideHistory") : t("edit.history")}
+              </Button>
+
+              {historyOpen && selectedEntry && (
+                <div className="mt-3">
+                  <EntryHistory
+                    key={selectedEntry.id}
+                    entryId={selectedEntry.id}
+                    unit={unit}
+                    onReverted={handleReverted}
+                  />
+                </div>
+              )}
+            </div>
           </div>
 
           <DialogFooter className="mt-6 flex justify-between sm:justify-between gap-3">
@@ -1402,8 +2340,8 @@ export default function WeightWiseTracker() {
               onClick={() => setDeleteConfirmOpen(true)}
               className="border-red-500/30 bg-red-500/10 text-red-300 hover:bg-red-500/20"
             >
-              <Trash2 className="w-4 h-4 mr-2" />
-              Delete
+              <Trash2 className="w-4 h-4 me-2" />
+              {t("common.delete")}
             </Button>
 
             <div className="flex gap-2">
@@ -1412,7 +2350,7 @@ export default function WeightWiseTracker() {
                 onClick={() => setEditOpen(false)}
                 className="border-white/10 bg-white/5 hover:bg-white/10 text-gray-200"
               >
-                Cancel
+                {t("common.cancel")}
               </Button>
 
               <Button
@@ -1422,13 +2360,13 @@ export default function WeightWiseTracker() {
               >
                 {isSavingEdit ? (
                   <>
-                    <Loader2 className="w-4 h-4 animate-spin mr-2" />
-                    Saving…
+                    <Loader2 className="w-4 h-4 animate-spin me-2" />
+                    {t("common.saving")}
                   </>
                 ) : (
                   <>
-                    <Check className="w-4 h-4 mr-2" />
-                    Save Changes
+                    <Check className="w-4 h-4 me-2" />
+                    {t("edit.saveChanges")}
                   </>
                 )}
               </Button>
@@ -1437,13 +2375,50 @@ export default function WeightWiseTracker() {
         </DialogContent>
       </Dialog>
 
+      {/* ==================== LOG ANOTHER DAY ==================== */}
+      <LogDayDialog
+        open={logDayOpen}
+        onOpenChange={setLogDayOpen}
+        multiWeighIn={multiWeighIn}
+        unit={unit}
+        timeZone={timeZone}
+        onCreated={handleBackdatedCreated}
+        onEditExisting={handleEditExisting}
+      />
+
+      <RangeDialog
+        open={rangeOpen}
+        onOpenChange={setRangeOpen}
+        value={range}
+        today={today}
+        onApply={handleRangeChange}
+      />
+
+      {/* ==================== SETTINGS ==================== */}
+      <SettingsDialog
+        open={settingsOpen}
+        onOpenChange={setSettingsOpen}
+        user={userProfile}
+        onSaved={setUserProfile}
+        phases={goalPhases}
+        onPhasesChange={setGoalPhases}
+      />
+
+      {/* ==================== TRASH ==================== */}
+      <TrashDialog
+        open={trashOpen}
+        onOpenChange={setTrashOpen}
+        unit={unit}
+        onRestored={handleRestored}
+      />
+
       {/* ==================== DELETE CONFIRM ==================== */}
       <Dialog open={deleteConfirmOpen} onOpenChange={setDeleteConfirmOpen}>
         <DialogContent className="bg-gray-950/95 border-white/10 backdrop-blur-xl rounded-3xl max-w-md">
           <DialogHeader>
-            <DialogTitle className="text-white">Delete Entry?</DialogTitle>
+            <DialogTitle className="text-white">{t("deleteConfirm.title")}</DialogTitle>
             <DialogDescription className="text-gray-400">
-              This cannot be undone.
+              {t("deleteConfirm.description")}
             </DialogDescription>
           </DialogHeader>
 
@@ -1453,7 +2428,7 @@ export default function WeightWiseTracker() {
               onClick={() => setDeleteConfirmOpen(false)}
               className="border-white/10 bg-white/5 hover:bg-white/10 text-gray-200"
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button
               onClick={handleDeleteEntry}
@@ -1462,13 +2437,13 @@ export default function WeightWiseTracker() {
             >
               {isDeleting ? (
                 <>
-                  <Loader2 className="w-4 h-4 animate-spin mr-2" />
-                  Deleting…
+                  <Loader2 className="w-4 h-4 animate-spin me-2" />
+                  {t("common.deleting")}
                 </>
               ) : (
                 <>
-                  <Trash2 className="w-4 h-4 mr-2" />
-                  Delete
+                  <Trash2 className="w-4 h-4 me-2" />
+                  {t("common.delete")}
                 </>
               )}
             </Button>
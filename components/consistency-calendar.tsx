@@ -0,0 +1,262 @@
+// components/consistency-calendar.tsx
+"use client";
+
+import { Fragment, useMemo } from "react";
+import { addDays, format, parseISO, startOfWeek } from "date-fns";
+import { ChevronLeft, ChevronRight, Flame, Grid3x3, Trophy } from "lucide-react";
+
+import { useI18n } from "@/components/i18n-provider";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { isTowardGoal } from "@/lib/goals";
+import { isWeighInDay } from "@/lib/streaks";
+import { formatWeight, formatWeightChange } from "@/lib/units";
+import { cn } from "@/lib/utils";
+import type { GoalDirection, LoggingCalendar, WeightUnit } from "@/lib/schemas";
+
+type ConsistencyCalendarProps = {
+  calendar: LoggingCalendar | null;
+  year: number;
+  onYearChange: (year: number) => void;
+  // Colors follow the goal: toward it is green, away from it orange (down is good without one)
+  goalDirection: GoalDirection | null;
+  tolerance: number;
+  unit: WeightUnit;
+  // Unlogged rest days are drawn apart from missed weigh-ins
+  weighInDays: number[];
+};
+
+const EMPTY_CELL = "bg-white/5";
+const REST_CELL = "border border-white/5";
+const LOGGED_CELL = "bg-purple-400/60";
+const TOWARD_CELLS = ["bg-emerald-500/35", "bg-emerald-500/65", "bg-emerald-400"];
+const AWAY_CELLS = ["bg-orange-500/35", "bg-orange-500/65", "bg-orange-400"];
+
+// Shade by the size of the day's change: under 0.2 kg, under 0.5 kg, more
+const shade = (change: number) =>
+  Math.abs(change) < 0.2 ? 0 : Math.abs(change) < 0.5 ? 1 : 2;
+
+// Year heatmap of logged days (one column per week) with the streak engine's numbers
+export function ConsistencyCalendar({
+  calendar,
+  year,
+  onYearChange,
+  goalDirection,
+  tolerance,
+  unit,
+  weighInDays,
+}: ConsistencyCalendarProps) {
+  const { locale, dateLocale, t, formatDate } = useI18n();
+
+  const logged = useMemo(
+    () => new Map((calendar?.days ?? []).map((d) => [d.day, d])),
+    [calendar]
+  );
+
+  // Whole weeks from the one holding Jan 1 (in the locale's week) to Dec 31
+  const weeks = useMemo(() => {
+    const first = parseISO(`${year}-01-01`);
+    const last = `${year}-12-31`;
+    const result: string[][] = [];
+
+    let day = startOfWeek(first, { locale: dateLocale });
+    while (format(day, "yyyy-MM-dd") <= last) {
+      const week: string[] = [];
+      for (let i = 0; i < 7; i++) {
+        week.push(format(day, "yyyy-MM-dd"));
+        day = addDays(day, 1);
+      }
+      result.push(week);
+    }
+    return result;
+  }, [year, dateLocale]);
+
+  const today = calendar?.today ?? "";
+  const streak = calendar?.streak;
+  const percent = (rate: number) =>
+    rate.toLocaleString(locale, { style: "percent", maximumFractionDigits: 0 });
+
+  const cellClass = (day: string) => {
+    const entry = logged.get(day);
+    if (!entry) return isWeighInDay(day, weighInDays) ? EMPTY_CELL : REST_CELL;
+    if (entry.change === null || entry.change === 0) return LOGGED_CELL;
+    return (isTowardGoal(goalDirection, entry.change, tolerance) ? TOWARD_CELLS : AWAY_CELLS)[
+      shade(entry.change)
+    ];
+  };
+
+  const cellTitle = (day: string) => {
+    const entry = logged.get(day);
+    const date = formatDate(day, "weekday");
+    if (!entry) {
+      const status = isWeighInDay(day, weighInDays) ? "notLogged" : "restDay";
+      return `${date} · ${t(`consistency.${status}`)}`;
+    }
+
+    const weight = formatWeight(entry.weight, unit, 1, locale);
+    if (entry.change === null) return `${date} · ${weight}`;
+    const sign = entry.change > 0 ? "+" : "";
+    return `${date} · ${weight} (${sign}${formatWeightChange(entry.change, unit, 1, locale)})`;
+  };
+
+  return (
+    <Card className="border-white/10 bg-white/[0.04] backdrop-blur-xl shadow-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3">
+          <div className="p-2 rounded-xl bg-white/5 border border-white/10">
+            <Grid3x3 className="h-5 w-5 text-emerald-300" />
+          </div>
+          {t("consistency.title")}
+
+          <div className="ms-auto flex items-center gap-1 text-sm font-normal text-gray-300">
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => onYearChange(year - 1)}
+              aria-label={t("consistency.previousYear")}
+              className="h-8 w-8 hover:bg-white/10"
+            >
+              <ChevronLeft className="w-4 h-4 rtl:rotate-180" />
+            </Button>
+            <span className="tabular-nums">{year.toLocaleString(locale, { useGrouping: false })}</span>
+            <Button
+              size="icon"
+              variant="ghost"
+              disabled={!!today && year >= Number(today.slice(0, 4))}
+              onClick={() => onYearChange(year + 1)}
+              aria-label={t("consistency.nextYear")}
+              className="h-8 w-8 hover:bg-white/10"
+            >
+              <ChevronRight className="w-4 h-4 rtl:rotate-180" />
+            </Button>
+          </div>
+        </CardTitle>
+        <CardDescription className="text-gray-400">
+          {t("consistency.description")}
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-5">
+        {/* Streaks */}
+        <div className="grid grid-cols-2 gap-3">
+          <div className="px-4 py-3 rounded-2xl bg-white/5 border border-white/10">
+            <p className="text-xs text-gray-400 flex items-center gap-1">
+              <Flame className="w-3.5 h-3.5 text-orange-400" />
+              {t("consistency.current")}
+            </p>
+            <p className="text-lg font-semibold text-white">
+              {t("consistency.days", { count: streak?.current ?? 0 })}
+            </p>
+            {streak && streak.current > 0 && (
+              <p className="text-xs text-gray-400">
+                {streak.loggedToday
+                  ? t("consistency.loggedToday")
+                  : streak.weighInToday
+                    ? t("consistency.atRisk")
+                    : t("consistency.restToday")}
+              </p>
+            )}
+          </div>
+          <div className="px-4 py-3 rounded-2xl bg-white/5 border border-white/10">
+            <p className="text-xs text-gray-400 flex items-center gap-1">
+              <Trophy className="w-3.5 h-3.5 text-yellow-300" />
+              {t("consistency.longest")}
+            </p>
+            <p className="text-lg font-semibold text-white">
+              {t("consistency.days", { count: streak?.longest.length ?? 0 })}
+            </p>
+            {streak?.longest.from && streak.longest.to && (
+              <p className="text-xs text-gray-400">
+                {t("range.span", {
+                  from: formatDate(streak.longest.from, "short"),
+                  to: formatDate(streak.longest.to, "short"),
+                })}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {/* Heatmap: a month label row, then one row per weekday */}
+        <div className="overflow-x-auto pb-1">
+          <div className="inline-grid grid-flow-col grid-rows-[auto_repeat(7,0.75rem)] auto-cols-[0.75rem] gap-[3px]">
+            {weeks.map((week) => {
+              const monthStart = week.find(
+                (day) => day.endsWith("-01") && day.startsWith(`${year}-`)
+              );
+              return (
+                <Fragment key={week[0]}>
+                  <span className="h-4 text-[10px] leading-4 text-gray-500 whitespace-nowrap">
+                    {monthStart && formatDate(monthStart, "month")}
+                  </span>
+                  {week.map((day) =>
+                    day.startsWith(`${year}-`) && (!today || day <= today) ? (
+                      <span
+                        key={day}
+                        title={cellTitle(day)}
+                        className={cn("rounded-[3px]", cellClass(day))}
+                      />
+                    ) : (
+                      <span key={day} />
+                    )
+                  )}
+                </Fragment>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Legend */}
+        <div className="flex flex-wrap items-center gap-4 text-xs text-gray-400">
+          {[
+            { key: "toward", className: TOWARD_CELLS[1], label: t("consistency.toward") },
+            { key: "away", className: AWAY_CELLS[1], label: t("consistency.away") },
+            { key: "logged", className: LOGGED_CELL, label: t("consistency.noChange") },
+            { key: "empty", className: EMPTY_CELL, label: t("consistency.notLogged") },
+            ...(weighInDays.length < 7
+              ? [{ key: "rest", className: REST_CELL, label: t("consistency.restDay") }]
+              : []),
+          ].map((item) => (
+            <span key={item.key} className="flex items-center gap-1.5">
+              <span className={cn("h-3 w-3 rounded-[3px]", item.className)} />
+              {item.label}
+            </span>
+          ))}
+        </div>
+
+        {/* Logging rate per month */}
+        <div className="grid grid-cols-6 sm:grid-cols-12 gap-2">
+          {(calendar?.months ?? []).map((m) => (
+            <div
+              key={m.month}
+              title={
+                m.rate === null
+                  ? undefined
+                  : t("consistency.monthRate", { logged: m.daysLogged, days: m.days })
+              }
+              className="text-center"
+            >
+              <div className="h-10 rounded-md bg-white/5 flex items-end overflow-hidden">
+                <div
+                  className="w-full bg-emerald-400/60"
+                  style={{ height: `${(m.rate ?? 0) * 100}%` }}
+                />
+              </div>
+              <p className="mt-1 text-[10px] text-gray-500">
+                {formatDate(`${m.month}-01`, "month")}
+              </p>
+              <p className="text-xs text-gray-300 tabular-nums">
+                {m.rate === null ? "—" : percent(m.rate)}
+              </p>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,567 @@
+// components/entries-table.tsx
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  Check,
+  ChevronLeft,
+  ChevronRight,
+  Loader2,
+  Pencil,
+  Search,
+  Trash2,
+  X,
+} from "lucide-react";
+import { toast } from "sonner";
+
+import { useI18n } from "@/components/i18n-provider";
+import { WeightInput } from "@/components/weight-input";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { apiCall, apiErrorMessage } from "@/lib/api";
+import { entryDay } from "@/lib/daily";
+import { localToday } from "@/lib/dates";
+import { entryEditPayload, findCollision } from "@/lib/entries";
+import { formatWeight, formatWeightChange, weightFieldValue } from "@/lib/units";
+import { cn } from "@/lib/utils";
+import {
+  parseWeightField,
+  weightEntrySchema,
+  type WeightEntry,
+  type WeightUnit,
+} from "@/lib/schemas";
+
+const PAGE_SIZE = 20;
+
+type SortKey = "date" | "weight" | "change";
+type Sort = { key: SortKey; desc: boolean };
+
+type Filters = { from: string; to: string; text: string };
+
+const NO_FILTERS: Filters = { from: "", to: "", text: "" };
+
+// Oldest first by day, then by time within a day (multi weigh-in mode)
+const chronological = (a: WeightEntry, b: WeightEntry, timeZone: string) =>
+  entryDay(a, timeZone).localeCompare(entryDay(b, timeZone)) ||
+  new Date(a.date).getTime() - new Date(b.date).getTime();
+
+// Change from the entry logged just before each one, over the whole history so filters
+// and paging don't shift it. null for the very first entry
+function changesById(entries: WeightEntry[], timeZone: string) {
+  const changes = new Map<number, number | null>();
+  [...entries]
+    .sort((a, b) => chronological(a, b, timeZone))
+    .forEach((entry, i, sorted) => {
+      changes.set(entry.id, i > 0 ? entry.weight - sorted[i - 1].weight : null);
+    });
+  return changes;
+}
+
+type SortButtonProps = {
+  column: SortKey;
+  label: string;
+  sort: Sort;
+  onSort: (column: SortKey) => void;
+};
+
+function SortButton({ column, label, sort, onSort }: SortButtonProps) {
+  const Icon = sort.key !== column ? ArrowUpDown : sort.desc ? ArrowDown : ArrowUp;
+
+  return (
+    <button
+      type="button"
+      onClick={() => onSort(column)}
+      className={cn(
+        "inline-flex items-center gap-1 hover:text-white",
+        sort.key === column ? "text-white" : "text-gray-400"
+      )}
+    >
+      {label}
+      <Icon className="w-3.5 h-3.5" />
+    </button>
+  );
+}
+
+type EntriesTableProps = {
+  entries: WeightEntry[];
+  unit: WeightUnit;
+  multiWeighIn: boolean;
+  timeZone: string;
+  onUpdated: (entry: WeightEntry) => void;
+  onDeleted: (ids: number[]) => void;
+  onRestored: (entries: WeightEntry[]) => void;
+};
+
+// Every entry as a sortable, filterable table, a page at a time. Rows are edited in place
+// and can be selected to be moved to the trash together
+export function EntriesTable({
+  entries,
+  unit,
+  multiWeighIn,
+  timeZone,
+  onUpdated,
+  onDeleted,
+  onRestored,
+}: EntriesTableProps) {
+  const i18n = useI18n();
+  const { locale, t, formatDate } = i18n;
+
+  const [sort, setSort] = useState<Sort>({ key: "date", desc: true });
+  const [filters, setFilters] = useState<Filters>(NO_FILTERS);
+  const [page, setPage] = useState(0);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  // Inline edit, one row at a time
+  const [editing, setEditing] = useState<WeightEntry | null>(null);
+  const [editWeight, setEditWeight] = useState("");
+  const [editDate, setEditDate] = useState("");
+  const [editNote, setEditNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const changes = useMemo(() => changesById(entries, timeZone), [entries, timeZone]);
+
+  const rows = useMemo(() => {
+    const text = filters.text.trim().toLocaleLowerCase(locale);
+    const matching = entries.filter((e) => {
+      const day = entryDay(e, timeZone);
+      return (
+        (!filters.from || day >= filters.from) &&
+        (!filters.to || day <= filters.to) &&
+        (!text || (e.note ?? "").toLocaleLowerCase(locale).includes(text))
+      );
+    });
+
+    // Entries without a change (the first one) sort last either way
+    const byKey = (a: WeightEntry, b: WeightEntry) => {
+      if (sort.key === "weight") return a.weight - b.weight;
+      if (sort.key === "change") {
+        const ca = changes.get(a.id) ?? null;
+        const cb = changes.get(b.id) ?? null;
+        if (ca === null || cb === null) return 0;
+        return ca - cb;
+      }
+      return chronological(a, b, timeZone);
+    };
+    const missing = (e: WeightEntry) =>
+      sort.key === "change" && (changes.get(e.id) ?? null) === null ? 1 : 0;
+
+    return matching.sort(
+      (a, b) =>
+        missing(a) - missing(b) ||
+        (sort.desc ? -1 : 1) * byKey(a, b) ||
+        chronological(b, a, timeZone)
+    );
+  }, [entries, changes, filters, sort, locale, timeZone]);
+
+  const pageCount = Math.max(1, Math.ceil(rows.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = rows.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  const allOnPageSelected =
+    pageRows.length > 0 && pageRows.every((e) => selected.has(e.id));
+  const filtered = filters.from !== "" || filters.to !== "" || filters.text !== "";
+
+  // ==================== SORT / FILTER ====================
+  const handleSort = (key: SortKey) => {
+    setSort((current) =>
+      current.key === key ? { key, desc: !current.desc } : { key, desc: true }
+    );
+    setPage(0);
+  };
+
+  const updateFilter = (change: Partial<Filters>) => {
+    setFilters((current) => ({ ...current, ...change }));
+    setPage(0);
+  };
+
+  // ==================== SELECTION ====================
+  const toggleRow = (id: number) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  };
+
+  const togglePage = () => {
+    setSelected((current) => {
+      const next = new Set(current);
+      for (const e of pageRows) {
+        if (allOnPageSelected) next.delete(e.id);
+        else next.add(e.id);
+      }
+      return next;
+    });
+  };
+
+  // ==================== DELETE SELECTED ====================
+  const handleUndoDelete = async (ids: number[]) => {
+    const results = await Promise.allSettled(
+      ids.map(async (entryId) =>
+        weightEntrySchema.parse(
+          await apiCall("entries/trash", {
+            method: "POST",
+            body: JSON.stringify({ entryId }),
+          })
+        )
+      )
+    );
+
+    const restored = results.flatMap((r) => (r.status === "fulfilled" ? [r.value] : []));
+    if (restored.length) {
+      onRestored(restored);
+      toast.success(t("allEntries.restored", { count: restored.length }));
+    }
+    if (restored.length < ids.length) toast.error(t("entries.undoFailed"));
+  };
+
+  const handleDeleteSelected = async () => {
+    const ids = entries.filter((e) => selected.has(e.id)).map((e) => e.id);
+    if (!ids.length) return;
+    setIsDeleting(true);
+
+    // Soft deletes, one request per entry so each lands in the trash and its history
+    const results = await Promise.allSettled(
+      ids.map((id) => apiCall(`entries?id=${id}`, { method: "DELETE" }))
+    );
+    const deleted = ids.filter((_, i) => results[i].status === "fulfilled");
+
+    if (deleted.length) {
+      onDeleted(deleted);
+      toast.success(t("allEntries.trashed", { count: deleted.length }), {
+        action: {
+          label: t("common.undo"),
+          onClick: () => handleUndoDelete(deleted),
+        },
+      });
+    }
+    if (deleted.length < ids.length) {
+      results
+        .filter((r) => r.status === "rejected")
+        .forEach((r) => console.error(r.reason));
+      toast.error(t("common.deleteFailed"));
+    }
+
+    setSelected(new Set(ids.filter((id) => !deleted.includes(id))));
+    setIsDeleting(false);
+  };
+
+  // ==================== INLINE EDIT ====================
+  const startEdit = (entry: WeightEntry) => {
+    setEditing(entry);
+    setEditWeight(weightFieldValue(entry.weight, unit, locale));
+    setEditDate(entryDay(entry, timeZone));
+    setEditNote(entry.note ?? "");
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editing) return;
+    const { weight, error } = parseWeightField(editWeight, unit, i18n);
+    if (error !== null) return toast.error(error);
+
+    // Same checks as the edit dialog, the slot stays as it is
+    const edit = { weightField: editWeight, weight, note: editNote, day: editDate };
+    const context = { unit, locale, timeZone, multiWeighIn };
+    if (findCollision(entries, editing, edit, context)) {
+      return toast.error(t("edit.collision"));
+    }
+
+    setIsSaving(true);
+
+    try {
+      const updated = weightEntrySchema.parse(
+        await apiCall("entries", {
+          method: "PATCH",
+          body: JSON.stringify(entryEditPayload(editing, edit, context)),
+        })
+      );
+
+      onUpdated(updated);
+      setEditing(null);
+      toast.success(t("edit.saved"));
+    } catch (err) {
+      console.error(err);
+      toast.error(
+        apiErrorMessage(err, i18n, { fallback: "edit.failed", conflict: "edit.collision", unit })
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const fieldClass = "h-9 bg-white/5 border-white/10 text-white";
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="text-xs text-gray-400 space-y-1">
+          <span className="block">{t("allEntries.from")}</span>
+          <Input
+            type="date"
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={(e) => updateFilter({ from: e.target.value })}
+            className={cn(fieldClass, "w-40")}
+          />
+        </label>
+        <label className="text-xs text-gray-400 space-y-1">
+          <span className="block">{t("allEntries.to")}</span>
+          <Input
+            type="date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(e) => updateFilter({ to: e.target.value })}
+            className={cn(fieldClass, "w-40")}
+          />
+        </label>
+        <div className="relative flex-1 min-w-48">
+          <Search className="pointer-events-none absolute start-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500" />
+          <Input
+            value={filters.text}
+            onChange={(e) => updateFilter({ text: e.target.value })}
+            placeholder={t("allEntries.search")}
+            aria-label={t("allEntries.search")}
+            className={cn(fieldClass, "ps-9")}
+          />
+        </div>
+        {filtered && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => updateFilter(NO_FILTERS)}
+            className="text-gray-400 hover:text-white hover:bg-white/5"
+          >
+            <X className="w-4 h-4 me-1" />
+            {t("allEntries.clear")}
+          </Button>
+        )}
+
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={selected.size === 0 || isDeleting}
+          onClick={handleDeleteSelected}
+          className="ms-auto border-red-500/30 bg-red-500/10 hover:bg-red-500/20 text-red-200"
+        >
+          {isDeleting ? (
+            <Loader2 className="w-4 h-4 animate-spin me-1" />
+          ) : (
+            <Trash2 className="w-4 h-4 me-1" />
+          )}
+          {t("allEntries.deleteSelected", { count: selected.size })}
+        </Button>
+      </div>
+
+      <div className="rounded-2xl border border-white/10 bg-white/[0.02]">
+        <Table>
+          <TableHeader>
+            <TableRow className="border-white/10 hover:bg-transparent">
+              <TableHead className="w-10 ps-4">
+                <input
+                  type="checkbox"
+                  checked={allOnPageSelected}
+                  onChange={togglePage}
+                  disabled={pageRows.length === 0}
+                  aria-label={t("allEntries.selectPage")}
+                  className="h-4 w-4 accent-purple-500"
+                />
+              </TableHead>
+              <TableHead className="text-start">
+                <SortButton column="date" label={t("common.date")} sort={sort} onSort={handleSort} />
+              </TableHead>
+              <TableHead className="text-start">
+                <SortButton column="weight" label={t("common.weight")} sort={sort} onSort={handleSort} />
+              </TableHead>
+              <TableHead className="text-start">
+                <SortButton column="change" label={t("allEntries.change")} sort={sort} onSort={handleSort} />
+              </TableHead>
+              <TableHead className="text-start text-gray-400">{t("common.note")}</TableHead>
+              <TableHead className="w-24">
+                <span className="sr-only">{t("allEntries.actions")}</span>
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+
+          <TableBody>
+            {pageRows.length === 0 && (
+              <TableRow className="hover:bg-transparent">
+                <TableCell colSpan={6} className="py-10 text-center text-gray-400">
+                  {entries.length ? t("allEntries.noMatch") : t("entries.empty")}
+                </TableCell>
+              </TableRow>
+            )}
+
+            {pageRows.map((entry) => {
+              const change = changes.get(entry.id) ?? null;
+              const isEditing = editing?.id === entry.id;
+
+              return (
+                <TableRow
+                  key={entry.id}
+                  data-state={selected.has(entry.id) ? "selected" : undefined}
+                  className="border-white/10 hover:bg-white/5 data-[state=selected]:bg-purple-500/10"
+                >
+                  <TableCell className="ps-4">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(entry.id)}
+                      onChange={() => toggleRow(entry.id)}
+                      aria-label={t("allEntries.selectRow")}
+                      className="h-4 w-4 accent-purple-500"
+                    />
+                  </TableCell>
+
+                  <TableCell className="text-gray-200">
+                    {isEditing ? (
+                      <Input
+                        type="date"
+                        value={editDate}
+                        max={localToday(timeZone)}
+                        onChange={(e) => setEditDate(e.target.value)}
+                        className={cn(fieldClass, "w-40")}
+                      />
+                    ) : (
+                      <>
+                        {formatDate(entryDay(entry, timeZone), "medium")}
+                        <span className="ms-2 text-xs text-gray-500">
+                          {entry.slot && `${t(`slot.${entry.slot}`)} `}
+                          {formatDate(entry.date, "time")}
+                        </span>
+                      </>
+                    )}
+                  </TableCell>
+
+                  <TableCell className="font-semibold text-white">
+                    {isEditing ? (
+                      <WeightInput
+                        value={editWeight}
+                        onChange={setEditWeight}
+                        unit={unit}
+                        className={cn(fieldClass, "w-28")}
+                      />
+                    ) : (
+                      formatWeight(entry.weight, unit, 1, locale)
+                    )}
+                  </TableCell>
+
+                  <TableCell
+                    className={cn(
+                      "tabular-nums",
+                      change === null || change === 0
+                        ? "text-gray-500"
+                        : change < 0
+                          ? "text-green-400"
+                          : "text-orange-300"
+                    )}
+                  >
+                    {change === null
+                      ? "—"
+                      : `${change > 0 ? "+" : ""}${formatWeightChange(change, unit, 1, locale)}`}
+                  </TableCell>
+
+                  <TableCell className="max-w-64 truncate text-gray-400">
+                    {isEditing ? (
+                      <Input
+                        value={editNote}
+                        onChange={(e) => setEditNote(e.target.value)}
+                        placeholder={t("common.notePlaceholder")}
+                        maxLength={500}
+                        className={cn(fieldClass, "w-56")}
+                      />
+                    ) : (
+                      entry.note
+                    )}
+                  </TableCell>
+
+                  <TableCell className="pe-4 text-end">
+                    {isEditing ? (
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          disabled={isSaving}
+                          onClick={handleSaveEdit}
+                          aria-label={t("common.save")}
+                          className="h-8 w-8 text-green-300 hover:bg-white/10"
+                        >
+                          {isSaving ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <Check className="w-4 h-4" />
+                          )}
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          disabled={isSaving}
+                          onClick={() => setEditing(null)}
+                          aria-label={t("common.cancel")}
+                          className="h-8 w-8 text-gray-400 hover:bg-white/10"
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => startEdit(entry)}
+                        aria-label={t("common.edit")}
+                        className="h-8 w-8 text-gray-400 hover:text-white hover:bg-white/10"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* Pagination */}
+      <div className="flex items-center justify-between text-sm text-gray-400">
+        <span>{t("allEntries.count", { count: rows.length })}</span>
+        <div className="flex items-center gap-2">
+          <Button
+            size="icon"
+            variant="ghost"
+            disabled={currentPage === 0}
+            onClick={() => setPage(currentPage - 1)}
+            aria-label={t("allEntries.previous")}
+            className="h-8 w-8 hover:bg-white/10"
+          >
+            <ChevronLeft className="w-4 h-4 rtl:rotate-180" />
+          </Button>
+          <span>
+            {t("allEntries.page", { page: currentPage + 1, pages: pageCount })}
+          </span>
+          <Button
+            size="icon"
+            variant="ghost"
+            disabled={currentPage >= pageCount - 1}
+            onClick={() => setPage(currentPage + 1)}
+            aria-label={t("allEntries.next")}
+            className="h-8 w-8 hover:bg-white/10"
+          >
+            <ChevronRight className="w-4 h-4 rtl:rotate-180" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ArrowRight, History, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+
+import { useI18n } from "@/components/i18n-provider";
+import { Button } from "@/components/ui/button";
+import { apiCall, apiErrorMessage } from "@/lib/api";
+import { formatWeight } from "@/lib/units";
+import {
+  entryRevisionListSchema,
+  weightEntrySchema,
+  type EntryRevision,
+  type EntrySnapshot,
+  type WeightEntry,
+  type WeightUnit,
+} from "@/lib/schemas";
+
+type EntryHistoryProps = {
+  entryId: number;
+  unit: WeightUnit;
+  onReverted: (entry: WeightEntry) => void;
+};
+
+function SnapshotLine({ snapshot, unit }: { snapshot: EntrySnapshot; unit: WeightUnit }) {
+  const { locale, t, formatDate } = useI18n();
+
+  return (
+    <span>
+      {formatWeight(snapshot.weight, unit, 1, locale)} · {formatDate(snapshot.date, "short")}
+      {snapshot.slot && ` · ${t(`slot.${snapshot.slot}`)}`}
+      {snapshot.note && ` · “${snapshot.note}”`}
+    </span>
+  );
+}
+
+// Audit trail of one entry (see migration 006), newest first, each revision can be
+// reverted to unless it is the current state
+export function EntryHistory({ entryId, unit, onReverted }: EntryHistoryProps) {
+  const i18n = useI18n();
+  const { t, formatDate } = i18n;
+  // null while loading
+  const [revisions, setRevisions] = useState<EntryRevision[] | null>(null);
+  const [reload, setReload] = useState(0);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    apiCall(`entries/history?id=${entryId}`)
+      .then((data) => {
+        if (!cancelled) setRevisions(entryRevisionListSchema.parse(data).reverse());
+      })
+      .catch((err) => {
+        console.error(err);
+        toast.error(t("history.loadFailed"));
+        if (!cancelled) setRevisions([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [entryId, reload, t]);
+
+  const handleRevert = async (revision: EntryRevision) => {
+    setBusyId(revision.id);
+
+    try {
+      const reverted = weightEntrySchema.parse(
+        await apiCall("entries/history", {
+          method: "POST",
+          body: JSON.stringify({ entryId, revisionId: revision.id }),
+        })
+      );
+
+      onReverted(reverted);
+      setRevisions(null);
+      setReload((n) => n + 1);
+      toast.success(t("history.reverted"));
+    } catch (err) {
+      console.error(err);
+      toast.error(
+        apiErrorMessage(err, i18n, {
+          fallback: "history.revertFailed",
+          conflict: "entries.collision",
+        })
+      );
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (revisions === null) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="text-center py-6 text-sm text-gray-400">
+        {t("history.empty")}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 max-h-[240px] overflow-y-auto">
+      {revisions.map((revision, i) => (
+        <div
+          key={revision.id}
+          className="flex items-center justify-between gap-3 px-4 py-3 rounded-2xl bg-white/5 border border-white/10"
+        >
+          <div className="text-sm min-w-0">
+            <p className="text-white font-medium flex items-center gap-2">
+              <History className="w-3.5 h-3.5 text-purple-300" />
+              {t(`history.action.${revision.action}`)}
+              <span className="text-xs text-gray-500 font-normal">
+                {formatDate(revision.created_at, "mediumTime")}
+              </span>
+            </p>
+            <p className="text-xs text-gray-400 flex flex-wrap items-center gap-1 mt-1">
+              {revision.old_values && (
+                <>
+                  <SnapshotLine snapshot={revision.old_values} unit={unit} />
+                  <ArrowRight className="w-3 h-3 rtl:rotate-180" />
+                </>
+              )}
+              {revision.new_values ? (
+                <SnapshotLine snapshot={revision.new_values} unit={unit} />
+              ) : (
+                <span>{t("history.inTrash")}</span>
+              )}
+            </p>
+          </div>
+
+          {/* The newest revision is what the entry looks like now */}
+          {i > 0 && revision.new_values && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={busyId !== null}
+              onClick={() => handleRevert(revision)}
+              className="border-white/10 bg-white/5 hover:bg-white/10 text-gray-200 shrink-0"
+            >
+              {busyId === revision.id ? (
+                <Loader2 className="w-4 h-4 animate-spin me-1" />
+              ) : (
+                <RotateCcw className="w-4 h-4 me-1" />
+              )}
+              {t("history.revert")}
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { useI18n } from "@/components/i18n-provider";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { WeightInput } from "@/components/weight-input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiCall, apiErrorMessage } from "@/lib/api";
+import { byStartDay } from "@/lib/goals";
+import { parseDecimal } from "@/lib/i18n";
+import { formatWeight, formatWeightChange, fromUnit, unitSymbol } from "@/lib/units";
+import {
+  GOAL_DIRECTIONS,
+  goalPhaseSchema,
+  parseWeightField,
+  type GoalPhase,
+  type GoalDirection,
+  type WeightUnit,
+} from "@/lib/schemas";
+
+type GoalPhasesProps = {
+  phases: GoalPhase[];
+  unit: WeightUnit;
+  onChange: (phases: GoalPhase[]) => void;
+};
+
+const inputClass = "h-10 bg-white/5 border-white/10 text-white";
+
+// Settings tab for the phased plan (lose / maintain / gain), see lib/goals.ts
+export function GoalPhases({ phases, unit, onChange }: GoalPhasesProps) {
+  const i18n = useI18n();
+  const { locale, dir, t, formatDate } = i18n;
+  const [phase, setPhase] = useState<GoalDirection>("lose");
+  const [target, setTarget] = useState("");
+  const [tolerance, setTolerance] = useState("0");
+  const [startDay, setStartDay] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [endDay, setEndDay] = useState("");
+  const [busyId, setBusyId] = useState<number | "new" | null>(null);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const { weight, error } = parseWeightField(target, unit, i18n);
+    if (error !== null) return toast.error(error);
+
+    setBusyId("new");
+
+    try {
+      const created = goalPhaseSchema.parse(
+        await apiCall("goals", {
+          method: "POST",
+          body: JSON.stringify({
+            phase,
+            targetWeight: weight,
+            tolerance: fromUnit(parseDecimal(tolerance) || 0, unit),
+            startDay,
+            endDay: endDay || null,
+          }),
+        })
+      );
+
+      onChange([...phases, created].sort(byStartDay));
+      setTarget("");
+      setEndDay("");
+      toast.success(t("goals.added"));
+    } catch (err) {
+      console.error(err);
+      toast.error(apiErrorMessage(err, i18n, { fallback: "goals.addFailed", unit }));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (goal: GoalPhase) => {
+    setBusyId(goal.id);
+
+    try {
+      await apiCall(`goals?id=${goal.id}`, { method: "DELETE" });
+      onChange(phases.filter((p) => p.id !== goal.id));
+    } catch (err) {
+      console.error(err);
+      toast.error(t("goals.deleteFailed"));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2 max-h-[200px] overflow-y-auto">
+        {phases.length > 0 ? (
+          phases.map((goal) => (
+            <div
+              key={goal.id}
+              className="flex items-center justify-between gap-3 px-4 py-3 rounded-2xl bg-white/5 border border-white/10"
+            >
+              <div>
+                <p className="text-white font-semibold">
+                  {t(`direction.${goal.phase}`)} ·{" "}
+                  {formatWeight(goal.target_weight, unit, 1, locale)}
+                  {goal.tolerance > 0 && (
+                    <span className="text-gray-400 font-normal">
+                      {" "}
+                      ± {formatWeightChange(goal.tolerance, unit, 1, locale)}
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-400">
+                  {t("goals.span", {
+                    start: formatDate(goal.start_day, "medium"),
+                    end: goal.end_day
+                      ? formatDate(goal.end_day, "medium")
+                      : t("goals.nextPhase"),
+                  })}
+                </p>
+              </div>
+
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={busyId !== null}
+                onClick={() => handleDelete(goal)}
+                className="border-red-500/30 bg-red-500/10 text-red-300 hover:bg-red-500/20"
+              >
+                {busyId === goal.id ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Trash2 className="w-4 h-4" />
+                )}
+              </Button>
+            </div>
+          ))
+        ) : (
+          <div className="text-center py-6 text-sm text-gray-400">
+            {t("goals.empty")}
+          </div>
+        )}
+      </div>
+
+      <form
+        onSubmit={handleAdd}
+        className="space-y-3 px-4 py-4 rounded-2xl bg-white/5 border border-white/10"
+      >
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <Label className="text-gray-300 mb-2 block">{t("goals.phase")}</Label>
+            <Select
+              value={phase}
+              onValueChange={(v) => setPhase(v as GoalDirection)}
+              dir={dir}
+            >
+              <SelectTrigger className="w-full border-white/10 bg-white/5 text-gray-200">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GOAL_DIRECTIONS.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {t(`direction.${value}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label className="text-gray-300 mb-2 block">{t("goals.target")}</Label>
+            <WeightInput
+              unit={unit}
+              value={target}
+              onChange={setTarget}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <Label className="text-gray-300 mb-2 block">
+              {t("goals.tolerance", { unit: unitSymbol(unit) })}
+            </Label>
+            <Input
+              value={tolerance}
+              onChange={(e) => setTolerance(e.target.value)}
+              type="text"
+              inputMode="decimal"
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label className="text-gray-300 mb-2 block">{t("goals.starts")}</Label>
+            <Input
+              value={startDay}
+              onChange={(e) => setStartDay(e.target.value)}
+              type="date"
+              required
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <Label className="text-gray-300 mb-2 block">{t("goals.ends")}</Label>
+            <Input
+              value={endDay}
+              onChange={(e) => setEndDay(e.target.value)}
+              type="date"
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            type="submit"
+            disabled={busyId !== null || !target}
+            className="bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 shadow-xl"
+          >
+            {busyId === "new" ? (
+              <Loader2 className="w-4 h-4 animate-spin me-2" />
+            ) : (
+              <Plus className="w-4 h-4 me-2" />
+            )}
+            {t("goals.add")}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
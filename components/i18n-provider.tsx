@@ -0,0 +1,55 @@
+// components/i18n-provider.tsx
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import {
+  LOCALE_COOKIE,
+  createTranslator,
+  localeDir,
+  type Locale,
+  type Translator,
+} from "@/lib/i18n";
+
+type I18nContextValue = Translator & {
+  setLocale: (locale: Locale) => void;
+};
+
+const I18nContext = React.createContext<I18nContextValue | null>(null);
+
+// The layout resolves the first locale on the server (cookie, then Accept-Language); a
+// switch stores the cookie and re-renders the server parts (<html lang>, metadata)
+export function I18nProvider({
+  locale: initialLocale,
+  children,
+}: {
+  locale: Locale;
+  children: React.ReactNode;
+}) {
+  const router = useRouter();
+  const [locale, setLocaleState] = React.useState(initialLocale);
+
+  const setLocale = React.useCallback(
+    (next: Locale) => {
+      document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=31536000; samesite=lax`;
+      document.documentElement.lang = next;
+      document.documentElement.dir = localeDir(next);
+      setLocaleState(next);
+      router.refresh();
+    },
+    [router]
+  );
+
+  const value = React.useMemo(
+    () => ({ ...createTranslator(locale), setLocale }),
+    [locale, setLocale]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n() {
+  const context = React.useContext(I18nContext);
+  if (!context) throw new Error("useI18n must be used within an I18nProvider");
+  return context;
+}
@@ -0,0 +1,43 @@
+// components/locale-switcher.tsx
+"use client";
+
+import { Languages } from "lucide-react";
+
+import { useI18n } from "@/components/i18n-provider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { LOCALES, LOCALE_NAMES, isLocale } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+
+// UI language picker, shown in the dashboard header and on the sign in / setup screens
+export function LocaleSwitcher({ className }: { className?: string }) {
+  const { locale, dir, t, setLocale } = useI18n();
+
+  return (
+    <Select
+      value={locale}
+      onValueChange={(value) => isLocale(value) && setLocale(value)}
+      dir={dir}
+    >
+      <SelectTrigger
+        aria-label={t("language.label")}
+        className={cn("h-9 gap-2 border-white/10 bg-white/5 text-gray-200", className)}
+      >
+        <Languages className="h-4 w-4 text-gray-400" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {LOCALES.map((value) => (
+          <SelectItem key={value} value={value} lang={value}>
+            {LOCALE_NAMES[value]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,265 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { CalendarPlus, Check, Loader2, Pencil } from "lucide-react";
+import { toast } from "sonner";
+
+import { useI18n } from "@/components/i18n-provider";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { SlotPicker } from "@/components/slot-picker";
+import { WeightInput } from "@/components/weight-input";
+import { apiCall, apiErrorMessage, fetchAllEntries } from "@/lib/api";
+import { entryDay } from "@/lib/daily";
+import { localMidday, localToday } from "@/lib/dates";
+import { formatWeight } from "@/lib/units";
+import {
+  parseWeightField,
+  weightEntrySchema,
+  weightEntrySummaryListSchema,
+  type EntrySlot,
+  type WeightEntry,
+  type WeightEntrySummary,
+  type WeightUnit,
+} from "@/lib/schemas";
+
+type LogDayDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  multiWeighIn: boolean;
+  unit: WeightUnit;
+  // Zone the picked days are taken in, see lib/dates.ts
+  timeZone: string;
+  onCreated: (entry: WeightEntry) => void;
+  onEditExisting: (entry: WeightEntrySummary) => void;
+};
+
+export function LogDayDialog({
+  open,
+  onOpenChange,
+  multiWeighIn,
+  unit,
+  timeZone,
+  onCreated,
+  onEditExisting,
+}: LogDayDialogProps) {
+  const i18n = useI18n();
+  const { locale, dir, dateLocale, t, formatDate } = i18n;
+  const [day, setDay] = useState<Date | undefined>(undefined);
+  const [slot, setSlot] = useState<EntrySlot>("morning");
+  const [weight, setWeight] = useState("");
+  const [note, setNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  // Every logged day, not just the dashboard's window, as a lightweight summary
+  const [entries, setEntries] = useState<WeightEntrySummary[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    fetchAllEntries("fields=summary")
+      .then((rows) => {
+        if (!cancelled) setEntries(weightEntrySummaryListSchema.parse(rows));
+      })
+      .catch((err) => console.error(err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  // The calendar works on the browser's dates, entries carry their own day
+  const today = localToday(timeZone);
+  const dayKey = day ? format(day, "yyyy-MM-dd") : null;
+
+  // In multi weigh-in mode only a taken morning / evening slot blocks the day
+  const loggedDays = entries.map((e) => parseISO(entryDay(e, timeZone)));
+  const existing = dayKey
+    ? entries.find(
+        (e) =>
+          entryDay(e, timeZone) === dayKey &&
+          (!multiWeighIn || (slot !== "other" && e.slot === slot))
+      ) || null
+    : null;
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setDay(undefined);
+      setWeight("");
+      setNote("");
+    }
+    onOpenChange(next);
+  };
+
+  const handleSave = async () => {
+    if (!day || !dayKey) return toast.error(t("logDay.pickFirst"));
+
+    const parsed = parseWeightField(weight, unit, i18n);
+    if (parsed.error !== null) return toast.error(parsed.error);
+
+    // Midday keeps the entry on the picked day whatever the DST shift
+    const at = dayKey === today ? new Date() : localMidday(dayKey, timeZone);
+
+    setIsSaving(true);
+
+    try {
+      const created = await apiCall("entries", {
+        method: "POST",
+        body: JSON.stringify({
+          weight: parsed.weight,
+          note: note.trim() || null,
+          date: at.toISOString(),
+          slot: multiWeighIn ? slot : undefined,
+          timezone: timeZone,
+        }),
+      });
+
+      const entry = weightEntrySchema.parse(created);
+      setEntries([entry, ...entries]);
+      onCreated(entry);
+      toast.success(t("logDay.saved", { date: formatDate(day, "short") }));
+      handleOpenChange(false);
+    } catch (err) {
+      console.error(err);
+      toast.error(
+        apiErrorMessage(err, i18n, {
+          fallback: "logDay.failed",
+          conflict: "edit.collision",
+          unit,
+        })
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="bg-gray-950/95 border-white/10 backdrop-blur-xl rounded-3xl max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-white flex items-center gap-2">
+            <CalendarPlus className="w-5 h-5 text-purple-300" />
+            {t("logDay.title")}
+          </DialogTitle>
+          <DialogDescription className="text-gray-400">
+            {t("logDay.description")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-center mt-2">
+          <Calendar
+            mode="single"
+            selected={day}
+            onSelect={setDay}
+            disabled={{ after: parseISO(today) }}
+            locale={dateLocale}
+            dir={dir}
+            modifiers={{ logged: loggedDays }}
+            modifiersClassNames={{
+              logged:
+                "relative after:absolute after:bottom-1 after:left-1/2 after:-translate-x-1/2 after:h-1 after:w-1 after:rounded-full after:bg-emerald-400",
+            }}
+            className="rounded-2xl border border-white/10 bg-white/5"
+          />
+        </div>
+
+        {multiWeighIn && (
+          <div className="mt-4">
+            <SlotPicker value={slot} onChange={setSlot} disabled={!day} />
+          </div>
+        )}
+
+        {existing ? (
+          <div className="mt-4 flex items-center justify-between gap-3 px-4 py-3 rounded-2xl bg-white/5 border border-white/10">
+            <p className="text-sm text-gray-300">
+              {t("logDay.alreadyLogged", {
+                day:
+                  formatDate(day!, "short") +
+                  (multiWeighIn && existing.slot
+                    ? ` (${t(`slot.${existing.slot}`).toLowerCase()})`
+                    : ""),
+              })}{" "}
+              <span className="font-semibold text-white">
+                {formatWeight(existing.weight, unit, 1, locale)}
+              </span>
+            </p>
+            <Button
+              variant="outline"
+              onClick={() => {
+                handleOpenChange(false);
+                onEditExisting(existing);
+              }}
+              className="border-white/10 bg-white/5 hover:bg-white/10 text-gray-200"
+            >
+              <Pencil className="w-4 h-4 me-2" />
+              {t("common.edit")}
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-5 mt-4">
+            <div>
+              <Label className="text-gray-300 mb-2 block">{t("common.weight")}</Label>
+              <WeightInput
+                unit={unit}
+                value={weight}
+                onChange={setWeight}
+                disabled={!day}
+                placeholder={day ? formatDate(day, "weekday") : t("logDay.pickDay")}
+                className="h-12 bg-white/5 border-white/10 text-white"
+              />
+            </div>
+
+            <div>
+              <Label className="text-gray-300 mb-2 block">{t("common.note")}</Label>
+              <Textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                disabled={!day}
+                placeholder={t("common.notePlaceholder")}
+                className="bg-white/5 border-white/10 text-white min-h-[70px]"
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="mt-6 flex justify-end gap-2">
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            className="border-white/10 bg-white/5 hover:bg-white/10 text-gray-200"
+          >
+            {t("common.cancel")}
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || !day || !!existing}
+            className="bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 shadow-xl"
+          >
+            {isSaving ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin me-2" />
+                {t("common.saving")}
+              </>
+            ) : (
+              <>
+                <Check className="w-4 h-4 me-2" />
+                {t("logDay.saveEntry")}
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { CalendarRange, Check } from "lucide-react";
+import type { DateRange } from "react-day-picker";
+
+import { useI18n } from "@/components/i18n-provider";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { customRange, isCustomRange, rangeBounds } from "@/lib/ranges";
+import type { ChartRange } from "@/lib/schemas";
+
+type RangeDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  value: ChartRange;
+  today: string; // "yyyy-MM-dd" in the profile's time zone
+  onApply: (range: ChartRange) => void;
+};
+
+// The picker starts on the custom range in use, if any
+const initialSelection = (value: ChartRange, today: string): DateRange | undefined => {
+  if (!isCustomRange(value)) return undefined;
+  const { from, to } = rangeBounds(value, today);
+  return { from: parseISO(from!), to: parseISO(to!) };
+};
+
+// Custom from / to span for the dashboard chart, e.g. a holiday
+export function RangeDialog({ open, onOpenChange, value, today, onApply }: RangeDialogProps) {
+  const { dir, dateLocale, t, formatDate } = useI18n();
+  const [selection, setSelection] = useState(() => initialSelection(value, today));
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setSelection(initialSelection(value, today));
+    onOpenChange(next);
+  };
+
+  const handleApply = () => {
+    if (!selection?.from) return;
+    // A single picked day is a one-day range
+    const to = selection.to ?? selection.from;
+    onApply(customRange(format(selection.from, "yyyy-MM-dd"), format(to, "yyyy-MM-dd")));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="bg-gray-950/95 border-white/10 backdrop-blur-xl rounded-3xl max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-white flex items-center gap-2">
+            <CalendarRange className="w-5 h-5 text-purple-300" />
+            {t("range.customTitle")}
+          </DialogTitle>
+          <DialogDescription className="text-gray-400">
+            {selection?.from
+              ? t("range.span", {
+                  from: formatDate(selection.from, "medium"),
+                  to: formatDate(selection.to ?? selection.from, "medium"),
+                })
+              : t("range.customDescription")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-center mt-2">
+          <Calendar
+            mode="range"
+            selected={selection}
+            onSelect={setSelection}
+            defaultMonth={selection?.from ?? parseISO(today)}
+            disabled={{ after: parseISO(today) }}
+            locale={dateLocale}
+            dir={dir}
+            className="rounded-2xl border border-white/10 bg-white/5"
+          />
+        </div>
+
+        <DialogFooter className="mt-6 flex justify-end gap-2">
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            className="border-white/10 bg-white/5 hover:bg-white/10 text-gray-200"
+          >
+            {t("common.cancel")}
+          </Button>
+          <Button
+            onClick={handleApply}
+            disabled={!selection?.from}
+            className="bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 shadow-xl"
+          >
+            <Check className="w-4 h-4 me-2" />
+            {t("range.apply")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
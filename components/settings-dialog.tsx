@@ -0,0 +1,531 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format, parseISO, setDay } from "date-fns";
+import { z } from "zod";
+import { Check, Loader2, Settings } from "lucide-react";
+import { toast } from "sonner";
+
+import { useI18n } from "@/components/i18n-provider";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { GoalPhases } from "@/components/goal-phases";
+import { WeightInput } from "@/components/weight-input";
+import { apiCall, apiErrorMessage } from "@/lib/api";
+import { inferGoalDirection } from "@/lib/goals";
+import { formatNumber, parseDecimal, type Translator } from "@/lib/i18n";
+import { MAX_TREND_SMOOTHING, MIN_TREND_SMOOTHING } from "@/lib/trend";
+import {
+  formatWeightChange,
+  fromUnit,
+  toUnit,
+  unitSymbol,
+  weightFieldValue,
+} from "@/lib/units";
+import {
+  DAILY_VALUES,
+  GOAL_DIRECTIONS,
+  WEIGHT_UNITS,
+  goalDirectionInput,
+  parseWeightField,
+  userProfileSchema,
+  type DailyValue,
+  type GoalPhase,
+  type UserChanges,
+  type UserProfile,
+  type WeightUnit,
+} from "@/lib/schemas";
+
+type SettingsDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  user: UserProfile;
+  onSaved: (user: UserProfile) => void;
+  phases: GoalPhase[];
+  onPhasesChange: (phases: GoalPhase[]) => void;
+};
+
+// Form fields are the raw input strings in the profile's unit, checked with the same
+// weight rules as the API and messages in the UI's language
+const weightField = (unit: WeightUnit, i18n: Translator, optional: boolean) =>
+  z.string().superRefine((value, ctx) => {
+    if (optional && !value.trim()) return;
+    const { error } = parseWeightField(value, unit, i18n);
+    if (error) ctx.addIssue({ code: "custom", message: error });
+  });
+
+// Tolerance field text in the unit -> kg
+const toleranceToKg = (value: string, unit: WeightUnit) =>
+  fromUnit(value.trim() ? parseDecimal(value) : 0, unit);
+
+const profileFormSchema = (unit: WeightUnit, i18n: Translator) =>
+  z.object({
+    name: z.string().trim().min(1, i18n.t("settings.nameRequired")).max(80),
+    startWeight: weightField(unit, i18n, false),
+    goalWeight: weightField(unit, i18n, true),
+    goalDirection: goalDirectionInput,
+    goalTolerance: z.string().refine(
+      (value) => {
+        const tolerance = toleranceToKg(value, unit);
+        return tolerance >= 0 && tolerance <= 10;
+      },
+      i18n.t("settings.toleranceRange", {
+        max: formatWeightChange(10, unit, 0, i18n.locale),
+      })
+    ),
+    targetDate: z.string(), // YYYY-MM-DD, empty for none
+  });
+
+type ProfileFormValues = z.infer<ReturnType<typeof profileFormSchema>>;
+
+const inputClass = "h-11 bg-white/5 border-white/10 text-white";
+
+// PATCH /api/user with whatever changed, the dashboard re-renders from the response
+const saveUser = async (changes: UserChanges) =>
+  userProfileSchema.parse(
+    await apiCall("user", { method: "PATCH", body: JSON.stringify(changes) })
+  );
+
+function ProfileForm({ user, onSaved }: Pick<SettingsDialogProps, "user" | "onSaved">) {
+  const i18n = useI18n();
+  const { locale, dir, t } = i18n;
+  const unit = user.weight_unit;
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(profileFormSchema(unit, i18n)),
+    defaultValues: {
+      name: user.name,
+      startWeight: weightFieldValue(user.start_weight, unit, locale),
+      goalWeight: weightFieldValue(user.goal_weight, unit, locale),
+      goalDirection:
+        user.goal_direction ??
+        inferGoalDirection(user.start_weight, user.goal_weight ?? user.start_weight),
+      goalTolerance: formatNumber(toUnit(user.goal_tolerance, unit), 1, locale),
+      targetDate: user.target_date
+        ? format(parseISO(user.target_date), "yyyy-MM-dd")
+        : "",
+    },
+  });
+
+  const onSubmit = async (values: ProfileFormValues) => {
+    // Untouched fields keep the stored kg, rounding to the unit would nudge them
+    const { dirtyFields } = form.formState;
+    const weight = (field: "startWeight" | "goalWeight", stored: number | null) =>
+      !dirtyFields[field]
+        ? stored
+        : values[field].trim()
+          ? parseWeightField(values[field], unit, i18n).weight
+          : null;
+
+    try {
+      const updated = await saveUser({
+        name: values.name,
+        startWeight: weight("startWeight", user.start_weight)!,
+        goalWeight: weight("goalWeight", user.goal_weight),
+        goalDirection: values.goalDirection,
+        goalTolerance: dirtyFields.goalTolerance
+          ? toleranceToKg(values.goalTolerance, unit)
+          : user.goal_tolerance,
+        targetDate: values.targetDate
+          ? parseISO(values.targetDate).toISOString()
+          : null,
+      });
+
+      onSaved(updated);
+      form.reset(values);
+      toast.success(t("settings.saved"));
+    } catch (err) {
+      console.error(err);
+      toast.error(apiErrorMessage(err, i18n, { fallback: "settings.saveFailed", unit }));
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-gray-300">{t("settings.name")}</FormLabel>
+              <FormControl>
+                <Input {...field} className={inputClass} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="startWeight"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-gray-300">{t("settings.startWeight")}</FormLabel>
+                <FormControl>
+                  <WeightInput {...field} unit={unit} className={inputClass} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="goalWeight"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-gray-300">{t("settings.goalWeight")}</FormLabel>
+                <FormControl>
+                  <WeightInput
+                    {...field}
+                    unit={unit}
+                    placeholder={t("settings.noGoal")}
+                    className={inputClass}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="goalDirection"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-gray-300">{t("settings.direction")}</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange} dir={dir}>
+                  <FormControl>
+                    <SelectTrigger className="w-full h-11 border-white/10 bg-white/5 text-gray-200">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {GOAL_DIRECTIONS.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {t(`direction.${value}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="goalTolerance"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-gray-300">
+                  {t("settings.tolerance", { unit: unitSymbol(unit) })}
+                </FormLabel>
+                <FormControl>
+                  <Input
+                    {...field}
+                    type="text"
+                    inputMode="decimal"
+                    className={inputClass}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="targetDate"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-gray-300">{t("settings.targetDate")}</FormLabel>
+              <FormControl>
+                <Input {...field} type="date" className={inputClass} />
+              </FormControl>
+              <FormDescription className="text-gray-500">
+                {t("settings.targetDateHint")}
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end pt-2">
+          <Button
+            type="submit"
+            disabled={form.formState.isSubmitting || !form.formState.isDirty}
+            className="bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 shadow-xl"
+          >
+            {form.formState.isSubmitting ? (
+              <Loader2 className="w-4 h-4 animate-spin me-2" />
+            ) : (
+              <Check className="w-4 h-4 me-2" />
+            )}
+            {t("settings.saveProfile")}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+function WeighInSettings({ user, onSaved }: Pick<SettingsDialogProps, "user" | "onSaved">) {
+  const { locale, dir, dateLocale, t, formatDate } = useI18n();
+  const [isSaving, setIsSaving] = useState(false);
+  // Follows the slider while dragging, saved on release
+  const [smoothing, setSmoothing] = useState(user.trend_smoothing);
+
+  const save = async (changes: UserChanges) => {
+    setIsSaving(true);
+
+    try {
+      onSaved(await saveUser(changes));
+    } catch (err) {
+      console.error(err);
+      toast.error(t("settings.weighInsFailed"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Schedule buttons in the locale's week order, at least one day stays on
+  const weekStartsOn = dateLocale.options?.weekStartsOn ?? 0;
+  const weekdays = Array.from({ length: 7 }, (_, i) => (weekStartsOn + i) % 7);
+  const toggleWeighInDay = (day: number) =>
+    save({
+      weighInDays: user.weigh_in_days.includes(day)
+        ? user.weigh_in_days.filter((d) => d !== day)
+        : [...user.weigh_in_days, day],
+    });
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-3 px-4 py-3 rounded-2xl bg-white/5 border border-white/10">
+        <div>
+          <p className="text-sm text-white">{t("settings.schedule")}</p>
+          <p className="text-xs text-gray-400">{t("settings.scheduleHint")}</p>
+        </div>
+        <div className="grid grid-cols-7 gap-1.5">
+          {weekdays.map((day) => {
+            const selected = user.weigh_in_days.includes(day);
+            return (
+              <Button
+                key={day}
+                variant="outline"
+                size="sm"
+                aria-pressed={selected}
+                disabled={isSaving || (selected && user.weigh_in_days.length === 1)}
+                onClick={() => toggleWeighInDay(day)}
+                className={`border-white/10 rounded-xl px-0 ${
+                  selected
+                    ? "bg-purple-500/30 hover:bg-purple-500/40 text-white"
+                    : "bg-white/5 hover:bg-white/10 text-gray-400"
+                }`}
+              >
+                {formatDate(setDay(new Date(), day), "dayName")}
+              </Button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex justify-between items-center gap-3 px-4 py-3 rounded-2xl bg-white/5 border border-white/10">
+        <div>
+          <p className="text-sm text-white">{t("settings.weighIns")}</p>
+          <p className="text-xs text-gray-400">{t("settings.weighInsHint")}</p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isSaving}
+          onClick={() => save({ multiWeighIn: !user.multi_weigh_in })}
+          className="border-white/10 bg-white/5 hover:bg-white/10 text-gray-200 rounded-xl"
+        >
+          {user.multi_weigh_in ? t("settings.severalADay") : t("settings.onceADay")}
+        </Button>
+      </div>
+
+      <div className="flex justify-between items-center gap-3 px-4 py-3 rounded-2xl bg-white/5 border border-white/10">
+        <div>
+          <p className="text-sm text-white">{t("settings.units")}</p>
+          <p className="text-xs text-gray-400">{t("settings.unitsHint")}</p>
+        </div>
+        <Select
+          value={user.weight_unit}
+          dir={dir}
+          disabled={isSaving}
+          onValueChange={(value) => save({ weightUnit: value as WeightUnit })}
+        >
+          <SelectTrigger
+            size="sm"
+            className="border-white/10 bg-white/5 text-gray-200 rounded-xl"
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {WEIGHT_UNITS.map((value) => (
+              <SelectItem key={value} value={value}>
+                {t(`unit.${value}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {user.multi_weigh_in && (
+        <div className="flex justify-between items-center gap-3 px-4 py-3 rounded-2xl bg-white/5 border border-white/10">
+          <div>
+            <p className="text-sm text-white">{t("settings.dailyValue")}</p>
+            <p className="text-xs text-gray-400">{t("settings.dailyValueHint")}</p>
+          </div>
+          <Select
+            value={user.daily_value}
+            dir={dir}
+            disabled={isSaving}
+            onValueChange={(value) => save({ dailyValue: value as DailyValue })}
+          >
+            <SelectTrigger
+              size="sm"
+              className="border-white/10 bg-white/5 text-gray-200 rounded-xl"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DAILY_VALUES.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {t(`dailyValue.${value}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="space-y-3 px-4 py-3 rounded-2xl bg-white/5 border border-white/10">
+        <div className="flex justify-between items-center gap-3">
+          <div>
+            <p className="text-sm text-white">{t("settings.smoothing")}</p>
+            <p className="text-xs text-gray-400">{t("settings.smoothingHint")}</p>
+          </div>
+          <span className="text-sm text-gray-200 tabular-nums">
+            {formatNumber(smoothing, 2, locale)}
+          </span>
+        </div>
+        <Slider
+          value={[smoothing]}
+          min={MIN_TREND_SMOOTHING}
+          max={MAX_TREND_SMOOTHING}
+          step={0.01}
+          disabled={isSaving}
+          dir={dir}
+          onValueChange={([value]) => setSmoothing(value)}
+          onValueCommit={([value]) => save({ trendSmoothing: value })}
+        />
+      </div>
+    </div>
+  );
+}
+
+export function SettingsDialog({
+  open,
+  onOpenChange,
+  user,
+  onSaved,
+  phases,
+  onPhasesChange,
+}: SettingsDialogProps) {
+  const { locale, dir, t } = useI18n();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-950/95 border-white/10 backdrop-blur-xl rounded-3xl max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-white flex items-center gap-2">
+            <Settings className="w-5 h-5 text-cyan-300" />
+            {t("settings.title")}
+          </DialogTitle>
+          <DialogDescription className="text-gray-400">
+            {t("settings.description")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="profile" dir={dir} className="mt-4">
+          <TabsList className="bg-white/5 border border-white/10 w-full">
+            <TabsTrigger
+              value="profile"
+              className="text-gray-400 data-[state=active]:bg-white/10 data-[state=active]:text-white"
+            >
+              {t("settings.tab.profile")}
+            </TabsTrigger>
+            <TabsTrigger
+              value="goals"
+              className="text-gray-400 data-[state=active]:bg-white/10 data-[state=active]:text-white"
+            >
+              {t("settings.tab.goals")}
+            </TabsTrigger>
+            <TabsTrigger
+              value="weigh-ins"
+              className="text-gray-400 data-[state=active]:bg-white/10 data-[state=active]:text-white"
+            >
+              {t("settings.tab.weighIns")}
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="profile" className="mt-4">
+            {/* Remounted on a unit or language change, the fields hold text in the old one */}
+            <ProfileForm
+              key={`${user.weight_unit}:${locale}`}
+              user={user}
+              onSaved={onSaved}
+            />
+          </TabsContent>
+
+          <TabsContent value="goals" className="mt-4">
+            <GoalPhases
+              phases={phases}
+              unit={user.weight_unit}
+              onChange={onPhasesChange}
+            />
+          </TabsContent>
+
+          <TabsContent value="weigh-ins" className="mt-4">
+            <WeighInSettings user={user} onSaved={onSaved} />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
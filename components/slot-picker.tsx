@@ -0,0 +1,47 @@
+"use client";
+
+import { Clock, Moon, Sunrise } from "lucide-react";
+
+import { useI18n } from "@/components/i18n-provider";
+import { Button } from "@/components/ui/button";
+import { ENTRY_SLOTS, type EntrySlot } from "@/lib/schemas";
+
+const SLOT_ICONS = {
+  morning: Sunrise,
+  evening: Moon,
+  other: Clock,
+};
+
+type SlotPickerProps = {
+  value: EntrySlot;
+  onChange: (slot: EntrySlot) => void;
+  disabled?: boolean;
+};
+
+// Morning / evening / other toggle used wherever an entry is logged in multi weigh-in mode
+export function SlotPicker({ value, onChange, disabled }: SlotPickerProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex gap-2">
+      {ENTRY_SLOTS.map((slot) => {
+        const Icon = SLOT_ICONS[slot];
+        return (
+          <Button
+            key={slot}
+            type="button"
+            variant="outline"
+            disabled={disabled}
+            onClick={() => onChange(slot)}
+            className={`flex-1 border-white/10 bg-white/5 hover:bg-white/10 text-gray-200 rounded-xl ${
+              value === slot ? "ring-2 ring-purple-500/40" : ""
+            }`}
+          >
+            <Icon className="me-2 h-4 w-4" />
+            {t(`slot.${slot}`)}
+          </Button>
+        );
+      })}
+    </div>
+  );
+}
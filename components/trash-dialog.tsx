@@ -0,0 +1,214 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { addDays, differenceInCalendarDays, parseISO } from "date-fns";
+import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { useI18n } from "@/components/i18n-provider";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { apiCall, apiErrorMessage } from "@/lib/api";
+import { formatWeight } from "@/lib/units";
+import {
+  weightEntryListSchema,
+  weightEntrySchema,
+  type WeightEntry,
+  type WeightUnit,
+} from "@/lib/schemas";
+
+type TrashDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  unit: WeightUnit;
+  onRestored: (entry: WeightEntry) => void;
+};
+
+export function TrashDialog({ open, onOpenChange, unit, onRestored }: TrashDialogProps) {
+  const { locale, t, formatDate } = useI18n();
+  // null while loading
+  const [entries, setEntries] = useState<WeightEntry[] | null>(null);
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [busyId, setBusyId] = useState<number | "all" | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    apiCall("entries/trash")
+      .then((data) => {
+        if (cancelled) return;
+        setEntries(weightEntryListSchema.parse(data.entries));
+        setRetentionDays(data.retentionDays);
+      })
+      .catch((err) => {
+        console.error(err);
+        toast.error(t("trash.loadFailed"));
+        if (!cancelled) setEntries([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, t]);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setEntries(null);
+    onOpenChange(next);
+  };
+
+  const handleRestore = async (entry: WeightEntry) => {
+    setBusyId(entry.id);
+
+    try {
+      const restored = weightEntrySchema.parse(
+        await apiCall("entries/trash", {
+          method: "POST",
+          body: JSON.stringify({ entryId: entry.id }),
+        })
+      );
+
+      setEntries((current) => current?.filter((e) => e.id !== entry.id) ?? null);
+      onRestored(restored);
+      toast.success(t("entries.restored"));
+    } catch (err) {
+      console.error(err);
+      toast.error(
+        apiErrorMessage(err, { t, locale }, {
+          fallback: "trash.restoreFailed",
+          conflict: "entries.collision",
+        })
+      );
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (entry?: WeightEntry) => {
+    setBusyId(entry?.id ?? "all");
+
+    try {
+      await apiCall(
+        entry ? `entries/trash?id=${entry.id}` : "entries/trash?all=true",
+        { method: "DELETE" }
+      );
+
+      setEntries((current) =>
+        entry ? (current?.filter((e) => e.id !== entry.id) ?? null) : []
+      );
+    } catch (err) {
+      console.error(err);
+      toast.error(t("common.deleteFailed"));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Days left before the retention sweep removes it
+  const daysLeft = (entry: WeightEntry) =>
+    Math.max(
+      0,
+      differenceInCalendarDays(
+        addDays(parseISO(entry.deleted_at!), retentionDays),
+        new Date()
+      )
+    );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="bg-gray-950/95 border-white/10 backdrop-blur-xl rounded-3xl max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-white flex items-center gap-2">
+            <Trash2 className="w-5 h-5 text-red-300" />
+            {t("trash.title")}
+          </DialogTitle>
+          <DialogDescription className="text-gray-400">
+            {t("trash.description", { count: retentionDays })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 mt-4 max-h-[360px] overflow-y-auto">
+          {entries === null ? (
+            <div className="flex justify-center py-10">
+              <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+            </div>
+          ) : entries.length > 0 ? (
+            entries.map((entry) => (
+              <div
+                key={entry.id}
+                className="flex items-center justify-between gap-3 px-4 py-3 rounded-2xl bg-white/5 border border-white/10"
+              >
+                <div>
+                  <p className="text-white font-semibold">
+                    {formatWeight(entry.weight, unit, 1, locale)}
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    {formatDate(entry.date, "medium")}
+                    {entry.slot && ` · ${t(`slot.${entry.slot}`)}`} ·{" "}
+                    {t("common.daysLeft", { count: daysLeft(entry) })}
+                  </p>
+                </div>
+
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={busyId !== null}
+                    onClick={() => handleRestore(entry)}
+                    className="border-white/10 bg-white/5 hover:bg-white/10 text-gray-200"
+                  >
+                    <RotateCcw className="w-4 h-4 me-1" />
+                    {t("common.restore")}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={busyId !== null}
+                    onClick={() => handlePurge(entry)}
+                    className="border-red-500/30 bg-red-500/10 text-red-300 hover:bg-red-500/20"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          ) : (
+            <div className="text-center py-10 text-gray-400">
+              {t("trash.empty")}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="mt-6 flex justify-between sm:justify-between gap-3">
+          <Button
+            variant="outline"
+            disabled={busyId !== null || !entries?.length}
+            onClick={() => handlePurge()}
+            className="border-red-500/30 bg-red-500/10 text-red-300 hover:bg-red-500/20"
+          >
+            {busyId === "all" ? (
+              <Loader2 className="w-4 h-4 animate-spin me-2" />
+            ) : (
+              <Trash2 className="w-4 h-4 me-2" />
+            )}
+            {t("trash.emptyAction")}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            className="border-white/10 bg-white/5 hover:bg-white/10 text-gray-200"
+          >
+            {t("common.close")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { unitSymbol } from "@/lib/units";
+import type { WeightUnit } from "@/lib/schemas";
+
+type WeightInputProps = Omit<React.ComponentProps<"input">, "value" | "onChange" | "type"> & {
+  value: string;
+  onChange: (value: string) => void;
+  unit: WeightUnit;
+};
+
+const suffixClass =
+  "pointer-events-none absolute end-3 top-1/2 -translate-y-1/2 text-sm text-gray-400";
+
+// Weight field in the profile's unit. The value is the raw text parseWeightField() reads:
+// one number for kg / lb, "st lb" for stones, which get an input each. Text inputs with a
+// decimal keyboard rather than type="number", which rejects "72,5" in most browsers
+export function WeightInput({
+  value,
+  onChange,
+  unit,
+  className,
+  placeholder,
+  required,
+  ...props
+}: WeightInputProps) {
+  if (unit !== "st") {
+    return (
+      <div className="relative">
+        <Input
+          {...props}
+          type="text"
+          inputMode="decimal"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          required={required}
+          className={cn("pe-10", className)}
+        />
+        <span className={suffixClass}>{unitSymbol(unit)}</span>
+      </div>
+    );
+  }
+
+  const [stones = "", pounds = ""] = value.split(" ");
+  // Both empty is an empty field, anything else keeps the separator
+  const join = (st: string, lb: string) => (st || lb ? `${st} ${lb}` : "");
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <div className="relative">
+        <Input
+          {...props}
+          type="text"
+          inputMode="numeric"
+          value={stones}
+          onChange={(e) => onChange(join(e.target.value, pounds))}
+          placeholder={placeholder}
+          className={cn("pe-10", className)}
+        />
+        <span className={suffixClass}>st</span>
+      </div>
+      <div className="relative">
+        <Input
+          type="text"
+          inputMode="decimal"
+          value={pounds}
+          onChange={(e) => onChange(join(stones, e.target.value))}
+          disabled={props.disabled}
+          className={cn("pe-10", className)}
+        />
+        <span className={suffixClass}>lb</span>
+      </div>
+    </div>
+  );
+}
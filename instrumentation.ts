@@ -0,0 +1,14 @@
+// instrumentation.ts
+// Runs once when the Next.js server boots (dev, `next start` and the Electron standalone server)
+export async function register() {
+  // Keep the import inside this check so it's stripped from the edge bundle
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    if (process.env.DB_MIGRATE_ON_START !== "false") {
+      const { ensureMigrated } = await import("@/lib/migrate");
+      await ensureMigrated();
+    }
+
+    const { scheduleTrashSweep } = await import("@/lib/trash");
+    scheduleTrashSweep();
+  }
+}
@@ -0,0 +1,98 @@
+// lib/api.ts
+// Client-side fetch wrapper for the routes under app/api
+import type { MessageKey, Translator } from "@/lib/i18n";
+import { MAX_WEIGHT_KG, MIN_WEIGHT_KG, type WeightUnit } from "@/lib/schemas";
+import { formatWeight, formatWeightChange } from "@/lib/units";
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    // A 400's rejected fields, see validationErrorResponse in lib/validate.ts
+    public fieldErrors: Record<string, string[] | undefined> = {}
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export const apiCall = async (endpoint: string, options: RequestInit = {}) => {
+  const response = await fetch(`/api/${endpoint}`, {
+    headers: { "Content-Type": "application/json" },
+    ...options,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new ApiError(
+      error.error || "API request failed",
+      response.status,
+      error.fieldErrors
+    );
+  }
+
+  return response.json();
+};
+
+// Walks every page of GET /api/entries; `query` carries the filters (from, to, fields)
+export const fetchAllEntries = async (query = ""): Promise<unknown[]> => {
+  const entries: unknown[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const params = new URLSearchParams(query);
+    if (cursor) params.set("cursor", cursor);
+
+    const page = await apiCall(`entries?${params}`);
+    entries.push(...page.entries);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return entries;
+};
+
+// Request body fields the API validates, by the message the UI shows for them
+const FIELD_MESSAGES: Record<string, MessageKey> = {
+  weight: "validation.weight",
+  startWeight: "validation.weight",
+  goalWeight: "validation.weight",
+  targetWeight: "validation.weight",
+  tolerance: "settings.toleranceRange",
+  goalTolerance: "settings.toleranceRange",
+  note: "validation.note",
+  name: "validation.name",
+  email: "validation.email",
+  password: "validation.password",
+  date: "validation.date",
+  targetDate: "validation.date",
+  startDay: "validation.date",
+  endDay: "validation.endDay",
+};
+
+// The toast for a failed call, in the UI's language rather than the API's English: a 409
+// is the caller's `conflict`, a 400 names the first rejected field and anything else
+// (or a 400 without a known field) falls back
+export function apiErrorMessage(
+  err: unknown,
+  { t, locale }: Pick<Translator, "t" | "locale">,
+  {
+    fallback,
+    conflict,
+    unit = "kg",
+  }: { fallback: MessageKey; conflict?: MessageKey; unit?: WeightUnit }
+) {
+  if (!(err instanceof ApiError)) return t(fallback);
+  if (err.status === 409 && conflict) return t(conflict);
+  if (err.status !== 400) return t(fallback);
+
+  const field = Object.keys(err.fieldErrors).find((f) => err.fieldErrors[f]?.length);
+  const key = (field && FIELD_MESSAGES[field]) || "validation.invalid";
+  return t(key, {
+    min: formatWeight(MIN_WEIGHT_KG, unit, 0, locale),
+    // Tolerance is capped at 10 kg (toleranceInput)
+    max:
+      key === "settings.toleranceRange"
+        ? formatWeightChange(10, unit, 0, locale)
+        : formatWeight(MAX_WEIGHT_KG, unit, 0, locale),
+  });
+}
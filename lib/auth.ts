@@ -0,0 +1,72 @@
+// lib/auth.ts
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { cookies } from "next/headers";
+import { db } from "@/lib/db";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+export const SESSION_COOKIE = "weightwise_session";
+const SESSION_DAYS = 30;
+const KEY_LENGTH = 64;
+
+// ==================== PASSWORDS ====================
+// Stored as "scrypt$<salt>$<hash>" so the scheme can change later
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [scheme, saltHex, hashHex] = stored.split("$");
+  if (scheme !== "scrypt" || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scryptAsync(password, Buffer.from(saltHex, "hex"), expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// ==================== SESSIONS ====================
+// Only a hash of the token is stored, a leaked sessions table can't be replayed
+const hashToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+export async function startSession(userId: number) {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + SESSION_DAYS * 24 * 60 * 60 * 1000);
+
+  await db.createSession(hashToken(token), userId, expiresAt.toISOString());
+
+  const cookieStore = await cookies();
+  cookieStore.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: expiresAt,
+  });
+}
+
+export async function endSession() {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(SESSION_COOKIE)?.value;
+
+  if (token) await db.deleteSession(hashToken(token));
+  cookieStore.delete(SESSION_COOKIE);
+}
+
+// Signed-in profile for the current request, undefined when logged out
+export async function getSessionUser() {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(SESSION_COOKIE)?.value;
+  if (!token) return undefined;
+
+  return db.getSessionUser(hashToken(token));
+}
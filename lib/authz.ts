@@ -0,0 +1,57 @@
+// lib/authz.ts
+import { NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+import { db, type DBUserProfile } from "@/lib/db";
+
+// 401 = not signed in, 403 = someone else's row, 404 = no such row
+export class AccessError extends Error {
+  constructor(
+    message: string,
+    public status: 401 | 403 | 404
+  ) {
+    super(message);
+    this.name = "AccessError";
+  }
+}
+
+export async function requireUser() {
+  const user = await getSessionUser();
+  if (!user) throw new AccessError("Not signed in", 401);
+  return user;
+}
+
+// Every entry mutation goes through here before touching the row. Trash operations
+// (restore, purge) look the entry up among deleted ones instead
+export async function requireEntryOwner(
+  user: DBUserProfile,
+  entryId: number,
+  { inTrash = false }: { inTrash?: boolean } = {}
+) {
+  const entry = inTrash
+    ? await db.getTrashedWeightEntry(entryId)
+    : await db.getWeightEntry(entryId);
+
+  if (!entry) throw new AccessError("Entry not found", 404);
+  if (Number(entry.user_id) !== Number(user.id)) {
+    throw new AccessError("You don't have access to this entry", 403);
+  }
+
+  return entry;
+}
+
+export async function requireGoalOwner(user: DBUserProfile, goalId: number) {
+  const goal = await db.getGoalPhase(goalId);
+
+  if (!goal) throw new AccessError("Goal not found", 404);
+  if (Number(goal.user_id) !== Number(user.id)) {
+    throw new AccessError("You don't have access to this goal", 403);
+  }
+
+  return goal;
+}
+
+// Turns an AccessError into its JSON response, null for anything else
+export function accessErrorResponse(err: unknown) {
+  if (!(err instanceof AccessError)) return null;
+  return NextResponse.json({ error: err.message }, { status: err.status });
+}
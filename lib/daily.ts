@@ -0,0 +1,58 @@
+// lib/daily.ts
+// Collapses weigh-ins into one value per local day. Outside multi weigh-in mode every day
+// holds a single entry, so the daily value is just that entry's weight.
+import { localDayKey } from "@/lib/dates";
+import type { DailyValue, EntrySlot, WeightEntry } from "@/lib/schemas";
+
+export type DailyWeight = {
+  day: string; // YYYY-MM-DD
+  date: string; // timestamp of the day's first reading
+  weight: number;
+  readings: WeightEntry[]; // oldest first
+};
+
+// Before noon is morning, from 5pm it's evening
+export const slotForHour = (hour: number): EntrySlot =>
+  hour < 12 ? "morning" : hour >= 17 ? "evening" : "other";
+
+// Entries kept from before migration 003 may have no day, their timestamp's day in
+// `timeZone` (the profile's) stands in
+export const entryDay = (entry: Pick<WeightEntry, "day" | "date">, timeZone: string) =>
+  entry.day ?? localDayKey(new Date(entry.date), timeZone);
+
+const byDate = (a: WeightEntry, b: WeightEntry) =>
+  new Date(a.date).getTime() - new Date(b.date).getTime();
+
+export function dailyValue(readings: WeightEntry[], mode: DailyValue) {
+  if (mode === "min") return Math.min(...readings.map((r) => r.weight));
+  if (mode === "average") {
+    return readings.reduce((sum, r) => sum + r.weight, 0) / readings.length;
+  }
+  return readings[0].weight;
+}
+
+// One point per logged day, newest first like the entry list
+export function dailyWeights(
+  entries: WeightEntry[],
+  mode: DailyValue,
+  timeZone: string
+): DailyWeight[] {
+  const days = new Map<string, WeightEntry[]>();
+
+  for (const entry of entries) {
+    const key = entryDay(entry, timeZone);
+    days.set(key, [...(days.get(key) ?? []), entry]);
+  }
+
+  return [...days.entries()]
+    .map(([day, list]) => {
+      const readings = [...list].sort(byDate);
+      return {
+        day,
+        date: readings[0].date,
+        weight: dailyValue(readings, mode),
+        readings,
+      };
+    })
+    .sort((a, b) => b.day.localeCompare(a.day));
+}
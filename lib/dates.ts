@@ -0,0 +1,107 @@
+// lib/dates.ts
+// Calendar-day helpers. Days are taken in an IANA time zone ("Europe/Paris"): the one a
+// client sends with an entry, or the profile's (migration 011), so the server and every
+// browser see the same days the user does, DST shifts included.
+
+type WallClock = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function wallClock(date: Date, timeZone: string): WallClock {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(
+    formatter.formatToParts(date).map((part) => [part.type, Number(part.value)])
+  );
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+// Minutes `timeZone` is ahead of UTC at that instant
+function zoneOffset(date: Date, timeZone: string) {
+  const { year, month, day, hour, minute, second } = wallClock(date, timeZone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60_000);
+}
+
+// The instant a wall clock in `timeZone` shows `clock`. The offset is taken twice so a
+// time next to a DST shift lands on the right side of it
+function fromWallClock(clock: WallClock, timeZone: string, ms = 0) {
+  const asUtc =
+    Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second) + ms;
+  const guess = asUtc - zoneOffset(new Date(asUtc), timeZone) * 60_000;
+  return new Date(asUtc - zoneOffset(new Date(guess), timeZone) * 60_000);
+}
+
+const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+
+export function isTimeZone(value: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Zone of this runtime: the device's in a browser
+export const currentTimeZone = () =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+// "YYYY-MM-DD" of `date` on a wall clock in `timeZone`
+export function localDayKey(date: Date, timeZone: string) {
+  const { year, month, day } = wallClock(date, timeZone);
+  return `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+}
+
+export const localToday = (timeZone: string) => localDayKey(new Date(), timeZone);
+
+// Midday of `day` in `timeZone`, a safe timestamp for entries logged after the fact
+export function localMidday(day: string, timeZone: string) {
+  const [year, month, dayOfMonth] = day.split("-").map(Number);
+  return fromWallClock(
+    { year, month, day: dayOfMonth, hour: 12, minute: 0, second: 0 },
+    timeZone
+  );
+}
+
+// Same clock time in `timeZone`, different calendar day ("yyyy-MM-dd")
+export function withLocalDay(date: Date, day: string, timeZone: string) {
+  const [year, month, dayOfMonth] = day.split("-").map(Number);
+  return fromWallClock(
+    { ...wallClock(date, timeZone), year, month, day: dayOfMonth },
+    timeZone,
+    date.getTime() % 1000
+  );
+}
+
+// Hour (0-23) of `date` on a wall clock in `timeZone`
+export function localHour(date: Date, timeZone: string) {
+  return wallClock(date, timeZone).hour;
+}
@@ -1,91 +1,514 @@
 // lib/db.ts
-import { neon } from "@neondatabase/serverless";
+import { getDriver, sql } from "@/lib/drivers";
+import { inferGoalDirection } from "@/lib/goals";
+import {
+  entryRevisionSchema,
+  goalPhaseSchema,
+  userProfileSchema,
+  weightEntrySchema,
+  type EntryRevision,
+  type EntrySlot,
+  type EntrySnapshot,
+  type GoalDirection,
+  type GoalPhase,
+  type RevisionAction,
+  type UserChanges,
+  type UserProfile,
+  type WeightEntry,
+  type WeightUnit,
+} from "@/lib/schemas";
 
-if (!process.env.NEON_DATABASE_URL) {
-  throw new Error("NEON_DATABASE_URL is not defined in environment variables");
-}
+export type DBUserProfile = UserProfile;
+export type DBWeightEntry = WeightEntry;
 
-const sql = neon(process.env.NEON_DATABASE_URL);
+// Every row is normalized here (numeric strings, Date objects) before leaving the module.
+// password_hash is dropped by the schema, use getCredentials() to check a login
+const toProfile = (row: unknown) =>
+  row ? userProfileSchema.parse(row) : undefined;
 
-export type DBUserProfile = {
-  id: number;
-  name: string;
-  start_weight: number;
-  goal_weight: number | null;
-  start_date: string;
-  target_date: string | null;
-  created_at: string;
-  updated_at: string;
-};
+const toEntry = (row: unknown) =>
+  row ? weightEntrySchema.parse(row) : undefined;
+
+const toRevision = (row: unknown) =>
+  row ? entryRevisionSchema.parse(row) : undefined;
 
-export type DBWeightEntry = {
+const toGoalPhase = (row: unknown) =>
+  row ? goalPhaseSchema.parse(row) : undefined;
+
+const snapshotOf = ({ weight, note, date, day, slot }: WeightEntry): EntrySnapshot => ({
+  weight,
+  note,
+  date,
+  day,
+  slot,
+});
+
+// Appends to the entry's audit trail (migration 006). An update that changed nothing is
+// not worth a row, so re-saving the same values stays quiet
+async function recordRevision(
+  action: RevisionAction,
+  entry: WeightEntry,
+  before?: WeightEntry
+) {
+  const oldValues = before ? JSON.stringify(snapshotOf(before)) : null;
+  const newValues = action === "delete" ? null : JSON.stringify(snapshotOf(entry));
+  if (action === "update" && oldValues === newValues) return;
+
+  await sql`
+    INSERT INTO entry_revisions (entry_id, user_id, action, old_values, new_values, created_at)
+    VALUES (${entry.id}, ${entry.user_id}, ${action}, ${oldValues}, ${newValues}, ${new Date().toISOString()})
+  `;
+}
+
+type Credentials = {
   id: number;
-  user_id: number;
-  date: string;
-  weight: number;
-  note: string | null;
-  created_at: string;
+  password_hash: string | null;
+  deleted_at: string | Date | null;
 };
 
 export const db = {
-  async createUser(name: string, startWeight: number, goalWeight: number | null, targetDate?: string) {
+  async ping() {
+    const driver = await getDriver();
+    const result = await sql<{ current_time: string }>`
+      SELECT CURRENT_TIMESTAMP AS "current_time"
+    `;
+    return { driver: driver.name, current_time: result[0]?.current_time };
+  },
+
+  // Without a direction the goal points the way it lies from the start weight
+  async createUser(
+    name: string,
+    startWeight: number,
+    goalWeight: number | null,
+    targetDate?: string | null,
+    credentials?: { email: string; passwordHash: string },
+    options: {
+      direction?: GoalDirection | null;
+      tolerance?: number;
+      weightUnit?: WeightUnit;
+      timezone?: string;
+    } = {}
+  ) {
+    const direction =
+      goalWeight == null
+        ? null
+        : (options.direction ?? inferGoalDirection(startWeight, goalWeight));
+
     const result = await sql`
-      INSERT INTO user_profiles (name, start_weight, goal_weight, target_date)
-      VALUES (${name}, ${startWeight}, ${goalWeight}, ${targetDate})
+      INSERT INTO user_profiles (name, start_weight, goal_weight, goal_direction, goal_tolerance, target_date, weight_unit, timezone, email, password_hash)
+      VALUES (${name}, ${startWeight}, ${goalWeight}, ${direction}, ${options.tolerance ?? 0}, ${targetDate}, ${options.weightUnit ?? "kg"}, ${options.timezone ?? "UTC"}, ${credentials?.email}, ${credentials?.passwordHash})
       RETURNING *
     `;
-    return result[0] as DBUserProfile;
+    return toProfile(result[0]) as DBUserProfile;
   },
 
   async getUser(userId: number) {
     const result = await sql`
-      SELECT * FROM user_profiles WHERE id = ${userId}
+      SELECT * FROM user_profiles WHERE id = ${userId} AND deleted_at IS NULL
+    `;
+    return toProfile(result[0]);
+  },
+
+  // Includes closed accounts (deleted_at set) so signing in can restore them
+  async getCredentials(email: string) {
+    const result = await sql<Credentials>`
+      SELECT id, password_hash, deleted_at FROM user_profiles WHERE email = ${email}
+    `;
+    return result[0] as Credentials | undefined;
+  },
+
+  // Only the given fields change. The goal and target date can be cleared with null, which
+  // COALESCE can't tell from "not given", so those are merged here instead; a goal left
+  // without a direction gets the one it implies, as in createUser()
+  async updateUser(userId: number, changes: UserChanges) {
+    const current = await this.getUser(userId);
+    if (!current) return undefined;
+
+    const pick = <T>(change: T | undefined, stored: T) =>
+      change === undefined ? stored : change;
+
+    const startWeight = changes.startWeight ?? current.start_weight;
+    const goalWeight = pick(changes.goalWeight, current.goal_weight);
+    const direction =
+      goalWeight == null
+        ? null
+        : (pick(changes.goalDirection, current.goal_direction) ??
+          inferGoalDirection(startWeight, goalWeight));
+    const targetDate = pick(changes.targetDate, current.target_date);
+
+    const result = await sql`
+      UPDATE user_profiles
+      SET name = COALESCE(${changes.name}, name),
+          start_weight = ${startWeight},
+          goal_weight = ${goalWeight},
+          goal_direction = ${direction},
+          goal_tolerance = COALESCE(${changes.goalTolerance}, goal_tolerance),
+          target_date = ${targetDate},
+          multi_weigh_in = COALESCE(${changes.multiWeighIn}, multi_weigh_in),
+          daily_value = COALESCE(${changes.dailyValue}, daily_value),
+          trend_smoothing = COALESCE(${changes.trendSmoothing}, trend_smoothing),
+          weight_unit = COALESCE(${changes.weightUnit}, weight_unit),
+          timezone = COALESCE(${changes.timezone}, timezone),
+          chart_range = COALESCE(${changes.chartRange}, chart_range),
+          weigh_in_days = COALESCE(${changes.weighInDays?.join("")}, weigh_in_days),
+          updated_at = ${new Date().toISOString()}
+      WHERE id = ${userId}
+      RETURNING *
     `;
-    return result[0] as DBUserProfile | undefined;
+    return toProfile(result[0]);
   },
 
+  // Closes the account: signs out every device and leaves the rows for the retention
+  // period, see restoreUser() / purgeUser()
   async deleteUser(userId: number) {
-    await sql`DELETE FROM user_profiles WHERE id = ${userId}`;
+    await sql`DELETE FROM sessions WHERE user_id = ${userId}`;
+    await sql`
+      UPDATE user_profiles SET deleted_at = ${new Date().toISOString()}
+      WHERE id = ${userId}
+    `;
     return true;
   },
 
-  async createWeightEntry(userId: number, weight: number, note?: string) {
+  async restoreUser(userId: number) {
+    await sql`UPDATE user_profiles SET deleted_at = NULL WHERE id = ${userId}`;
+    return true;
+  },
+
+  // Removes a closed account for good (entries and sessions cascade)
+  async purgeUser(userId: number) {
+    await sql`
+      DELETE FROM user_profiles WHERE id = ${userId} AND deleted_at IS NOT NULL
+    `;
+    return true;
+  },
+
+  async createSession(sessionId: string, userId: number, expiresAt: string) {
+    await sql`
+      INSERT INTO sessions (id, user_id, expires_at)
+      VALUES (${sessionId}, ${userId}, ${expiresAt})
+    `;
+    return true;
+  },
+
+  async getSessionUser(sessionId: string) {
     const result = await sql`
-      INSERT INTO weight_entries (user_id, weight, note)
-      VALUES (${userId}, ${weight}, ${note})
+      SELECT user_profiles.* FROM sessions
+      JOIN user_profiles ON user_profiles.id = sessions.user_id
+      WHERE sessions.id = ${sessionId} AND sessions.expires_at > ${new Date().toISOString()}
+        AND user_profiles.deleted_at IS NULL
+    `;
+    return toProfile(result[0]);
+  },
+
+  async deleteSession(sessionId: string) {
+    await sql`DELETE FROM sessions WHERE id = ${sessionId}`;
+    return true;
+  },
+
+  async deleteExpiredSessions() {
+    await sql`DELETE FROM sessions WHERE expires_at <= ${new Date().toISOString()}`;
+    return true;
+  },
+
+  // Throws a unique violation (see isUniqueViolation) when `day`, or its morning / evening
+  // slot, is already logged
+  async createWeightEntry(
+    userId: number,
+    weight: number,
+    note: string | null | undefined,
+    date: string,
+    day: string,
+    slot: EntrySlot | null = null
+  ) {
+    const result = await sql`
+      INSERT INTO weight_entries (user_id, weight, note, date, day, slot)
+      VALUES (${userId}, ${weight}, ${note}, ${date}, ${day}, ${slot})
       RETURNING *
     `;
-    return result[0] as DBWeightEntry;
+    const entry = toEntry(result[0]) as DBWeightEntry;
+    await recordRevision("create", entry);
+    return entry;
+  },
+
+  // Live entries only, trashed ones are read through getTrashedWeightEntry()
+  async getWeightEntry(entryId: number) {
+    const result = await sql`
+      SELECT * FROM weight_entries WHERE id = ${entryId} AND deleted_at IS NULL
+    `;
+    return toEntry(result[0]);
+  },
+
+  async getTrashedWeightEntry(entryId: number) {
+    const result = await sql`
+      SELECT * FROM weight_entries WHERE id = ${entryId} AND deleted_at IS NOT NULL
+    `;
+    return toEntry(result[0]);
+  },
+
+  // Entry logged on a local day, optionally ignoring one entry (the one being edited)
+  async getWeightEntryByDay(userId: number, day: string, excludeId?: number) {
+    const result = await sql`
+      SELECT * FROM weight_entries
+      WHERE user_id = ${userId} AND day = ${day} AND id <> ${excludeId ?? 0}
+        AND deleted_at IS NULL
+    `;
+    return toEntry(result[0]);
+  },
+
+  // Morning / evening reading of a local day (those two slots are unique per day)
+  async getWeightEntryBySlot(
+    userId: number,
+    day: string,
+    slot: EntrySlot,
+    excludeId?: number
+  ) {
+    const result = await sql`
+      SELECT * FROM weight_entries
+      WHERE user_id = ${userId} AND day = ${day} AND slot = ${slot} AND id <> ${excludeId ?? 0}
+        AND deleted_at IS NULL
+    `;
+    return toEntry(result[0]);
+  },
+
+  // Idempotent create-or-replace of a day's entry; an existing row keeps its timestamp.
+  // The ON CONFLICT targets repeat the partial unique indexes from migration 005
+  async upsertWeightEntryForDay(
+    userId: number,
+    day: string,
+    weight: number,
+    note: string | null | undefined,
+    date: string,
+    slot?: "morning" | "evening"
+  ) {
+    // The row the upsert is about to overwrite, if any, for the audit trail
+    const existing = slot
+      ? await sql`
+          SELECT * FROM weight_entries
+          WHERE user_id = ${userId} AND day = ${day} AND slot = ${slot} AND deleted_at IS NULL
+        `
+      : await sql`
+          SELECT * FROM weight_entries
+          WHERE user_id = ${userId} AND day = ${day} AND slot IS NULL AND deleted_at IS NULL
+        `;
+    const before = toEntry(existing[0]);
+    const result = slot
+      ? await sql`
+          INSERT INTO weight_entries (user_id, weight, note, date, day, slot)
+          VALUES (${userId}, ${weight}, ${note}, ${date}, ${day}, ${slot})
+          ON CONFLICT (user_id, day, slot)
+            WHERE slot IN ('morning', 'evening') AND deleted_at IS NULL
+          DO UPDATE
+          SET weight = excluded.weight,
+              note = excluded.note
+          RETURNING *
+        `
+      : await sql`
+          INSERT INTO weight_entries (user_id, weight, note, date, day)
+          VALUES (${userId}, ${weight}, ${note}, ${date}, ${day})
+          ON CONFLICT (user_id, day) WHERE slot IS NULL AND deleted_at IS NULL
+          DO UPDATE
+          SET weight = excluded.weight,
+              note = excluded.note
+          RETURNING *
+        `;
+    const entry = toEntry(result[0]) as DBWeightEntry;
+    await recordRevision(before ? "update" : "create", entry, before);
+    return entry;
+  },
+
+  // Newest first, keyset-paginated on (date, id) after the `after` entry. Bounds are local
+  // days, so rows kept without one from before migration 003 only show up unbounded
+  async listWeightEntries(
+    userId: number,
+    {
+      from,
+      to,
+      limit,
+      after,
+    }: {
+      from?: string;
+      to?: string;
+      limit: number;
+      after?: { date: string; id: number };
+    }
+  ) {
+    const result = await sql`
+      SELECT * FROM weight_entries
+      WHERE user_id = ${userId} AND deleted_at IS NULL
+        AND (CAST(${from} AS TEXT) IS NULL OR day >= ${from})
+        AND (CAST(${to} AS TEXT) IS NULL OR day <= ${to})
+        AND (
+          CAST(${after?.date} AS TEXT) IS NULL
+          OR date < ${after?.date}
+          OR (date = ${after?.date} AND id < ${after?.id})
+        )
+      ORDER BY date DESC, id DESC
+      LIMIT ${limit}
+    `;
+    return result.map((row) => toEntry(row) as DBWeightEntry);
   },
 
   async getWeightEntries(userId: number) {
     const result = await sql`
       SELECT * FROM weight_entries
-      WHERE user_id = ${userId}
+      WHERE user_id = ${userId} AND deleted_at IS NULL
       ORDER BY date DESC
     `;
-    return result as DBWeightEntry[];
+    return result.map((row) => toEntry(row) as DBWeightEntry);
+  },
+
+  // Keeps the stored date and day unless new ones are given; the slot is always written
+  // (NULL is a real value there), pass the entry's current one to keep it
+  async updateWeightEntry(
+    userId: number,
+    entryId: number,
+    weight: number,
+    note: string | null | undefined,
+    date: string | null | undefined,
+    day: string | null | undefined,
+    slot: EntrySlot | null
+  ) {
+    const before = await this.getWeightEntry(entryId);
+    const result = await sql`
+      UPDATE weight_entries
+      SET weight = ${weight},
+          note = ${note},
+          date = COALESCE(${date}, date),
+          day = COALESCE(${day}, day),
+          slot = ${slot}
+      WHERE id = ${entryId} AND user_id = ${userId} AND deleted_at IS NULL
+      RETURNING *
+    `;
+    const entry = toEntry(result[0]);
+    if (entry) await recordRevision("update", entry, before);
+    return entry;
   },
 
-  async deleteWeightEntries(userId: number) {
-    await sql`DELETE FROM weight_entries WHERE user_id = ${userId}`;
+  // Moves the entry to the trash, restoreWeightEntry() undoes it
+  async deleteWeightEntry(userId: number, entryId: number) {
+    const result = await sql`
+      UPDATE weight_entries SET deleted_at = ${new Date().toISOString()}
+      WHERE id = ${entryId} AND user_id = ${userId} AND deleted_at IS NULL
+      RETURNING *
+    `;
+    const entry = toEntry(result[0]);
+    if (entry) await recordRevision("delete", entry, entry);
     return true;
   },
 
-  // ✅ NEW: Update entry
-  async updateWeightEntry(entryId: number, weight: number, note?: string) {
+  // Throws a unique violation when the day (or slot) has been logged again meanwhile
+  async restoreWeightEntry(userId: number, entryId: number) {
+    const result = await sql`
+      UPDATE weight_entries SET deleted_at = NULL
+      WHERE id = ${entryId} AND user_id = ${userId} AND deleted_at IS NOT NULL
+      RETURNING *
+    `;
+    const entry = toEntry(result[0]);
+    if (entry) await recordRevision("restore", entry);
+    return entry;
+  },
+
+  // Oldest first, so the first one is the entry as originally logged
+  async getEntryRevisions(entryId: number) {
+    const result = await sql`
+      SELECT * FROM entry_revisions
+      WHERE entry_id = ${entryId}
+      ORDER BY created_at ASC, id ASC
+    `;
+    return result.map((row) => toRevision(row) as EntryRevision);
+  },
+
+  async getEntryRevision(entryId: number, revisionId: number) {
+    const result = await sql`
+      SELECT * FROM entry_revisions WHERE id = ${revisionId} AND entry_id = ${entryId}
+    `;
+    return toRevision(result[0]);
+  },
+
+  // Puts a live entry back the way a revision left it, and records that as a revision of
+  // its own. Throws a unique violation when the snapshot's day (or slot) is taken since
+  async revertWeightEntry(userId: number, entryId: number, snapshot: EntrySnapshot) {
+    const before = await this.getWeightEntry(entryId);
     const result = await sql`
       UPDATE weight_entries
-      SET weight = ${weight}, note = ${note}, date = NOW()
-      WHERE id = ${entryId}
+      SET weight = ${snapshot.weight},
+          note = ${snapshot.note},
+          date = ${snapshot.date},
+          day = ${snapshot.day},
+          slot = ${snapshot.slot}
+      WHERE id = ${entryId} AND user_id = ${userId} AND deleted_at IS NULL
       RETURNING *
     `;
-    return result[0] as DBWeightEntry;
+    const entry = toEntry(result[0]);
+    if (entry) await recordRevision("revert", entry, before);
+    return entry;
   },
 
-  // ✅ NEW: Delete one entry
-  async deleteWeightEntry(entryId: number) {
-    await sql`DELETE FROM weight_entries WHERE id = ${entryId}`;
+  // Most recently deleted first
+  async getTrashedWeightEntries(userId: number) {
+    const result = await sql`
+      SELECT * FROM weight_entries
+      WHERE user_id = ${userId} AND deleted_at IS NOT NULL
+      ORDER BY deleted_at DESC
+    `;
+    return result.map((row) => toEntry(row) as DBWeightEntry);
+  },
+
+  // Permanent; without an entry id the whole trash is emptied
+  async purgeWeightEntries(userId: number, entryId?: number) {
+    await sql`
+      DELETE FROM weight_entries
+      WHERE user_id = ${userId} AND deleted_at IS NOT NULL
+        AND (CAST(${entryId} AS INTEGER) IS NULL OR id = ${entryId})
+    `;
+    return true;
+  },
+
+  // In start order, see lib/goals.ts for how they chain
+  async getGoalPhases(userId: number) {
+    const result = await sql`
+      SELECT * FROM goal_phases WHERE user_id = ${userId}
+      ORDER BY start_day ASC, id ASC
+    `;
+    return result.map((row) => toGoalPhase(row) as GoalPhase);
+  },
+
+  async getGoalPhase(goalId: number) {
+    const result = await sql`SELECT * FROM goal_phases WHERE id = ${goalId}`;
+    return toGoalPhase(result[0]);
+  },
+
+  async createGoalPhase(
+    userId: number,
+    phase: GoalDirection,
+    targetWeight: number,
+    tolerance: number,
+    startDay: string,
+    endDay: string | null | undefined
+  ) {
+    const result = await sql`
+      INSERT INTO goal_phases (user_id, phase, target_weight, tolerance, start_day, end_day)
+      VALUES (${userId}, ${phase}, ${targetWeight}, ${tolerance}, ${startDay}, ${endDay})
+      RETURNING *
+    `;
+    return toGoalPhase(result[0]) as GoalPhase;
+  },
+
+  async deleteGoalPhase(userId: number, goalId: number) {
+    await sql`DELETE FROM goal_phases WHERE id = ${goalId} AND user_id = ${userId}`;
+    return true;
+  },
+
+  // Retention sweep across every account (see lib/trash.ts)
+  async purgeDeletedBefore(cutoff: string) {
+    await sql`
+      DELETE FROM weight_entries
+      WHERE deleted_at IS NOT NULL AND deleted_at < ${cutoff}
+    `;
+    await sql`
+      DELETE FROM user_profiles
+      WHERE deleted_at IS NOT NULL AND deleted_at < ${cutoff}
+    `;
     return true;
   },
 };
@@ -0,0 +1,105 @@
+// lib/drivers/index.ts
+import path from "path";
+import type { DriverName, SqlDriver, SqlRow, SqlStatement } from "./types";
+
+export type { DriverName, SqlDialect, SqlDriver, SqlRow, SqlStatement } from "./types";
+
+const DRIVERS: DriverName[] = ["neon", "postgres", "sqlite"];
+
+// Explicit DB_DRIVER wins, otherwise whichever URL is configured, else the local file
+export function resolveDriverName(): DriverName {
+  const configured = process.env.DB_DRIVER?.trim().toLowerCase();
+
+  if (configured) {
+    if (!DRIVERS.includes(configured as DriverName)) {
+      throw new Error(
+        `Unsupported DB_DRIVER "${configured}" (expected one of: ${DRIVERS.join(", ")})`
+      );
+    }
+    return configured as DriverName;
+  }
+
+  if (process.env.NEON_DATABASE_URL) return "neon";
+  if (process.env.DATABASE_URL) return "postgres";
+  return "sqlite";
+}
+
+async function createDriver(name: DriverName): Promise<SqlDriver> {
+  switch (name) {
+    case "neon": {
+      if (!process.env.NEON_DATABASE_URL) {
+        throw new Error("NEON_DATABASE_URL is not defined in environment variables");
+      }
+      const { createNeonDriver } = await import("./neon");
+      return createNeonDriver(process.env.NEON_DATABASE_URL);
+    }
+
+    case "postgres": {
+      if (!process.env.DATABASE_URL) {
+        throw new Error("DATABASE_URL is not defined in environment variables");
+      }
+      const { createPostgresDriver } = await import("./postgres");
+      return createPostgresDriver(process.env.DATABASE_URL);
+    }
+
+    case "sqlite": {
+      const { createSqliteDriver } = await import("./sqlite");
+      return createSqliteDriver(
+        process.env.SQLITE_PATH || path.join(process.cwd(), "data", "weightwise.db")
+      );
+    }
+  }
+}
+
+// Survives dev hot reloads so we don't leak connections / file handles
+const globalForDb = globalThis as unknown as {
+  dbDriver?: Promise<SqlDriver>;
+};
+
+export function getDriver(): Promise<SqlDriver> {
+  if (!globalForDb.dbDriver) {
+    globalForDb.dbDriver = createDriver(resolveDriverName()).catch((err) => {
+      globalForDb.dbDriver = undefined;
+      throw err;
+    });
+  }
+  return globalForDb.dbDriver;
+}
+
+// Compiles a tagged template to the active driver's placeholder style without running it,
+// e.g. to batch it into driver.transaction()
+export async function statement(
+  strings: TemplateStringsArray,
+  ...values: unknown[]
+): Promise<SqlStatement> {
+  const driver = await getDriver();
+
+  const text = strings.reduce(
+    (acc, part, i) => acc + driver.placeholder(i) + part
+  );
+  const params = values.map((v) => (v === undefined ? null : v));
+
+  return { text, params };
+}
+
+// Tagged template that runs on the active driver, see statement()
+export async function sql<T = SqlRow>(
+  strings: TemplateStringsArray,
+  ...values: unknown[]
+): Promise<T[]> {
+  const driver = await getDriver();
+  const { text, params } = await statement(strings, ...values);
+
+  return driver.query<T>(text, params);
+}
+
+// Postgres 23505 / SQLite SQLITE_CONSTRAINT_UNIQUE (or _PRIMARYKEY), whichever driver
+// raised it
+export function isUniqueViolation(err: unknown) {
+  const code = (err as { code?: unknown } | null)?.code;
+  return (
+    code === "23505" ||
+    code === "SQLITE_CONSTRAINT_UNIQUE" ||
+    code === "SQLITE_CONSTRAINT_PRIMARYKEY"
+  );
+}
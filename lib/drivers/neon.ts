@@ -0,0 +1,23 @@
+// lib/drivers/neon.ts
+import { neon } from "@neondatabase/serverless";
+import type { SqlDriver, SqlRow } from "./types";
+
+export function createNeonDriver(connectionString: string): SqlDriver {
+  const client = neon(connectionString);
+
+  return {
+    name: "neon",
+    dialect: "postgres",
+    placeholder: (index) => `$${index}`,
+    async query<T = SqlRow>(text: string, params: unknown[] = []) {
+      const rows = await client(text, params);
+      return rows as T[];
+    },
+    // Sent as one batch over HTTP, Neon runs it as a single transaction
+    async transaction(statements) {
+      await client.transaction(
+        statements.map(({ text, params = [] }) => client(text, params))
+      );
+    },
+  };
+}
@@ -0,0 +1,41 @@
+// lib/drivers/postgres.ts
+import { Pool } from "pg";
+import type { SqlDriver, SqlRow } from "./types";
+
+export function createPostgresDriver(connectionString: string): SqlDriver {
+  const pool = new Pool({
+    connectionString,
+    max: Number(process.env.DATABASE_POOL_SIZE) || 10,
+  });
+
+  pool.on("error", (err) => {
+    console.error("Postgres pool error:", err);
+  });
+
+  return {
+    name: "postgres",
+    dialect: "postgres",
+    placeholder: (index) => `$${index}`,
+    async query<T = SqlRow>(text: string, params: unknown[] = []) {
+      const result = await pool.query(text, params);
+      return result.rows as T[];
+    },
+    // BEGIN / COMMIT only hold on one connection, so the pool hands out a dedicated client
+    async transaction(statements) {
+      const client = await pool.connect();
+
+      try {
+        await client.query("BEGIN");
+        for (const { text, params } of statements) {
+          await client.query(text, params);
+        }
+        await client.query("COMMIT");
+      } catch (err) {
+        await client.query("ROLLBACK").catch(() => undefined);
+        throw err;
+      } finally {
+        client.release();
+      }
+    },
+  };
+}
@@ -0,0 +1,45 @@
+// lib/drivers/sqlite.ts
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import type { SqlDriver, SqlRow } from "./types";
+
+export function createSqliteDriver(filename: string): SqlDriver {
+  fs.mkdirSync(path.dirname(filename), { recursive: true });
+
+  const database = new Database(filename);
+  database.pragma("journal_mode = WAL");
+  database.pragma("foreign_keys = ON");
+
+  const execute = (text: string, params: unknown[] = []) => {
+    const statement = database.prepare(text);
+    // better-sqlite3 refuses to bind booleans, BOOLEAN columns are stored as 0/1
+    const values = params.map((v) => (typeof v === "boolean" ? Number(v) : v));
+
+    // SELECT and RETURNING statements hand back rows, everything else just runs
+    if (statement.reader) {
+      return statement.all(...values);
+    }
+
+    statement.run(...values);
+    return [];
+  };
+
+  return {
+    name: "sqlite",
+    dialect: "sqlite",
+    placeholder: () => "?",
+    async query<T = SqlRow>(text: string, params: unknown[] = []) {
+      return execute(text, params) as T[];
+    },
+    // IMMEDIATE takes the write lock up front, another process waits for it (up to
+    // better-sqlite3's 5 s busy timeout) instead of interleaving
+    async transaction(statements) {
+      database
+        .transaction(() => {
+          for (const { text, params } of statements) execute(text, params);
+        })
+        .immediate();
+    },
+  };
+}
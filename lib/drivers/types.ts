@@ -0,0 +1,18 @@
+// lib/drivers/types.ts
+export type DriverName = "neon" | "postgres" | "sqlite";
+
+export type SqlDialect = "postgres" | "sqlite";
+
+export type SqlRow = Record<string, unknown>;
+
+export type SqlStatement = { text: string; params?: unknown[] };
+
+export interface SqlDriver {
+  name: DriverName;
+  dialect: SqlDialect;
+  // Positional parameter marker for the 1-based index, e.g. "$1" or "?"
+  placeholder(index: number): string;
+  query<T = SqlRow>(text: string, params?: unknown[]): Promise<T[]>;
+  // Runs the statements in one transaction: either all of them apply or none does
+  transaction(statements: SqlStatement[]): Promise<void>;
+}
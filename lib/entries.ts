@@ -0,0 +1,69 @@
+// lib/entries.ts
+// Editing an entry from the client: the dashboard's edit dialog and the history table share
+// the checks and the PATCH /api/entries body built here.
+import { entryDay } from "@/lib/daily";
+import { withLocalDay } from "@/lib/dates";
+import { weightFieldValue } from "@/lib/units";
+import type { EntrySlot, UpdateEntryInput, WeightEntry, WeightUnit } from "@/lib/schemas";
+
+// The order GET /api/entries lists them in
+export const newestFirst = (a: WeightEntry, b: WeightEntry) =>
+  new Date(b.date).getTime() - new Date(a.date).getTime();
+
+export type EntryEdit = {
+  weightField: string; // raw field text in the profile's unit
+  weight: number; // that text parsed to kg
+  note: string;
+  day: string; // YYYY-MM-DD
+  slot?: EntrySlot; // multi weigh-in mode only
+};
+
+type EditContext = {
+  unit: WeightUnit;
+  locale: string;
+  timeZone: string;
+  multiWeighIn: boolean;
+};
+
+// Another entry the edit would clash with: one on the same day, or in multi weigh-in mode
+// the same morning / evening reading. The server checks this too and has the last word
+export function findCollision(
+  entries: WeightEntry[],
+  entry: WeightEntry,
+  edit: Pick<EntryEdit, "day" | "slot">,
+  { timeZone, multiWeighIn }: Pick<EditContext, "timeZone" | "multiWeighIn">
+) {
+  const slot = edit.slot ?? entry.slot;
+
+  return (
+    entries.find(
+      (e) =>
+        e.id !== entry.id &&
+        entryDay(e, timeZone) === edit.day &&
+        (!multiWeighIn || (slot !== "other" && e.slot === slot))
+    ) ?? null
+  );
+}
+
+// An untouched weight keeps the stored kg (rounding to the unit would nudge it) and an
+// untouched day the stored timestamp; a new day keeps the time of day
+export function entryEditPayload(
+  entry: WeightEntry,
+  edit: EntryEdit,
+  { unit, locale, timeZone, multiWeighIn }: EditContext
+): UpdateEntryInput {
+  return {
+    entryId: entry.id,
+    weight:
+      edit.weightField === weightFieldValue(entry.weight, unit, locale)
+        ? entry.weight
+        : edit.weight,
+    note: edit.note || null,
+    date:
+      edit.day === entryDay(entry, timeZone)
+        ? undefined
+        : withLocalDay(new Date(entry.date), edit.day, timeZone).toISOString(),
+    slot: multiWeighIn ? edit.slot : undefined,
+    timezone: timeZone,
+  };
+}
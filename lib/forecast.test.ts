@@ -0,0 +1,89 @@
+// lib/forecast.test.ts
+import { describe, expect, it } from "vitest";
+import { fitTrend, forecastGoal } from "@/lib/forecast";
+import { daily, everyDay } from "@/test/fixtures";
+
+// 85 kg on March 1st, down 0.1 kg a day to 83.6 on the 15th
+const losing = everyDay("2026-03-01", "2026-03-15", (i) => 85 - i * 0.1);
+
+const noGoal = { weight: null, direction: null, targetDate: null };
+
+describe("fitTrend", () => {
+  it("needs three points spanning a week", () => {
+    expect(fitTrend([])).toBeNull();
+    expect(fitTrend(daily(["2026-03-01", 85], ["2026-03-15", 84]))).toBeNull();
+    expect(fitTrend(everyDay("2026-03-10", "2026-03-15", () => 85))).toBeNull();
+  });
+
+  it("fits a straight line exactly", () => {
+    const fit = fitTrend(losing)!;
+
+    expect(fit.origin).toBe("2026-03-15");
+    expect(fit.intercept).toBeCloseTo(83.6);
+    expect(fit.slope).toBeCloseTo(-0.1);
+    expect(fit.slopeSd).toBeCloseTo(0);
+  });
+
+  it("only looks at the last few weeks", () => {
+    const old = everyDay("2025-12-01", "2025-12-31", () => 100);
+    const fit = fitTrend([...losing, ...old])!;
+
+    expect(fit.slope).toBeCloseTo(-0.1);
+  });
+});
+
+describe("forecastGoal", () => {
+  it("is null without enough to fit", () => {
+    expect(forecastGoal(daily(["2026-03-15", 80]), noGoal, "UTC")).toBeNull();
+  });
+
+  it("projects the day the trend reaches the goal", () => {
+    const forecast = forecastGoal(
+      losing,
+      { weight: 80.05, direction: "lose", targetDate: null },
+      "UTC"
+    )!;
+
+    // 3.55 kg to go at 0.1 kg a day: 36 days
+    expect(forecast.goalDate).toBe("2026-04-20");
+    expect(forecast.goalDateEarliest).toBe("2026-04-20");
+    expect(forecast.goalDateLatest).toBe("2026-04-20");
+    expect(forecast.slope).toBeCloseTo(-0.7);
+    expect(forecast.from).toBe("2026-02-02");
+    expect(forecast.to).toBe("2026-03-15");
+    expect(forecast.projection).toHaveLength(37);
+    expect(forecast.projection[0].day).toBe("2026-03-15");
+  });
+
+  it("has no goal date when the trend heads away or the goal is maintaining", () => {
+    const away = forecastGoal(
+      losing,
+      { weight: 90, direction: "gain", targetDate: null },
+      "UTC"
+    )!;
+    expect(away.goalDate).toBeNull();
+    expect(away.projection).toHaveLength(29);
+
+    const hold = forecastGoal(
+      losing,
+      { weight: 83, direction: "maintain", targetDate: null },
+      "UTC"
+    )!;
+    expect(hold.goalDate).toBeNull();
+  });
+
+  it("reads the target date in the profile's time zone", () => {
+    const goal = {
+      weight: 80.05,
+      direction: "lose" as const,
+      targetDate: "2026-06-30T23:30:00.000Z",
+    };
+
+    expect(forecastGoal(losing, goal, "UTC")?.targetDate).toBe("2026-06-30");
+
+    const paris = forecastGoal(losing, goal, "Europe/Paris")!;
+    expect(paris.targetDate).toBe("2026-07-01");
+    // April 20th is 72 days ahead of July 1st
+    expect(paris.daysBehind).toBe(-72);
+  });
+});
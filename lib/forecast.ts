@@ -0,0 +1,146 @@
+// lib/forecast.ts
+// Goal-date forecast behind GET /api/stats: a weighted least-squares line through the last
+// few weeks of daily values, recent days counting more (exponential decay), projected
+// forward with a confidence band on the trend.
+import { addDays, differenceInCalendarDays, format, parseISO, subWeeks } from "date-fns";
+import type { DailyWeight } from "@/lib/daily";
+import { localDayKey } from "@/lib/dates";
+import type { GoalDirection, WeightForecast } from "@/lib/schemas";
+
+export const FORECAST_WEEKS = 6;
+// A reading this many days old weighs half as much as today's
+const HALF_LIFE_DAYS = 14;
+// ~80% two-sided interval
+const Z = 1.28;
+// How far past the last point the projection is drawn, at most
+const MAX_HORIZON_DAYS = 120;
+const DEFAULT_HORIZON_DAYS = 28;
+// Further out than this a goal date means little, it's reported as out of sight
+const MAX_GOAL_DAYS = 730;
+
+const dayKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+export type TrendFit = {
+  origin: string; // newest day, x = 0
+  intercept: number; // fitted weight at the origin
+  slope: number; // kg per day
+  slopeSd: number;
+  // Standard error of the fitted line at x days from the origin
+  sdAt: (x: number) => number;
+};
+
+// `days` newest first. Needs at least 3 points spanning a week, null otherwise
+export function fitTrend(days: DailyWeight[], weeks = FORECAST_WEEKS): TrendFit | null {
+  if (!days.length) return null;
+
+  const origin = days[0].day;
+  const since = dayKey(subWeeks(parseISO(origin), weeks));
+  const points = days
+    .filter((d) => d.day > since)
+    .map((d) => ({
+      x: differenceInCalendarDays(parseISO(d.day), parseISO(origin)),
+      y: d.weight,
+    }));
+
+  if (points.length < 3 || -points[points.length - 1].x < 7) return null;
+
+  const ws = points.map((p) => 0.5 ** (-p.x / HALF_LIFE_DAYS));
+  const sumW = ws.reduce((a, b) => a + b, 0);
+  const sumW2 = ws.reduce((a, b) => a + b * b, 0);
+  const xBar = points.reduce((a, p, i) => a + ws[i] * p.x, 0) / sumW;
+  const yBar = points.reduce((a, p, i) => a + ws[i] * p.y, 0) / sumW;
+
+  let sxx = 0;
+  let sxy = 0;
+  for (let i = 0; i < points.length; i++) {
+    sxx += ws[i] * (points[i].x - xBar) ** 2;
+    sxy += ws[i] * (points[i].x - xBar) * (points[i].y - yBar);
+  }
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  const intercept = yBar - slope * xBar;
+
+  // Residual variance corrected for the effective sample size of the weights
+  const nEff = (sumW * sumW) / sumW2;
+  const rss = points.reduce(
+    (a, p, i) => a + ws[i] * (p.y - (intercept + slope * p.x)) ** 2,
+    0
+  );
+  const variance = nEff > 2 ? (rss / sumW) * (nEff / (nEff - 2)) : 0;
+
+  const sxx2 = points.reduce((a, p, i) => a + ws[i] ** 2 * (p.x - xBar) ** 2, 0);
+  const slopeVar = (variance * sxx2) / (sxx * sxx);
+  const meanVar = (variance * sumW2) / (sumW * sumW);
+
+  return {
+    origin,
+    intercept,
+    slope,
+    slopeSd: Math.sqrt(slopeVar),
+    sdAt: (x) => Math.sqrt(meanVar + (x - xBar) ** 2 * slopeVar),
+  };
+}
+
+// Days from the origin until a line with this slope reaches the target, null when it
+// heads the other way (or is flat)
+const daysToReach = (fit: TrendFit, slope: number, target: number) => {
+  const x = (target - fit.intercept) / slope;
+  return Number.isFinite(x) && x > 0 ? Math.ceil(x) : null;
+};
+
+export function forecastGoal(
+  days: DailyWeight[],
+  goal: {
+    weight: number | null;
+    direction: GoalDirection | null;
+    targetDate: string | null;
+  },
+  timeZone: string // the profile's, the target date is a timestamp
+): WeightForecast | null {
+  const fit = fitTrend(days);
+  if (!fit) return null;
+
+  const origin = parseISO(fit.origin);
+  const toDay = (x: number) => dayKey(addDays(origin, x));
+
+  // Maintaining has no date to reach, only losing / gaining goals are projected
+  const projects =
+    goal.weight != null && (goal.direction === "lose" || goal.direction === "gain");
+  const sign = goal.direction === "gain" ? 1 : -1;
+
+  const reach = (slope: number) =>
+    projects ? daysToReach(fit, slope, goal.weight!) : null;
+
+  const x = reach(fit.slope);
+  // A steeper trend gets there sooner; a flatter one may never
+  const fast = reach(fit.slope + sign * Z * fit.slopeSd);
+  const slow = reach(fit.slope - sign * Z * fit.slopeSd);
+
+  const goalDate = x !== null && x <= MAX_GOAL_DAYS ? toDay(x) : null;
+  const targetDay = goal.targetDate
+    ? localDayKey(new Date(goal.targetDate), timeZone)
+    : null;
+
+  const horizon = Math.min(MAX_HORIZON_DAYS, Math.max(7, x ?? DEFAULT_HORIZON_DAYS));
+  const projection = Array.from({ length: horizon + 1 }, (_, i) => {
+    const weight = fit.intercept + fit.slope * i;
+    const spread = Z * fit.sdAt(i);
+    return { day: toDay(i), weight, low: weight - spread, high: weight + spread };
+  });
+
+  return {
+    from: toDay(1 - FORECAST_WEEKS * 7),
+    to: fit.origin,
+    slope: fit.slope * 7,
+    goalDate,
+    goalDateEarliest: fast !== null && goalDate ? toDay(Math.min(fast, x!)) : null,
+    goalDateLatest: slow !== null && goalDate ? toDay(Math.max(slow, x!)) : null,
+    targetDate: targetDay,
+    daysBehind:
+      goalDate && targetDay
+        ? differenceInCalendarDays(parseISO(goalDate), parseISO(targetDay))
+        : null,
+    projection,
+  };
+}
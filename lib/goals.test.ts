@@ -0,0 +1,153 @@
+// lib/goals.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  goalStatus,
+  inferGoalDirection,
+  isTowardGoal,
+  phaseOn,
+  phaseProgress,
+} from "@/lib/goals";
+import { daily, goalPhase } from "@/test/fixtures";
+
+describe("phaseOn", () => {
+  const cut = goalPhase({ phase: "lose", target_weight: 80, start_day: "2026-01-01" });
+  const hold = goalPhase({
+    phase: "maintain",
+    target_weight: 80,
+    start_day: "2026-02-01",
+    end_day: "2026-02-28",
+  });
+
+  it("picks the latest phase started by that day", () => {
+    expect(phaseOn([hold, cut], "2026-01-15")).toBe(cut);
+    expect(phaseOn([hold, cut], "2026-02-01")).toBe(hold);
+  });
+
+  it("has nothing before the first phase or once the latest has ended", () => {
+    expect(phaseOn([cut, hold], "2025-12-31")).toBeUndefined();
+    expect(phaseOn([cut, hold], "2026-03-01")).toBeUndefined();
+    expect(phaseOn([], "2026-03-01")).toBeUndefined();
+  });
+});
+
+describe("inferGoalDirection", () => {
+  it("follows where the goal lies from the start", () => {
+    expect(inferGoalDirection(90, 80)).toBe("lose");
+    expect(inferGoalDirection(70, 80)).toBe("gain");
+    expect(inferGoalDirection(80, 80)).toBe("maintain");
+  });
+});
+
+describe("isTowardGoal", () => {
+  it("reads a change against the direction", () => {
+    expect(isTowardGoal("lose", -0.5)).toBe(true);
+    expect(isTowardGoal("gain", -0.5)).toBe(false);
+    expect(isTowardGoal("maintain", -0.5, 1)).toBe(true);
+    expect(isTowardGoal("maintain", 1.5, 1)).toBe(false);
+  });
+
+  it("counts down as good without a goal", () => {
+    expect(isTowardGoal(null, -0.1)).toBe(true);
+    expect(isTowardGoal(null, 0.1)).toBe(false);
+  });
+});
+
+describe("goalStatus", () => {
+  const on = (weight: number) => daily(["2026-03-15", weight]);
+
+  it("measures the weight covered since the start", () => {
+    expect(goalStatus("lose", 80, 0, 90, on(85))).toEqual({
+      progress: 50,
+      remaining: 5,
+      onTarget: false,
+    });
+    expect(goalStatus("gain", 80, 0, 70, on(75))).toEqual({
+      progress: 50,
+      remaining: 5,
+      onTarget: false,
+    });
+  });
+
+  it("is reached past the target or within the tolerance", () => {
+    expect(goalStatus("lose", 80, 0, 90, on(79))).toEqual({
+      progress: 100,
+      remaining: 0,
+      onTarget: true,
+    });
+
+    const close = goalStatus("lose", 80, 0.5, 90, on(80.4))!;
+    expect(close.onTarget).toBe(true);
+    expect(close.progress).toBe(100);
+  });
+
+  it("stays at 0 when moving away or starting past the target", () => {
+    expect(goalStatus("lose", 80, 0, 90, on(92))?.progress).toBe(0);
+    expect(goalStatus("lose", 80, 0, 78, on(85))?.progress).toBe(0);
+  });
+
+  it("measures maintaining as the share of days within the band", () => {
+    const days = daily(["2026-03-13", 80.2], ["2026-03-14", 81], ["2026-03-15", 79.9]);
+    const status = goalStatus("maintain", 80, 0.5, 80, days)!;
+
+    expect(status.progress).toBeCloseTo(200 / 3);
+    expect(status.remaining).toBe(0);
+    expect(status.onTarget).toBe(true);
+  });
+
+  it("is null without days", () => {
+    expect(goalStatus("lose", 80, 0, 90, [])).toBeNull();
+  });
+});
+
+describe("phaseProgress", () => {
+  const phase = goalPhase({
+    phase: "lose",
+    target_weight: 80,
+    start_day: "2026-03-05",
+    end_day: "2026-03-20",
+  });
+
+  it("starts from the last value logged before the phase", () => {
+    const days = daily(
+      ["2026-03-01", 90],
+      ["2026-03-04", 88],
+      ["2026-03-06", 86],
+      ["2026-03-10", 84]
+    );
+
+    expect(phaseProgress(phase, days, "2026-03-12")).toMatchObject({
+      startWeight: 88,
+      currentWeight: 84,
+      progress: 50,
+      remaining: 4,
+      onTarget: false,
+      daysLeft: 8,
+    });
+  });
+
+  it("starts from its first value when nothing came before", () => {
+    const days = daily(["2026-03-06", 86], ["2026-03-10", 84]);
+    const progress = phaseProgress(phase, days, "2026-03-12")!;
+
+    expect(progress.startWeight).toBe(86);
+    expect(progress.progress).toBeCloseTo(100 / 3);
+  });
+
+  it("stands still when nothing was logged since it started", () => {
+    const days = daily(["2026-03-01", 90], ["2026-03-04", 88]);
+
+    expect(phaseProgress(phase, days, "2026-03-12")).toMatchObject({
+      startWeight: 88,
+      currentWeight: 88,
+      progress: 0,
+    });
+  });
+
+  it("counts days left down to 0, none without an end day", () => {
+    const days = daily(["2026-03-10", 84]);
+
+    expect(phaseProgress(phase, days, "2026-03-25")?.daysLeft).toBe(0);
+    expect(phaseProgress({ ...phase, end_day: null }, days, "2026-03-12")?.daysLeft).toBeNull();
+    expect(phaseProgress(phase, [], "2026-03-12")).toBeNull();
+  });
+});
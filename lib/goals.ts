@@ -0,0 +1,124 @@
+// lib/goals.ts
+// Goal phases (migration 007). Phases are read in start order and one lasts until its end
+// day or until the next one starts, so when two overlap the later start wins. Shared by
+// GET /api/stats and the dashboard chart.
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import type { DailyWeight } from "@/lib/daily";
+import type { GoalDirection, GoalPhase, PhaseProgress } from "@/lib/schemas";
+
+export const byStartDay = (a: GoalPhase, b: GoalPhase) =>
+  a.start_day.localeCompare(b.start_day) || a.id - b.id;
+
+// Phase in force on a local day ("yyyy-MM-dd"), if any
+export function phaseOn(phases: GoalPhase[], day: string) {
+  const started = [...phases].sort(byStartDay).filter((p) => p.start_day <= day);
+  const latest = started[started.length - 1];
+  return latest && (!latest.end_day || latest.end_day >= day) ? latest : undefined;
+}
+
+// When a goal comes without a direction: whichever way the target lies from the start
+export function inferGoalDirection(startWeight: number, goalWeight: number): GoalDirection {
+  if (goalWeight < startWeight) return "lose";
+  if (goalWeight > startWeight) return "gain";
+  return "maintain";
+}
+
+// Whether a change in kg (total, weekly...) moves the right way for the goal. Maintaining
+// only needs it to stay within the band; without a goal down counts as good, as it always
+// has on the dashboard
+export function isTowardGoal(
+  direction: GoalDirection | null,
+  change: number,
+  tolerance = 0
+) {
+  if (direction === "gain") return change > 0;
+  if (direction === "maintain") return Math.abs(change) <= tolerance;
+  return change < 0;
+}
+
+export type GoalStatus = {
+  progress: number;
+  remaining: number;
+  onTarget: boolean;
+};
+
+// Progress towards a target, shared by the profile goal and the phases. `days` are the
+// daily values the goal covers, newest first: losing / gaining measures the weight covered
+// since `startWeight`, maintaining the share of those days spent within the band
+export function goalStatus(
+  direction: GoalDirection,
+  target: number,
+  tolerance: number,
+  startWeight: number,
+  days: DailyWeight[]
+): GoalStatus | null {
+  const current = days[0];
+  if (!current) return null;
+
+  const gap = current.weight - target;
+
+  if (direction === "maintain") {
+    const held = days.filter((d) => Math.abs(d.weight - target) <= tolerance);
+    return {
+      progress: (held.length / days.length) * 100,
+      remaining: Math.max(0, Math.abs(gap) - tolerance),
+      onTarget: Math.abs(gap) <= tolerance,
+    };
+  }
+
+  // Signed so that "down" is progress when losing and "up" when gaining
+  const sign = direction === "lose" ? 1 : -1;
+  const total = (startWeight - target) * sign;
+  const done = (startWeight - current.weight) * sign;
+  const onTarget = gap * sign <= tolerance;
+
+  return {
+    progress: onTarget
+      ? 100
+      : total <= 0
+        ? 0
+        : Math.min(100, Math.max(0, (done / total) * 100)),
+    remaining: Math.max(0, gap * sign),
+    onTarget,
+  };
+}
+
+// `days` newest first, as everywhere else. The phase starts from the last daily value
+// logged on or before its start day, or its first one when nothing came before
+export function phaseProgress(
+  phase: GoalPhase,
+  days: DailyWeight[],
+  today: string
+): PhaseProgress | null {
+  const before = days.find((d) => d.day <= phase.start_day);
+  const inPhase = days.filter(
+    (d) => d.day >= phase.start_day && (!phase.end_day || d.day <= phase.end_day)
+  );
+  const start = before ?? inPhase[inPhase.length - 1];
+  if (!start) return null;
+
+  // Nothing logged since it started: the phase stands where the last one left off
+  const covered = inPhase.length ? inPhase : [start];
+  const status = goalStatus(
+    phase.phase,
+    phase.target_weight,
+    phase.tolerance,
+    start.weight,
+    covered
+  )!;
+
+  return {
+    id: phase.id,
+    phase: phase.phase,
+    targetWeight: phase.target_weight,
+    tolerance: phase.tolerance,
+    startDay: phase.start_day,
+    endDay: phase.end_day,
+    startWeight: start.weight,
+    currentWeight: covered[0].weight,
+    ...status,
+    daysLeft: phase.end_day
+      ? Math.max(0, differenceInCalendarDays(parseISO(phase.end_day), parseISO(today)))
+      : null,
+  };
+}
@@ -0,0 +1,93 @@
+// lib/i18n/index.ts
+// Languages of the UI. The locale lives in a cookie so the root layout can render the right
+// <html lang dir> on the server, and the same translator is used on both sides. The API
+// keeps answering in English: its messages are for developers, the UI has its own.
+import { format, parseISO, type Locale as DateLocale } from "date-fns";
+import { ar as arDate, enUS, fr as frDate } from "date-fns/locale";
+import ar from "./messages/ar";
+import en, { type MessageKey, type Messages } from "./messages/en";
+import fr from "./messages/fr";
+
+export type { MessageKey } from "./messages/en";
+export { formatNumber, parseDecimal } from "./numbers";
+
+export const LOCALES = ["en", "fr", "ar"] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+export const LOCALE_COOKIE = "ww_locale";
+
+// Each language under its own name, as the switcher shows them
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  fr: "Français",
+  ar: "العربية",
+};
+
+const CATALOGS: Record<Locale, Messages> = { en, fr, ar };
+const DATE_LOCALES: Record<Locale, DateLocale> = { en: enUS, fr: frDate, ar: arDate };
+
+export const isLocale = (value: unknown): value is Locale =>
+  LOCALES.includes(value as Locale);
+
+export const localeDir = (locale: Locale): "ltr" | "rtl" =>
+  locale === "ar" ? "rtl" : "ltr";
+
+// The cookie wins, then the first supported language the browser asks for
+export function resolveLocale(
+  cookie: string | undefined,
+  acceptLanguage: string | null
+): Locale {
+  if (isLocale(cookie)) return cookie;
+
+  const requested = (acceptLanguage ?? "")
+    .split(",")
+    .map((part) => part.split(";")[0].trim().split("-")[0].toLowerCase());
+  return requested.find(isLocale) ?? DEFAULT_LOCALE;
+}
+
+export type DatePattern =
+  | "long"
+  | "medium"
+  | "mediumTime"
+  | "short"
+  | "axis"
+  | "weekday"
+  | "dayName"
+  | "month"
+  | "time";
+
+type Vars = Record<string, string | number>;
+
+export function createTranslator(locale: Locale) {
+  const messages = CATALOGS[locale];
+  const dateLocale = DATE_LOCALES[locale];
+  const plurals = new Intl.PluralRules(locale);
+
+  // Numbers in placeholders follow the locale's digits; anything that needs decimals or a
+  // unit comes in already formatted
+  const fill = (text: string, vars: Vars) =>
+    text.replace(/\{(\w+)\}/g, (match, name: string) => {
+      const value = vars[name];
+      if (value === undefined) return match;
+      return typeof value === "number" ? value.toLocaleString(locale) : value;
+    });
+
+  function t(key: MessageKey, vars: Vars = {}) {
+    const message = messages[key] ?? en[key];
+    if (typeof message === "string") return fill(message, vars);
+
+    const count = typeof vars.count === "number" ? vars.count : 0;
+    return fill(message[plurals.select(count)] ?? message.other, vars);
+  }
+
+  // Dates as Date or "yyyy-MM-dd" / ISO strings, in the locale's own order
+  function formatDate(date: Date | string, pattern: DatePattern) {
+    const value = typeof date === "string" ? parseISO(date) : date;
+    return format(value, t(`date.${pattern}`), { locale: dateLocale });
+  }
+
+  return { locale, dir: localeDir(locale), dateLocale, t, formatDate };
+}
+
+export type Translator = ReturnType<typeof createTranslator>;
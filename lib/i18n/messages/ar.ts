@@ -0,0 +1,458 @@
+// lib/i18n/messages/ar.ts
+import type { Messages } from "./en";
+
+const ar: Messages = {
+  "meta.description": "تطبيق عصري لمتابعة الوزن مع مزامنة سحابية",
+
+  "date.long": "EEEE، d MMMM yyyy",
+  "date.medium": "d MMM yyyy",
+  "date.mediumTime": "d MMM yyyy HH:mm",
+  "date.short": "d MMM",
+  "date.axis": "dd MMM",
+  "date.weekday": "EEEE، d MMM",
+  "date.dayName": "EEEEEE",
+  "date.month": "MMM",
+  "date.time": "HH:mm",
+
+  "language.label": "اللغة",
+
+  "common.cancel": "إلغاء",
+  "common.close": "إغلاق",
+  "common.save": "حفظ",
+  "common.saving": "جارٍ الحفظ…",
+  "common.delete": "حذف",
+  "common.deleting": "جارٍ الحذف…",
+  "common.deleteFailed": "تعذّر الحذف.",
+  "common.edit": "تعديل",
+  "common.restore": "استعادة",
+  "common.undo": "تراجع",
+  "common.weight": "الوزن",
+  "common.date": "التاريخ",
+  "common.note": "ملاحظة",
+  "common.notePlaceholder": "ملاحظة اختيارية…",
+  "common.daysLeft": {
+    zero: "لم يبقَ أي يوم",
+    one: "بقي يوم واحد",
+    two: "بقي يومان",
+    few: "بقيت {count} أيام",
+    many: "بقي {count} يومًا",
+    other: "بقي {count} يوم",
+  },
+
+  "weight.invalid": "يجب أن يكون الوزن رقمًا",
+  "weight.min": "يجب ألا يقل الوزن عن {bound}",
+  "weight.max": "يجب ألا يزيد الوزن عن {bound}",
+
+  "validation.weight": "يجب أن يكون الوزن بين {min} و{max}",
+  "validation.note": "يجب ألا تتجاوز الملاحظة 500 حرف",
+  "validation.name": "يجب أن يتكون الاسم من 1 إلى 80 حرفًا",
+  "validation.email": "أدخل بريدًا إلكترونيًا صالحًا",
+  "validation.password": "يجب أن تتكون كلمة المرور من 8 أحرف على الأقل",
+  "validation.date": "أدخل تاريخًا صالحًا",
+  "validation.endDay": "لا يمكن أن يسبق يوم النهاية يوم البداية",
+  "validation.invalid": "بعض البيانات غير صالحة، تحقّق منها وحاول مجددًا",
+
+  "slot.morning": "صباحًا",
+  "slot.evening": "مساءً",
+  "slot.other": "أخرى",
+
+  "dailyValue.first": "أول قياس في اليوم",
+  "dailyValue.min": "الأدنى",
+  "dailyValue.average": "المتوسط",
+
+  "direction.lose": "خسارة",
+  "direction.maintain": "محافظة",
+  "direction.gain": "زيادة",
+
+  "unit.kg": "كيلوغرام (kg)",
+  "unit.lb": "رطل (lb)",
+  "unit.st": "ستون (st + lb)",
+
+  // ==================== APP ====================
+  "app.tagline": "متابعة الوزن بأسلوب عصري",
+  "app.launching": "جارٍ تحضير لوحة التحكم…",
+  "app.loadFailed": "تعذّر تحميل البيانات المحفوظة.",
+  "app.olderFailed": "تعذّر تحميل الإدخالات الأقدم.",
+  "app.timezoneChanged": "أصبحت الأيام تُحسب حسب المنطقة الزمنية {zone}",
+  "app.timezoneChangedDescription": "تحتفظ الإدخالات المسجّلة سابقًا بتاريخها.",
+
+  // ==================== SIGN IN / SETUP ====================
+  "auth.email": "البريد الإلكتروني",
+  "auth.password": "كلمة المرور",
+  "auth.passwordHint": "8 أحرف على الأقل",
+  "auth.signIn": "تسجيل الدخول",
+
+  "login.title": "مرحبًا بعودتك",
+  "login.subtitle": "سجّل الدخول لمواصلة رحلتك.",
+  "login.submitting": "جارٍ تسجيل الدخول…",
+  "login.newHere": "جديد هنا؟",
+  "login.createAccount": "أنشئ حسابًا",
+  "login.invalid": "البريد الإلكتروني أو كلمة المرور غير صحيحة.",
+  "login.failed": "تعذّر تسجيل الدخول. حاول مرة أخرى.",
+
+  "setup.title": "ابدأ رحلتك",
+  "setup.subtitle": "تقدّمك محفوظ بأمان ومتزامن في السحابة.",
+  "setup.badgePremium": "واجهة مميزة",
+  "setup.badgeBackup": "نسخ احتياطي سحابي",
+  "setup.badgeHabit": "عادة يومية",
+  "setup.name": "الاسم",
+  "setup.namePlaceholder": "مثال: حسام",
+  "setup.units": "الوحدات",
+  "setup.currentWeight": "الوزن الحالي",
+  "setup.goalWeight": "الوزن المستهدف (اختياري)",
+  "setup.example": "مثال: {value}",
+  "setup.timeline": "المدة",
+  "setup.weeks": {
+    zero: "{count} أسبوع",
+    one: "أسبوع واحد",
+    two: "أسبوعان",
+    few: "{count} أسابيع",
+    many: "{count} أسبوعًا",
+    other: "{count} أسبوع",
+  },
+  "setup.submitting": "جارٍ إنشاء الملف الشخصي…",
+  "setup.submit": "افتح لوحة التحكم",
+  "setup.haveAccount": "لديك حساب بالفعل؟",
+  "setup.missingName": "يرجى إدخال اسمك ووزنك الحالي.",
+  "setup.missingCredentials":
+    "يرجى إدخال بريدك الإلكتروني وكلمة مرور من 8 أحرف على الأقل.",
+  "setup.startingNote": "نقطة البداية",
+  "setup.welcome": "أهلًا {name} ✨",
+  "setup.welcomeDescription": "لوحة التحكم جاهزة الآن.",
+  "setup.emailTaken": "يوجد حساب مسجّل بهذا البريد الإلكتروني.",
+  "setup.failed": "تعذّر الإعداد. حاول مرة أخرى.",
+
+  // ==================== DASHBOARD ====================
+  "header.settings": "الإعدادات",
+  "header.reset": "إعادة ضبط",
+  "header.signOut": "تسجيل الخروج",
+  "header.signOutFailed": "تعذّر تسجيل الخروج.",
+
+  "reset.confirm": "إعادة ضبط كل شيء؟",
+  "reset.description": "يحذف حسابك وكل بياناته فورًا. لا يمكن التراجع عن ذلك.",
+  "reset.done": "تم حذف الحساب.",
+  "reset.doneDescription": "أنشئ حسابًا جديدًا لتبدأ من جديد.",
+  "reset.failed": "تعذّرت إعادة الضبط.",
+
+  "dashboard.welcome": "مرحبًا بعودتك،",
+  "dashboard.streak": {
+    zero: "لا توجد سلسلة",
+    one: "سلسلة يوم واحد",
+    two: "سلسلة يومين",
+    few: "سلسلة {count} أيام",
+    many: "سلسلة {count} يومًا",
+    other: "سلسلة {count} يوم",
+  },
+  "dashboard.down": "انخفاض {amount}",
+  "dashboard.up": "ارتفاع {amount}",
+  "dashboard.refresh": "تحديث",
+
+  "range.7d": "آخر 7 أيام",
+  "range.30d": "آخر 30 يومًا",
+  "range.90d": "آخر 90 يومًا",
+  "range.6m": "6 أشهر",
+  "range.1y": "سنة",
+  "range.ytd": "هذا العام",
+  "range.all": "الكل",
+  "range.custom": "مخصّص",
+  "range.customTitle": "فترة مخصّصة",
+  "range.customDescription": "اختر أول يوم وآخر يوم لعرضهما.",
+  "range.span": "{from} – {to}",
+  "range.apply": "تطبيق",
+
+  "stats.current": "الحالي",
+  "stats.totalChange": "التغيّر الكلي",
+  "stats.weeklyAvg": "المعدل الأسبوعي",
+  "stats.goal": "الهدف",
+
+  "quickLog.title": "تسجيل سريع لليوم",
+  "quickLog.hint": "إذا كان اليوم مسجّلًا بالفعل، يفتح الحفظ وضع التعديل.",
+  "quickLog.hintMulti":
+    "اختر وقت القياس. قياس الصباح أو المساء المسجّل مسبقًا يُفتح للتعديل.",
+  "quickLog.placeholder": "أدخل وزن اليوم",
+  "quickLog.loggedPlaceholder": "مسجّل اليوم: {weight} (تعديل)",
+  "quickLog.anotherDay": "سجّل ليوم آخر",
+  "quickLog.dailyNote": "إدخال يومي",
+  "quickLog.saved": "تم تسجيل وزن اليوم ✅",
+  "quickLog.failed": "تعذّر حفظ وزن اليوم.",
+
+  "reminder.title": "اليوم يوم قياس",
+  "reminder.message": "سجّل وزنك لتلتزم بجدولك.",
+  "reminder.keepStreak": {
+    zero: "سجّل وزنك لتبدأ سلسلة جديدة.",
+    one: "سجّل وزنك لتستمر سلسلة اليوم الواحد.",
+    two: "سجّل وزنك لتستمر سلسلة اليومين.",
+    few: "سجّل وزنك لتستمر سلسلة {count} أيام.",
+    many: "سجّل وزنك لتستمر سلسلة {count} يومًا.",
+    other: "سجّل وزنك لتستمر سلسلة {count} يوم.",
+  },
+  "reminder.logNow": "سجّل الآن",
+  "reminder.dismiss": "إخفاء لليوم",
+
+  "chart.title": "منحنى الوزن",
+  "chart.description": "القياسات اليومية مع الاتجاه المُنعّم وخط الهدف.",
+  "chart.goal": "الهدف {weight}",
+  "chart.trend": "الاتجاه {weight}",
+  "chart.target": "الموعد",
+  "chart.forecast": "توقّع",
+  "chart.entry": "إدخال",
+  "chart.emptyTitle": "أضف إدخالًا آخر لرؤية الاتجاه.",
+  "chart.emptyHint": "تحتاج إلى نقطتين على الأقل.",
+
+  "consistency.title": "الانتظام",
+  "consistency.description": "كل يوم سجّلته هذا العام، ملوّنًا حسب التغيّر عن اليوم السابق.",
+  "consistency.current": "السلسلة الحالية",
+  "consistency.longest": "أطول سلسلة",
+  "consistency.days": {
+    zero: "{count} يوم",
+    one: "يوم واحد",
+    two: "يومان",
+    few: "{count} أيام",
+    many: "{count} يومًا",
+    other: "{count} يوم",
+  },
+  "consistency.loggedToday": "تم تسجيل اليوم.",
+  "consistency.atRisk": "سجّل اليوم لتستمر السلسلة.",
+  "consistency.toward": "نحو الهدف",
+  "consistency.away": "بعيدًا عن الهدف",
+  "consistency.noChange": "دون تغيّر",
+  "consistency.notLogged": "غير مسجّل",
+  "consistency.restDay": "يوم راحة",
+  "consistency.restToday": "اليوم يوم راحة، السلسلة في أمان.",
+  "consistency.monthRate": "{logged} من {days} يوم قياس مسجّل",
+  "consistency.previousYear": "العام السابق",
+  "consistency.nextYear": "العام التالي",
+
+  "profile.title": "الملف الشخصي",
+  "profile.description": "إحصاءاتك وخطتك.",
+  "profile.since": "منذ {date}",
+  "profile.start": "البداية",
+  "profile.goal": "الهدف",
+  "profile.holding": "ضمن النطاق",
+  "profile.goalReached": "تم بلوغ الهدف",
+  "profile.outsideBand": "{amount} خارج النطاق",
+  "profile.toGo": "يتبقى {amount}",
+  "profile.targetDate": "التاريخ المستهدف",
+  "profile.entries": "الإدخالات",
+
+  "forecast.title": "التوقّع",
+  "forecast.offTrack": "خارج المسار",
+  "forecast.onTrack": "على المسار",
+  "forecast.daysBehind": {
+    zero: "لا تأخير",
+    one: "متأخر يومًا واحدًا",
+    two: "متأخر يومين",
+    few: "متأخر {count} أيام",
+    many: "متأخر {count} يومًا",
+    other: "متأخر {count} يوم",
+  },
+  "forecast.range": "الهدف في حدود {date}، على الأرجح بين {earliest} و{latest}",
+  "forecast.sooner": "أبكر",
+  "forecast.later": "أبعد",
+  "forecast.notHeading": "اتجاهك الأخير لا يقود إلى الهدف بعد.",
+
+  "phase.title": "مرحلة {phase}",
+  "phase.reached": "تم بلوغ هدف المرحلة",
+
+  "entries.title": "الإدخالات",
+  "entries.trash": "المهملات",
+  "entries.description": "انقر على أي إدخال لتعديله.",
+  "entries.empty": "لا توجد إدخالات بعد — ابدأ المتابعة اليوم!",
+  "entries.loadFailed": "تعذّر تحميل الإدخال.",
+  "entries.restored": "تمت استعادة الإدخال ✨",
+  "entries.undoFailed": "تعذّر التراجع.",
+  "entries.collision": "يوجد الآن إدخال آخر في هذا التاريخ.",
+  "entries.trashed": "نُقل الإدخال إلى المهملات 🗑️",
+  "entries.viewAll": "عرض الكل",
+
+  // ==================== HISTORY PAGE ====================
+  "allEntries.title": "سجل الإدخالات",
+  "allEntries.description": "كل أوزانك المسجّلة. رتّب حسب أي عمود، أو عدّل صفًا في مكانه، أو حدّد صفوفًا لحذفها.",
+  "allEntries.back": "لوحة التحكم",
+  "allEntries.from": "من",
+  "allEntries.to": "إلى",
+  "allEntries.search": "ابحث في الملاحظات…",
+  "allEntries.clear": "مسح عوامل التصفية",
+  "allEntries.change": "التغيّر",
+  "allEntries.actions": "إجراءات",
+  "allEntries.selectPage": "تحديد كل إدخالات هذه الصفحة",
+  "allEntries.selectRow": "تحديد الإدخال",
+  "allEntries.deleteSelected": {
+    zero: "حذف الإدخالات",
+    one: "حذف إدخال واحد",
+    two: "حذف إدخالين",
+    few: "حذف {count} إدخالات",
+    many: "حذف {count} إدخالًا",
+    other: "حذف {count} إدخال",
+  },
+  "allEntries.trashed": {
+    zero: "لم يُنقل أي إدخال إلى المهملات",
+    one: "نُقل إدخال واحد إلى المهملات 🗑️",
+    two: "نُقل إدخالان إلى المهملات 🗑️",
+    few: "نُقلت {count} إدخالات إلى المهملات 🗑️",
+    many: "نُقل {count} إدخالًا إلى المهملات 🗑️",
+    other: "نُقل {count} إدخال إلى المهملات 🗑️",
+  },
+  "allEntries.restored": {
+    zero: "لم يُستعد أي إدخال",
+    one: "استُعيد إدخال واحد ✨",
+    two: "استُعيد إدخالان ✨",
+    few: "استُعيدت {count} إدخالات ✨",
+    many: "استُعيد {count} إدخالًا ✨",
+    other: "استُعيد {count} إدخال ✨",
+  },
+  "allEntries.noMatch": "لا توجد إدخالات مطابقة لعوامل التصفية هذه.",
+  "allEntries.count": {
+    zero: "لا توجد إدخالات",
+    one: "إدخال واحد",
+    two: "إدخالان",
+    few: "{count} إدخالات",
+    many: "{count} إدخالًا",
+    other: "{count} إدخال",
+  },
+  "allEntries.page": "الصفحة {page} من {pages}",
+  "allEntries.previous": "الصفحة السابقة",
+  "allEntries.next": "الصفحة التالية",
+
+  "footer.title": "المزامنة السحابية مفعّلة",
+  "footer.description": "إدخالاتك محفوظة بأمان في Neon PostgreSQL.",
+
+  "edit.title": "تعديل الإدخال",
+  "edit.description": "غيّر الوزن أو الملاحظة أو التاريخ.",
+  "edit.timeOfDay": "وقت اليوم",
+  "edit.history": "السجل",
+  "edit.hideHistory": "إخفاء السجل",
+  "edit.saveChanges": "حفظ التغييرات",
+  "edit.collision": "لديك إدخال في هذا التاريخ بالفعل!",
+  "edit.saved": "تم تحديث الإدخال ✨",
+  "edit.failed": "تعذّر تحديث الإدخال.",
+
+  "deleteConfirm.title": "حذف الإدخال؟",
+  "deleteConfirm.description": "سيُنقل إلى المهملات حيث يمكنك استعادته لفترة.",
+
+  // ==================== MOTIVATION ====================
+  "motivation.unstoppable.title": "لا شيء يوقفك 🔥",
+  "motivation.unstoppable.message": {
+    zero: "سلسلتك تبدأ الآن. هذا هو الانضباط الحقيقي.",
+    one: "سلسلتك يوم واحد. هذا هو الانضباط الحقيقي.",
+    two: "سلسلتك يومان. هذا هو الانضباط الحقيقي.",
+    few: "سلسلتك {count} أيام. هذا هو الانضباط الحقيقي.",
+    many: "سلسلتك {count} يومًا. هذا هو الانضباط الحقيقي.",
+    other: "سلسلتك {count} يوم. هذا هو الانضباط الحقيقي.",
+  },
+  "motivation.progress.title": "تقدّم نحو الهدف 🏆",
+  "motivation.progress.message": "أنجزت {progress}٪ من هدفك. واصل التقدّم!",
+  "motivation.momentum.title": "الزخم في صالحك ⚡",
+  "motivation.momentum.message": "اتجاهك {rate} في الأسبوع. هذا تقدّم ممتاز.",
+  "motivation.consistency.title": "الاستمرارية تتفوّق على الموهبة 💎",
+  "motivation.consistency.message": "كل يوم تسجّله يقرّبك خطوة ممن تريد أن تكون.",
+  "motivation.smallSteps.title": "خطوات صغيرة = نتائج كبيرة 🌱",
+  "motivation.smallSteps.noGoal": "الاستمرارية أهم من الحماس. فقط احضر اليوم.",
+  "motivation.smallSteps.maintain":
+    "أنت خارج نطاقك بـ{amount} فقط. أسبوع منتظم يعيدك إليه.",
+  "motivation.smallSteps.goal": "يتبقى {amount} فقط على هدفك. أنت أقرب مما تظن.",
+  "motivation.habit.title": "أنت تبني العادة ✅",
+  "motivation.habit.message": "سلسلتك تكبر. حافظ على الإيقاع.",
+  "motivation.invisible.title": "التقدّم خفيّ حتى يظهر ✨",
+  "motivation.invisible.message": "واصل. ستشكرك نفسك في المستقبل.",
+  "motivation.fluctuations.title": "التقلّبات طبيعية 🚧",
+  "motivation.fluctuations.message":
+    "الوزن اليومي يرتفع وينخفض. ركّز على الاتجاه لا على يوم واحد.",
+  "motivation.adjust.title": "لا تستسلم. عدّل 🧠",
+  "motivation.adjust.lose": "زيادة الوزن إشارة وليست فشلًا. اشرب الماء، نم جيدًا، تحرّك.",
+  "motivation.adjust.maintain": "الابتعاد إشارة وليس فشلًا. تعديلات صغيرة تعيدك.",
+  "motivation.adjust.gain": "الانخفاض إشارة وليس فشلًا. كُل كفايتك، نم جيدًا، تمرّن.",
+  "motivation.checkpoint.title": "اليوم نقطة تفقّد 📍",
+  "motivation.checkpoint.message": "سجّل وزنك اليوم. البيانات تصنع الوضوح.",
+  "motivation.futureYou.title": "مستقبلك يراقبك 👀",
+  "motivation.futureYou.message": "إدخال واحد اليوم يجعل الغد أسهل. حافظ على الإيقاع.",
+  "motivation.restDay.title": "يوم راحة 🛋️",
+  "motivation.restDay.message": "لا يوجد قياس مخطط اليوم. القياس التالي: {day}.",
+  "motivation.holding.title": "ثبات ممتاز 🏆",
+  "motivation.holding.message": "أنت ضمن {tolerance} من {goal}. هكذا تبدو المحافظة.",
+  "motivation.achieved.title": "تحقّق الهدف 🏆",
+  "motivation.achieved.message": "لقد نجحت! ركّز الآن على المحافظة وتحسين نمط حياتك.",
+
+  // ==================== DIALOGS ====================
+  "logDay.title": "سجّل ليوم آخر",
+  "logDay.description": "الأيام المعلّمة بنقطة لديها إدخال بالفعل.",
+  "logDay.pickFirst": "اختر يومًا أولًا.",
+  "logDay.pickDay": "اختر يومًا",
+  "logDay.alreadyLogged": "{day} مسجّل بالفعل بوزن",
+  "logDay.saveEntry": "حفظ الإدخال",
+  "logDay.saved": "تم تسجيل {date} ✅",
+  "logDay.failed": "تعذّر حفظ الإدخال.",
+
+  "trash.title": "المهملات",
+  "trash.description": {
+    zero: "تُحذف الإدخالات المحذوفة نهائيًا على الفور.",
+    one: "تُحفظ الإدخالات المحذوفة يومًا واحدًا ثم تُزال نهائيًا.",
+    two: "تُحفظ الإدخالات المحذوفة يومين ثم تُزال نهائيًا.",
+    few: "تُحفظ الإدخالات المحذوفة {count} أيام ثم تُزال نهائيًا.",
+    many: "تُحفظ الإدخالات المحذوفة {count} يومًا ثم تُزال نهائيًا.",
+    other: "تُحفظ الإدخالات المحذوفة {count} يوم ثم تُزال نهائيًا.",
+  },
+  "trash.empty": "المهملات فارغة.",
+  "trash.emptyAction": "إفراغ المهملات",
+  "trash.loadFailed": "تعذّر تحميل المهملات.",
+  "trash.restoreFailed": "تعذّرت الاستعادة.",
+
+  "history.action.create": "سُجّل",
+  "history.action.update": "عُدّل",
+  "history.action.delete": "حُذف",
+  "history.action.restore": "استُعيد",
+  "history.action.revert": "أُرجع",
+  "history.empty": "لا توجد تغييرات مسجّلة لهذا الإدخال بعد.",
+  "history.inTrash": "في المهملات",
+  "history.revert": "إرجاع",
+  "history.reverted": "تم إرجاع الإدخال ✨",
+  "history.revertFailed": "تعذّر الإرجاع.",
+  "history.loadFailed": "تعذّر تحميل السجل.",
+
+  "settings.title": "الإعدادات",
+  "settings.description": "ملفك الشخصي ومراحل الهدف والوحدات وطريقة احتساب القياسات.",
+  "settings.tab.profile": "الملف الشخصي",
+  "settings.tab.goals": "الأهداف",
+  "settings.tab.weighIns": "القياسات",
+  "settings.name": "الاسم",
+  "settings.nameRequired": "الاسم مطلوب",
+  "settings.startWeight": "وزن البداية",
+  "settings.goalWeight": "الوزن المستهدف",
+  "settings.noGoal": "بلا هدف",
+  "settings.direction": "الاتجاه",
+  "settings.tolerance": "الهامش (± {unit})",
+  "settings.toleranceRange": "يجب أن يكون الهامش بين 0 و{max}",
+  "settings.targetDate": "التاريخ المستهدف",
+  "settings.targetDateHint": "اتركه فارغًا للمتابعة دون موعد نهائي.",
+  "settings.saveProfile": "حفظ الملف الشخصي",
+  "settings.saved": "تم تحديث الملف الشخصي ✨",
+  "settings.saveFailed": "تعذّر تحديث الملف الشخصي.",
+  "settings.schedule": "أيام القياس",
+  "settings.scheduleHint": "تتجاهل السلاسل والتذكيرات الأيام الأخرى، مثل الاثنين / الأربعاء / الجمعة أو مرة في الأسبوع.",
+  "settings.weighIns": "القياسات",
+  "settings.weighInsHint": "عدة مرات في اليوم تضيف فترتي الصباح والمساء.",
+  "settings.severalADay": "عدة مرات في اليوم",
+  "settings.onceADay": "مرة في اليوم",
+  "settings.dailyValue": "القيمة اليومية",
+  "settings.dailyValueHint": "القياس الذي تعتمده الرسوم والإحصاءات لليوم.",
+  "settings.units": "الوحدات",
+  "settings.unitsHint": "تُعرض الأوزان وتُدخل بهذه الوحدة.",
+  "settings.smoothing": "تنعيم الاتجاه",
+  "settings.smoothingHint": "القيمة الأدنى تتبع الاتجاه ببطء، والأعلى تتفاعل مع كل قياس.",
+  "settings.weighInsFailed": "تعذّر حفظ إعدادات القياسات.",
+
+  "goals.empty": "لا توجد مراحل بعد، يعرض الرسم هدفك العام.",
+  "goals.span": "{start} ← {end}",
+  "goals.nextPhase": "المرحلة التالية",
+  "goals.phase": "المرحلة",
+  "goals.target": "الهدف",
+  "goals.tolerance": "± {unit}",
+  "goals.starts": "تبدأ",
+  "goals.ends": "تنتهي (اختياري)",
+  "goals.add": "إضافة مرحلة",
+  "goals.added": "تمت إضافة المرحلة ✨",
+  "goals.addFailed": "تعذّرت إضافة المرحلة.",
+  "goals.deleteFailed": "تعذّر حذف المرحلة.",
+};
+
+export default ar;
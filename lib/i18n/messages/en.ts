@@ -0,0 +1,400 @@
+// lib/i18n/messages/en.ts
+// Source catalog: its keys are the ones every other locale must provide (see Messages).
+import type { Message } from "../types";
+
+const en = {
+  "meta.description": "Ultra-modern weight tracking application with cloud sync",
+
+  // date-fns patterns, so each language keeps its own day / month order
+  "date.long": "EEEE, MMMM d, yyyy",
+  "date.medium": "MMM d, yyyy",
+  "date.mediumTime": "MMM d, yyyy HH:mm",
+  "date.short": "MMM d",
+  "date.axis": "MMM dd",
+  "date.weekday": "EEEE, MMM d",
+  "date.dayName": "EEEEEE",
+  "date.month": "MMM",
+  "date.time": "HH:mm",
+
+  "language.label": "Language",
+
+  "common.cancel": "Cancel",
+  "common.close": "Close",
+  "common.save": "Save",
+  "common.saving": "Saving…",
+  "common.delete": "Delete",
+  "common.deleting": "Deleting…",
+  "common.deleteFailed": "Delete failed.",
+  "common.edit": "Edit",
+  "common.restore": "Restore",
+  "common.undo": "Undo",
+  "common.weight": "Weight",
+  "common.date": "Date",
+  "common.note": "Note",
+  "common.notePlaceholder": "Optional note…",
+  "common.daysLeft": { one: "{count} day left", other: "{count} days left" },
+
+  "weight.invalid": "Weight must be a number",
+  "weight.min": "Weight must be at least {bound}",
+  "weight.max": "Weight must be at most {bound}",
+
+  // A field the API rejected (400), see apiErrorMessage in lib/api.ts
+  "validation.weight": "Weight must be between {min} and {max}",
+  "validation.note": "Notes can be at most 500 characters",
+  "validation.name": "Name must be 1 to 80 characters",
+  "validation.email": "Enter a valid email",
+  "validation.password": "Password must be at least 8 characters",
+  "validation.date": "Enter a valid date",
+  "validation.endDay": "The end day can't be before the start day",
+  "validation.invalid": "Some details aren't valid, check them and try again",
+
+  "slot.morning": "Morning",
+  "slot.evening": "Evening",
+  "slot.other": "Other",
+
+  "dailyValue.first": "First of day",
+  "dailyValue.min": "Lowest",
+  "dailyValue.average": "Average",
+
+  "direction.lose": "Lose",
+  "direction.maintain": "Maintain",
+  "direction.gain": "Gain",
+
+  "unit.kg": "Kilograms (kg)",
+  "unit.lb": "Pounds (lb)",
+  "unit.st": "Stones (st + lb)",
+
+  // ==================== APP ====================
+  "app.tagline": "Modern Weight Tracker",
+  "app.launching": "Launching your dashboard…",
+  "app.loadFailed": "Failed to load saved data.",
+  "app.olderFailed": "Failed to load older entries.",
+  "app.timezoneChanged": "Days now follow {zone}",
+  "app.timezoneChangedDescription": "Entries you already logged keep their date.",
+
+  // ==================== SIGN IN / SETUP ====================
+  "auth.email": "Email",
+  "auth.password": "Password",
+  "auth.passwordHint": "At least 8 characters",
+  "auth.signIn": "Sign in",
+
+  "login.title": "Welcome back",
+  "login.subtitle": "Sign in to continue your journey.",
+  "login.submitting": "Signing in…",
+  "login.newHere": "New here?",
+  "login.createAccount": "Create an account",
+  "login.invalid": "Invalid email or password.",
+  "login.failed": "Sign in failed. Please try again.",
+
+  "setup.title": "Start your journey",
+  "setup.subtitle": "Your progress is safely stored and synced in the cloud.",
+  "setup.badgePremium": "Premium UI",
+  "setup.badgeBackup": "Cloud Backup",
+  "setup.badgeHabit": "Daily Habit",
+  "setup.name": "Name",
+  "setup.namePlaceholder": "e.g. Houssem",
+  "setup.units": "Units",
+  "setup.currentWeight": "Current Weight",
+  "setup.goalWeight": "Goal Weight (optional)",
+  "setup.example": "e.g. {value}",
+  "setup.timeline": "Timeline",
+  "setup.weeks": { one: "{count} week", other: "{count} weeks" },
+  "setup.submitting": "Creating profile…",
+  "setup.submit": "Launch Dashboard",
+  "setup.haveAccount": "Already have an account?",
+  "setup.missingName": "Please enter your name and current weight.",
+  "setup.missingCredentials":
+    "Please enter your email and a password of at least 8 characters.",
+  "setup.startingNote": "Starting point",
+  "setup.welcome": "Welcome {name} ✨",
+  "setup.welcomeDescription": "Your dashboard is now ready.",
+  "setup.emailTaken": "An account with this email already exists.",
+  "setup.failed": "Setup failed. Please try again.",
+
+  // ==================== DASHBOARD ====================
+  "header.settings": "Settings",
+  "header.reset": "Reset",
+  "header.signOut": "Sign out",
+  "header.signOutFailed": "Sign out failed.",
+
+  "reset.confirm": "Reset everything?",
+  "reset.description":
+    "Deletes your account and all its data right away. This can't be undone.",
+  "reset.done": "Account deleted.",
+  "reset.doneDescription": "Create a new account to start over.",
+  "reset.failed": "Reset failed.",
+
+  "dashboard.welcome": "Welcome back,",
+  "dashboard.streak": "{count} day streak",
+  "dashboard.down": "Down {amount}",
+  "dashboard.up": "Up {amount}",
+  "dashboard.refresh": "Refresh",
+
+  "range.7d": "Last 7 days",
+  "range.30d": "Last 30 days",
+  "range.90d": "Last 90 days",
+  "range.6m": "6 months",
+  "range.1y": "1 year",
+  "range.ytd": "This year",
+  "range.all": "All",
+  "range.custom": "Custom",
+  "range.customTitle": "Custom range",
+  "range.customDescription": "Pick the first and last day to chart.",
+  "range.span": "{from} – {to}",
+  "range.apply": "Apply",
+
+  "stats.current": "Current",
+  "stats.totalChange": "Total Change",
+  "stats.weeklyAvg": "Weekly Avg",
+  "stats.goal": "Goal",
+
+  "quickLog.title": "Quick Log Today",
+  "quickLog.hint": "If today already exists, clicking Save will open edit mode.",
+  "quickLog.hintMulti":
+    "Pick when you weighed in. A morning or evening reading that already exists opens edit mode.",
+  "quickLog.placeholder": "Enter today’s weight",
+  "quickLog.loggedPlaceholder": "Today logged: {weight} (edit)",
+  "quickLog.anotherDay": "Log for another day",
+  "quickLog.dailyNote": "Daily entry",
+  "quickLog.saved": "Today’s weight logged ✅",
+  "quickLog.failed": "Failed to save today’s weight.",
+
+  "reminder.title": "Today is a weigh-in day",
+  "reminder.message": "Log your weight to stay on schedule.",
+  "reminder.keepStreak": "Log your weight to keep your {count} day streak going.",
+  "reminder.logNow": "Log now",
+  "reminder.dismiss": "Dismiss for today",
+
+  "chart.title": "Weight Trend",
+  "chart.description": "Daily weigh-ins with the smoothed trend and goal reference line.",
+  "chart.goal": "Goal {weight}",
+  "chart.trend": "Trend {weight}",
+  "chart.target": "Target",
+  "chart.forecast": "forecast",
+  "chart.entry": "Entry",
+  "chart.emptyTitle": "Add one more entry to see the trend.",
+  "chart.emptyHint": "You need at least 2 data points.",
+
+  "consistency.title": "Consistency",
+  "consistency.description": "Every day you logged this year, colored by the change from the day before.",
+  "consistency.current": "Current streak",
+  "consistency.longest": "Longest streak",
+  "consistency.days": { one: "{count} day", other: "{count} days" },
+  "consistency.loggedToday": "Today is logged.",
+  "consistency.atRisk": "Log today to keep it going.",
+  "consistency.toward": "Toward goal",
+  "consistency.away": "Away from goal",
+  "consistency.noChange": "No change",
+  "consistency.notLogged": "Not logged",
+  "consistency.restDay": "Rest day",
+  "consistency.restToday": "Rest day today, the streak is safe.",
+  "consistency.monthRate": "{logged} of {days} weigh-in days logged",
+  "consistency.previousYear": "Previous year",
+  "consistency.nextYear": "Next year",
+
+  "profile.title": "Profile",
+  "profile.description": "Personal stats and plan.",
+  "profile.since": "Since {date}",
+  "profile.start": "Start",
+  "profile.goal": "Goal",
+  "profile.holding": "Holding within the band",
+  "profile.goalReached": "Goal reached",
+  "profile.outsideBand": "{amount} outside the band",
+  "profile.toGo": "{amount} to go",
+  "profile.targetDate": "Target Date",
+  "profile.entries": "Entries",
+
+  "forecast.title": "Forecast",
+  "forecast.offTrack": "Off track",
+  "forecast.onTrack": "On track",
+  "forecast.daysBehind": { one: "{count} day behind", other: "{count} days behind" },
+  "forecast.range": "Goal around {date}, likely {earliest} – {latest}",
+  "forecast.sooner": "sooner",
+  "forecast.later": "later",
+  "forecast.notHeading": "Your recent trend isn’t heading for the goal yet.",
+
+  "phase.title": "{phase} phase",
+  "phase.reached": "Phase target reached",
+
+  "entries.title": "Entries",
+  "entries.trash": "Trash",
+  "entries.description": "Click any entry to edit.",
+  "entries.empty": "No entries yet — start tracking today!",
+  "entries.loadFailed": "Failed to load entry.",
+  "entries.restored": "Entry restored ✨",
+  "entries.undoFailed": "Undo failed.",
+  "entries.collision": "Another entry now exists on this date.",
+  "entries.trashed": "Entry moved to trash 🗑️",
+  "entries.viewAll": "View all",
+
+  // ==================== HISTORY PAGE ====================
+  "allEntries.title": "Entry history",
+  "allEntries.description": "Every weigh-in you logged. Sort by a column, edit a row in place or select rows to delete.",
+  "allEntries.back": "Dashboard",
+  "allEntries.from": "From",
+  "allEntries.to": "To",
+  "allEntries.search": "Search notes…",
+  "allEntries.clear": "Clear filters",
+  "allEntries.change": "Change",
+  "allEntries.actions": "Actions",
+  "allEntries.selectPage": "Select every entry on this page",
+  "allEntries.selectRow": "Select entry",
+  "allEntries.deleteSelected": { one: "Delete {count} entry", other: "Delete {count} entries" },
+  "allEntries.trashed": {
+    one: "{count} entry moved to trash 🗑️",
+    other: "{count} entries moved to trash 🗑️",
+  },
+  "allEntries.restored": { one: "{count} entry restored ✨", other: "{count} entries restored ✨" },
+  "allEntries.noMatch": "No entries match these filters.",
+  "allEntries.count": { one: "{count} entry", other: "{count} entries" },
+  "allEntries.page": "Page {page} of {pages}",
+  "allEntries.previous": "Previous page",
+  "allEntries.next": "Next page",
+
+  "footer.title": "Cloud Sync Active",
+  "footer.description": "Your entries are safe inside Neon PostgreSQL.",
+
+  "edit.title": "Edit Entry",
+  "edit.description": "Change weight, note or date.",
+  "edit.timeOfDay": "Time of day",
+  "edit.history": "History",
+  "edit.hideHistory": "Hide history",
+  "edit.saveChanges": "Save Changes",
+  "edit.collision": "You already have an entry on this date!",
+  "edit.saved": "Entry updated ✨",
+  "edit.failed": "Failed to update entry.",
+
+  "deleteConfirm.title": "Delete Entry?",
+  "deleteConfirm.description":
+    "It moves to the trash, where you can restore it for a while.",
+
+  // ==================== MOTIVATION ====================
+  "motivation.unstoppable.title": "You’re unstoppable 🔥",
+  "motivation.unstoppable.message": {
+    one: "Your streak is {count} day. That’s real discipline.",
+    other: "Your streak is {count} days. That’s real discipline.",
+  },
+  "motivation.progress.title": "Goal progress unlocked 🏆",
+  "motivation.progress.message":
+    "You’ve completed {progress}% of your goal. Keep attacking!",
+  "motivation.momentum.title": "Momentum is on your side ⚡",
+  "motivation.momentum.message": "Your trend is {rate}/week. That’s elite progress.",
+  "motivation.consistency.title": "Consistency beats talent 💎",
+  "motivation.consistency.message":
+    "Every day you log is a step closer to who you want to be.",
+  "motivation.smallSteps.title": "Small steps = big results 🌱",
+  "motivation.smallSteps.noGoal": "Consistency beats motivation. Just show up today.",
+  "motivation.smallSteps.maintain":
+    "Only {amount} outside your range. One steady week brings you back.",
+  "motivation.smallSteps.goal":
+    "Only {amount} left until your goal. You're closer than you think.",
+  "motivation.habit.title": "You’re building the habit ✅",
+  "motivation.habit.message": "Your streak is growing. Keep the rhythm alive.",
+  "motivation.invisible.title": "Progress is invisible until it’s not ✨",
+  "motivation.invisible.message": "Keep going. Your future self will thank you.",
+  "motivation.fluctuations.title": "Fluctuations are normal 🚧",
+  "motivation.fluctuations.message":
+    "Daily weight goes up and down. Focus on the trend — not one day.",
+  "motivation.adjust.title": "Don’t quit. Adjust 🧠",
+  "motivation.adjust.lose":
+    "Weight increases are feedback, not failure. Hydrate, sleep, move.",
+  "motivation.adjust.maintain":
+    "Drifting is feedback, not failure. Small tweaks bring you back.",
+  "motivation.adjust.gain": "A dip is feedback, not failure. Eat enough, sleep, train.",
+  "motivation.checkpoint.title": "Today is a checkpoint 📍",
+  "motivation.checkpoint.message": "Log your weight today. Data creates clarity.",
+  "motivation.futureYou.title": "Future you is watching 👀",
+  "motivation.futureYou.message":
+    "One entry today makes tomorrow easier. Keep the rhythm.",
+  "motivation.restDay.title": "Rest day 🛋️",
+  "motivation.restDay.message": "No weigh-in planned today. Next one: {day}.",
+  "motivation.holding.title": "Holding steady 🏆",
+  "motivation.holding.message":
+    "You’re within {tolerance} of {goal}. That’s what maintenance looks like.",
+  "motivation.achieved.title": "Goal achieved 🏆",
+  "motivation.achieved.message":
+    "You did it! Now focus on maintaining and improving your lifestyle.",
+
+  // ==================== DIALOGS ====================
+  "logDay.title": "Log for another day",
+  "logDay.description": "Days with a dot already have an entry.",
+  "logDay.pickFirst": "Pick a day first.",
+  "logDay.pickDay": "Pick a day",
+  "logDay.alreadyLogged": "{day} is already logged at",
+  "logDay.saveEntry": "Save Entry",
+  "logDay.saved": "Logged {date} ✅",
+  "logDay.failed": "Failed to save entry.",
+
+  "trash.title": "Trash",
+  "trash.description": {
+    one: "Deleted entries are kept for {count} day, then removed for good.",
+    other: "Deleted entries are kept for {count} days, then removed for good.",
+  },
+  "trash.empty": "The trash is empty.",
+  "trash.emptyAction": "Empty trash",
+  "trash.loadFailed": "Failed to load trash.",
+  "trash.restoreFailed": "Restore failed.",
+
+  "history.action.create": "Logged",
+  "history.action.update": "Edited",
+  "history.action.delete": "Deleted",
+  "history.action.restore": "Restored",
+  "history.action.revert": "Reverted",
+  "history.empty": "No changes recorded for this entry yet.",
+  "history.inTrash": "in the trash",
+  "history.revert": "Revert",
+  "history.reverted": "Entry reverted ✨",
+  "history.revertFailed": "Revert failed.",
+  "history.loadFailed": "Failed to load history.",
+
+  "settings.title": "Settings",
+  "settings.description": "Your profile, goal phases, units and how weigh-ins are counted.",
+  "settings.tab.profile": "Profile",
+  "settings.tab.goals": "Goals",
+  "settings.tab.weighIns": "Weigh-ins",
+  "settings.name": "Name",
+  "settings.nameRequired": "Name is required",
+  "settings.startWeight": "Start weight",
+  "settings.goalWeight": "Goal weight",
+  "settings.noGoal": "No goal",
+  "settings.direction": "Direction",
+  "settings.tolerance": "Tolerance (± {unit})",
+  "settings.toleranceRange": "Tolerance must be between 0 and {max}",
+  "settings.targetDate": "Target date",
+  "settings.targetDateHint": "Leave empty to track without a deadline.",
+  "settings.saveProfile": "Save profile",
+  "settings.saved": "Profile updated ✨",
+  "settings.saveFailed": "Failed to update profile.",
+  "settings.schedule": "Weigh-in days",
+  "settings.scheduleHint": "Streaks and reminders skip the other days, e.g. Mon / Wed / Fri or once a week.",
+  "settings.weighIns": "Weigh-ins",
+  "settings.weighInsHint": "Several a day adds morning / evening slots.",
+  "settings.severalADay": "Several a day",
+  "settings.onceADay": "Once a day",
+  "settings.dailyValue": "Daily value",
+  "settings.dailyValueHint": "Which reading charts and stats use for a day.",
+  "settings.units": "Units",
+  "settings.unitsHint": "Weights are shown and entered in this unit.",
+  "settings.smoothing": "Trend smoothing",
+  "settings.smoothingHint":
+    "Lower follows the trend slowly, higher reacts to every weigh-in.",
+  "settings.weighInsFailed": "Failed to save weigh-in settings.",
+
+  "goals.empty": "No phases yet, the chart shows your overall goal.",
+  "goals.span": "{start} → {end}",
+  "goals.nextPhase": "next phase",
+  "goals.phase": "Phase",
+  "goals.target": "Target",
+  "goals.tolerance": "± {unit}",
+  "goals.starts": "Starts",
+  "goals.ends": "Ends (optional)",
+  "goals.add": "Add phase",
+  "goals.added": "Phase added ✨",
+  "goals.addFailed": "Failed to add phase.",
+  "goals.deleteFailed": "Failed to delete phase.",
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, Message>;
+
+export default en;
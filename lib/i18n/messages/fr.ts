@@ -0,0 +1,418 @@
+// lib/i18n/messages/fr.ts
+import type { Messages } from "./en";
+
+const fr: Messages = {
+  "meta.description": "Application moderne de suivi du poids, synchronisée dans le cloud",
+
+  "date.long": "EEEE d MMMM yyyy",
+  "date.medium": "d MMM yyyy",
+  "date.mediumTime": "d MMM yyyy HH:mm",
+  "date.short": "d MMM",
+  "date.axis": "dd MMM",
+  "date.weekday": "EEEE d MMM",
+  "date.dayName": "EEEEEE",
+  "date.month": "MMM",
+  "date.time": "HH:mm",
+
+  "language.label": "Langue",
+
+  "common.cancel": "Annuler",
+  "common.close": "Fermer",
+  "common.save": "Enregistrer",
+  "common.saving": "Enregistrement…",
+  "common.delete": "Supprimer",
+  "common.deleting": "Suppression…",
+  "common.deleteFailed": "La suppression a échoué.",
+  "common.edit": "Modifier",
+  "common.restore": "Restaurer",
+  "common.undo": "Annuler",
+  "common.weight": "Poids",
+  "common.date": "Date",
+  "common.note": "Note",
+  "common.notePlaceholder": "Note facultative…",
+  "common.daysLeft": { one: "{count} jour restant", other: "{count} jours restants" },
+
+  "weight.invalid": "Le poids doit être un nombre",
+  "weight.min": "Le poids doit être d’au moins {bound}",
+  "weight.max": "Le poids doit être d’au plus {bound}",
+
+  "validation.weight": "Le poids doit être compris entre {min} et {max}",
+  "validation.note": "Une note fait au plus 500 caractères",
+  "validation.name": "Le nom doit faire de 1 à 80 caractères",
+  "validation.email": "Saisissez une adresse e-mail valide",
+  "validation.password": "Le mot de passe doit faire au moins 8 caractères",
+  "validation.date": "Saisissez une date valide",
+  "validation.endDay": "Le jour de fin ne peut pas précéder le jour de début",
+  "validation.invalid": "Certaines informations ne sont pas valides, vérifiez-les et réessayez",
+
+  "slot.morning": "Matin",
+  "slot.evening": "Soir",
+  "slot.other": "Autre",
+
+  "dailyValue.first": "Première du jour",
+  "dailyValue.min": "La plus basse",
+  "dailyValue.average": "Moyenne",
+
+  "direction.lose": "Perdre",
+  "direction.maintain": "Maintenir",
+  "direction.gain": "Prendre",
+
+  "unit.kg": "Kilogrammes (kg)",
+  "unit.lb": "Livres (lb)",
+  "unit.st": "Stones (st + lb)",
+
+  // ==================== APP ====================
+  "app.tagline": "Suivi de poids moderne",
+  "app.launching": "Ouverture de votre tableau de bord…",
+  "app.loadFailed": "Impossible de charger vos données.",
+  "app.olderFailed": "Impossible de charger les entrées plus anciennes.",
+  "app.timezoneChanged": "Les journées suivent désormais le fuseau {zone}",
+  "app.timezoneChangedDescription": "Les entrées déjà saisies gardent leur date.",
+
+  // ==================== SIGN IN / SETUP ====================
+  "auth.email": "E-mail",
+  "auth.password": "Mot de passe",
+  "auth.passwordHint": "Au moins 8 caractères",
+  "auth.signIn": "Se connecter",
+
+  "login.title": "Bon retour",
+  "login.subtitle": "Connectez-vous pour poursuivre votre parcours.",
+  "login.submitting": "Connexion…",
+  "login.newHere": "Nouveau ici ?",
+  "login.createAccount": "Créer un compte",
+  "login.invalid": "E-mail ou mot de passe incorrect.",
+  "login.failed": "La connexion a échoué. Veuillez réessayer.",
+
+  "setup.title": "Commencez votre parcours",
+  "setup.subtitle": "Vos progrès sont stockés en sécurité et synchronisés dans le cloud.",
+  "setup.badgePremium": "Interface premium",
+  "setup.badgeBackup": "Sauvegarde cloud",
+  "setup.badgeHabit": "Habitude quotidienne",
+  "setup.name": "Nom",
+  "setup.namePlaceholder": "ex. Houssem",
+  "setup.units": "Unités",
+  "setup.currentWeight": "Poids actuel",
+  "setup.goalWeight": "Poids visé (facultatif)",
+  "setup.example": "ex. {value}",
+  "setup.timeline": "Échéance",
+  "setup.weeks": { one: "{count} semaine", other: "{count} semaines" },
+  "setup.submitting": "Création du profil…",
+  "setup.submit": "Ouvrir le tableau de bord",
+  "setup.haveAccount": "Vous avez déjà un compte ?",
+  "setup.missingName": "Veuillez saisir votre nom et votre poids actuel.",
+  "setup.missingCredentials":
+    "Veuillez saisir votre e-mail et un mot de passe d’au moins 8 caractères.",
+  "setup.startingNote": "Point de départ",
+  "setup.welcome": "Bienvenue {name} ✨",
+  "setup.welcomeDescription": "Votre tableau de bord est prêt.",
+  "setup.emailTaken": "Un compte existe déjà avec cet e-mail.",
+  "setup.failed": "La création a échoué. Veuillez réessayer.",
+
+  // ==================== DASHBOARD ====================
+  "header.settings": "Paramètres",
+  "header.reset": "Réinitialiser",
+  "header.signOut": "Se déconnecter",
+  "header.signOutFailed": "La déconnexion a échoué.",
+
+  "reset.confirm": "Tout réinitialiser ?",
+  "reset.description":
+    "Supprime immédiatement votre compte et toutes ses données. Action irréversible.",
+  "reset.done": "Compte supprimé.",
+  "reset.doneDescription": "Créez un nouveau compte pour repartir de zéro.",
+  "reset.failed": "La réinitialisation a échoué.",
+
+  "dashboard.welcome": "Bon retour,",
+  "dashboard.streak": {
+    one: "{count} jour d’affilée",
+    other: "{count} jours d’affilée",
+  },
+  "dashboard.down": "En baisse de {amount}",
+  "dashboard.up": "En hausse de {amount}",
+  "dashboard.refresh": "Actualiser",
+
+  "range.7d": "7 derniers jours",
+  "range.30d": "30 derniers jours",
+  "range.90d": "90 derniers jours",
+  "range.6m": "6 mois",
+  "range.1y": "1 an",
+  "range.ytd": "Cette année",
+  "range.all": "Tout",
+  "range.custom": "Personnalisée",
+  "range.customTitle": "Période personnalisée",
+  "range.customDescription": "Choisissez le premier et le dernier jour à afficher.",
+  "range.span": "{from} – {to}",
+  "range.apply": "Appliquer",
+
+  "stats.current": "Actuel",
+  "stats.totalChange": "Variation totale",
+  "stats.weeklyAvg": "Moy. hebdo",
+  "stats.goal": "Objectif",
+
+  "quickLog.title": "Saisie rapide du jour",
+  "quickLog.hint":
+    "Si aujourd’hui est déjà saisi, Enregistrer ouvre la modification.",
+  "quickLog.hintMulti":
+    "Indiquez quand vous vous êtes pesé. Une pesée du matin ou du soir déjà saisie s’ouvre en modification.",
+  "quickLog.placeholder": "Saisissez votre poids du jour",
+  "quickLog.loggedPlaceholder": "Saisi aujourd’hui : {weight} (modifier)",
+  "quickLog.anotherDay": "Saisir un autre jour",
+  "quickLog.dailyNote": "Entrée du jour",
+  "quickLog.saved": "Poids du jour enregistré ✅",
+  "quickLog.failed": "Impossible d’enregistrer le poids du jour.",
+
+  "reminder.title": "Aujourd’hui est un jour de pesée",
+  "reminder.message": "Saisissez votre poids pour suivre votre planning.",
+  "reminder.keepStreak": {
+    one: "Saisissez votre poids pour prolonger votre série de {count} jour.",
+    other: "Saisissez votre poids pour prolonger votre série de {count} jours.",
+  },
+  "reminder.logNow": "Saisir",
+  "reminder.dismiss": "Masquer pour aujourd’hui",
+
+  "chart.title": "Évolution du poids",
+  "chart.description":
+    "Pesées quotidiennes avec la tendance lissée et la ligne d’objectif.",
+  "chart.goal": "Objectif {weight}",
+  "chart.trend": "Tendance {weight}",
+  "chart.target": "Échéance",
+  "chart.forecast": "prévision",
+  "chart.entry": "Entrée",
+  "chart.emptyTitle": "Ajoutez une entrée de plus pour voir la tendance.",
+  "chart.emptyHint": "Il faut au moins 2 points.",
+
+  "consistency.title": "Régularité",
+  "consistency.description": "Chaque jour saisi cette année, coloré selon la variation depuis la veille.",
+  "consistency.current": "Série en cours",
+  "consistency.longest": "Plus longue série",
+  "consistency.days": { one: "{count} jour", other: "{count} jours" },
+  "consistency.loggedToday": "Aujourd’hui est saisi.",
+  "consistency.atRisk": "Saisissez aujourd’hui pour la prolonger.",
+  "consistency.toward": "Vers l’objectif",
+  "consistency.away": "Loin de l’objectif",
+  "consistency.noChange": "Sans variation",
+  "consistency.notLogged": "Non saisi",
+  "consistency.restDay": "Jour de repos",
+  "consistency.restToday": "Jour de repos aujourd’hui, la série ne risque rien.",
+  "consistency.monthRate": "{logged} jours de pesée saisis sur {days}",
+  "consistency.previousYear": "Année précédente",
+  "consistency.nextYear": "Année suivante",
+
+  "profile.title": "Profil",
+  "profile.description": "Statistiques et plan personnels.",
+  "profile.since": "Depuis le {date}",
+  "profile.start": "Départ",
+  "profile.goal": "Objectif",
+  "profile.holding": "Dans la fourchette",
+  "profile.goalReached": "Objectif atteint",
+  "profile.outsideBand": "{amount} hors de la fourchette",
+  "profile.toGo": "Encore {amount}",
+  "profile.targetDate": "Date visée",
+  "profile.entries": "Entrées",
+
+  "forecast.title": "Prévision",
+  "forecast.offTrack": "Hors trajectoire",
+  "forecast.onTrack": "Dans les temps",
+  "forecast.daysBehind": {
+    one: "{count} jour de retard",
+    other: "{count} jours de retard",
+  },
+  "forecast.range": "Objectif vers le {date}, probablement entre {earliest} et {latest}",
+  "forecast.sooner": "plus tôt",
+  "forecast.later": "plus tard",
+  "forecast.notHeading": "Votre tendance récente ne mène pas encore à l’objectif.",
+
+  "phase.title": "Phase « {phase} »",
+  "phase.reached": "Objectif de la phase atteint",
+
+  "entries.title": "Entrées",
+  "entries.trash": "Corbeille",
+  "entries.description": "Cliquez sur une entrée pour la modifier.",
+  "entries.empty": "Aucune entrée pour l’instant — commencez dès aujourd’hui !",
+  "entries.loadFailed": "Impossible de charger l’entrée.",
+  "entries.restored": "Entrée restaurée ✨",
+  "entries.undoFailed": "L’annulation a échoué.",
+  "entries.collision": "Une autre entrée existe désormais à cette date.",
+  "entries.trashed": "Entrée placée dans la corbeille 🗑️",
+  "entries.viewAll": "Tout voir",
+
+  // ==================== HISTORY PAGE ====================
+  "allEntries.title": "Historique des entrées",
+  "allEntries.description": "Toutes vos pesées. Triez par colonne, modifiez une ligne sur place ou sélectionnez des lignes à supprimer.",
+  "allEntries.back": "Tableau de bord",
+  "allEntries.from": "Du",
+  "allEntries.to": "Au",
+  "allEntries.search": "Rechercher dans les notes…",
+  "allEntries.clear": "Effacer les filtres",
+  "allEntries.change": "Variation",
+  "allEntries.actions": "Actions",
+  "allEntries.selectPage": "Sélectionner toutes les entrées de cette page",
+  "allEntries.selectRow": "Sélectionner l’entrée",
+  "allEntries.deleteSelected": {
+    one: "Supprimer {count} entrée",
+    other: "Supprimer {count} entrées",
+  },
+  "allEntries.trashed": {
+    one: "{count} entrée placée dans la corbeille 🗑️",
+    other: "{count} entrées placées dans la corbeille 🗑️",
+  },
+  "allEntries.restored": {
+    one: "{count} entrée restaurée ✨",
+    other: "{count} entrées restaurées ✨",
+  },
+  "allEntries.noMatch": "Aucune entrée ne correspond à ces filtres.",
+  "allEntries.count": { one: "{count} entrée", other: "{count} entrées" },
+  "allEntries.page": "Page {page} sur {pages}",
+  "allEntries.previous": "Page précédente",
+  "allEntries.next": "Page suivante",
+
+  "footer.title": "Synchronisation cloud active",
+  "footer.description": "Vos entrées sont à l’abri dans Neon PostgreSQL.",
+
+  "edit.title": "Modifier l’entrée",
+  "edit.description": "Modifiez le poids, la note ou la date.",
+  "edit.timeOfDay": "Moment de la journée",
+  "edit.history": "Historique",
+  "edit.hideHistory": "Masquer l’historique",
+  "edit.saveChanges": "Enregistrer",
+  "edit.collision": "Vous avez déjà une entrée à cette date !",
+  "edit.saved": "Entrée mise à jour ✨",
+  "edit.failed": "Impossible de mettre à jour l’entrée.",
+
+  "deleteConfirm.title": "Supprimer l’entrée ?",
+  "deleteConfirm.description":
+    "Elle part dans la corbeille, d’où vous pourrez la restaurer pendant un temps.",
+
+  // ==================== MOTIVATION ====================
+  "motivation.unstoppable.title": "Rien ne vous arrête 🔥",
+  "motivation.unstoppable.message": {
+    one: "Votre série est de {count} jour. C’est de la vraie discipline.",
+    other: "Votre série est de {count} jours. C’est de la vraie discipline.",
+  },
+  "motivation.progress.title": "Objectif en bonne voie 🏆",
+  "motivation.progress.message":
+    "Vous avez accompli {progress} % de votre objectif. Continuez sur cette lancée !",
+  "motivation.momentum.title": "L’élan est avec vous ⚡",
+  "motivation.momentum.message":
+    "Votre tendance est de {rate}/semaine. C’est un excellent rythme.",
+  "motivation.consistency.title": "La régularité bat le talent 💎",
+  "motivation.consistency.message":
+    "Chaque jour saisi vous rapproche de la personne que vous voulez être.",
+  "motivation.smallSteps.title": "Petits pas = grands résultats 🌱",
+  "motivation.smallSteps.noGoal":
+    "La régularité compte plus que la motivation. Soyez juste là aujourd’hui.",
+  "motivation.smallSteps.maintain":
+    "Seulement {amount} hors de votre fourchette. Une semaine régulière suffit pour revenir.",
+  "motivation.smallSteps.goal":
+    "Plus que {amount} avant votre objectif. Vous êtes plus proche que vous ne le pensez.",
+  "motivation.habit.title": "L’habitude s’installe ✅",
+  "motivation.habit.message": "Votre série s’allonge. Gardez le rythme.",
+  "motivation.invisible.title": "Le progrès est invisible… jusqu’au jour où il se voit ✨",
+  "motivation.invisible.message": "Continuez. Votre futur vous remerciera.",
+  "motivation.fluctuations.title": "Les variations sont normales 🚧",
+  "motivation.fluctuations.message":
+    "Le poids monte et descend d’un jour à l’autre. Regardez la tendance, pas une journée.",
+  "motivation.adjust.title": "N’abandonnez pas. Ajustez 🧠",
+  "motivation.adjust.lose":
+    "Une hausse est un signal, pas un échec. Hydratez-vous, dormez, bougez.",
+  "motivation.adjust.maintain":
+    "Un écart est un signal, pas un échec. De petits ajustements vous ramènent.",
+  "motivation.adjust.gain":
+    "Une baisse est un signal, pas un échec. Mangez assez, dormez, entraînez-vous.",
+  "motivation.checkpoint.title": "Aujourd’hui est un point d’étape 📍",
+  "motivation.checkpoint.message":
+    "Saisissez votre poids aujourd’hui. Les données apportent de la clarté.",
+  "motivation.futureYou.title": "Votre futur vous regarde 👀",
+  "motivation.futureYou.message":
+    "Une entrée aujourd’hui facilite demain. Gardez le rythme.",
+  "motivation.restDay.title": "Jour de repos 🛋️",
+  "motivation.restDay.message": "Aucune pesée prévue aujourd’hui. Prochaine : {day}.",
+  "motivation.holding.title": "Bien stable 🏆",
+  "motivation.holding.message":
+    "Vous êtes à {tolerance} près de {goal}. C’est ça, maintenir.",
+  "motivation.achieved.title": "Objectif atteint 🏆",
+  "motivation.achieved.message":
+    "Vous avez réussi ! Concentrez-vous maintenant sur le maintien et votre mode de vie.",
+
+  // ==================== DIALOGS ====================
+  "logDay.title": "Saisir un autre jour",
+  "logDay.description": "Les jours marqués d’un point ont déjà une entrée.",
+  "logDay.pickFirst": "Choisissez d’abord un jour.",
+  "logDay.pickDay": "Choisissez un jour",
+  "logDay.alreadyLogged": "{day} est déjà saisi à",
+  "logDay.saveEntry": "Enregistrer l’entrée",
+  "logDay.saved": "{date} enregistré ✅",
+  "logDay.failed": "Impossible d’enregistrer l’entrée.",
+
+  "trash.title": "Corbeille",
+  "trash.description": {
+    one: "Les entrées supprimées sont conservées {count} jour, puis effacées définitivement.",
+    other:
+      "Les entrées supprimées sont conservées {count} jours, puis effacées définitivement.",
+  },
+  "trash.empty": "La corbeille est vide.",
+  "trash.emptyAction": "Vider la corbeille",
+  "trash.loadFailed": "Impossible de charger la corbeille.",
+  "trash.restoreFailed": "La restauration a échoué.",
+
+  "history.action.create": "Saisie",
+  "history.action.update": "Modifiée",
+  "history.action.delete": "Supprimée",
+  "history.action.restore": "Restaurée",
+  "history.action.revert": "Rétablie",
+  "history.empty": "Aucune modification enregistrée pour cette entrée.",
+  "history.inTrash": "dans la corbeille",
+  "history.revert": "Rétablir",
+  "history.reverted": "Entrée rétablie ✨",
+  "history.revertFailed": "Le rétablissement a échoué.",
+  "history.loadFailed": "Impossible de charger l’historique.",
+
+  "settings.title": "Paramètres",
+  "settings.description":
+    "Votre profil, les phases d’objectif, les unités et le décompte des pesées.",
+  "settings.tab.profile": "Profil",
+  "settings.tab.goals": "Objectifs",
+  "settings.tab.weighIns": "Pesées",
+  "settings.name": "Nom",
+  "settings.nameRequired": "Le nom est obligatoire",
+  "settings.startWeight": "Poids de départ",
+  "settings.goalWeight": "Poids visé",
+  "settings.noGoal": "Pas d’objectif",
+  "settings.direction": "Sens",
+  "settings.tolerance": "Tolérance (± {unit})",
+  "settings.toleranceRange": "La tolérance doit être comprise entre 0 et {max}",
+  "settings.targetDate": "Date visée",
+  "settings.targetDateHint": "Laissez vide pour suivre sans échéance.",
+  "settings.saveProfile": "Enregistrer le profil",
+  "settings.saved": "Profil mis à jour ✨",
+  "settings.saveFailed": "Impossible de mettre à jour le profil.",
+  "settings.schedule": "Jours de pesée",
+  "settings.scheduleHint": "Les séries et les rappels ignorent les autres jours, par ex. lun / mer / ven ou une fois par semaine.",
+  "settings.weighIns": "Pesées",
+  "settings.weighInsHint": "Plusieurs par jour ajoute les créneaux matin / soir.",
+  "settings.severalADay": "Plusieurs par jour",
+  "settings.onceADay": "Une par jour",
+  "settings.dailyValue": "Valeur du jour",
+  "settings.dailyValueHint":
+    "La pesée qu’utilisent le graphique et les statistiques pour un jour.",
+  "settings.units": "Unités",
+  "settings.unitsHint": "Les poids sont affichés et saisis dans cette unité.",
+  "settings.smoothing": "Lissage de la tendance",
+  "settings.smoothingHint":
+    "Plus bas suit la tendance lentement, plus haut réagit à chaque pesée.",
+  "settings.weighInsFailed": "Impossible d’enregistrer les réglages des pesées.",
+
+  "goals.empty": "Aucune phase pour l’instant, le graphique montre votre objectif global.",
+  "goals.span": "{start} → {end}",
+  "goals.nextPhase": "phase suivante",
+  "goals.phase": "Phase",
+  "goals.target": "Cible",
+  "goals.tolerance": "± {unit}",
+  "goals.starts": "Début",
+  "goals.ends": "Fin (facultatif)",
+  "goals.add": "Ajouter la phase",
+  "goals.added": "Phase ajoutée ✨",
+  "goals.addFailed": "Impossible d’ajouter la phase.",
+  "goals.deleteFailed": "Impossible de supprimer la phase.",
+};
+
+export default fr;
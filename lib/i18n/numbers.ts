@@ -0,0 +1,34 @@
+// lib/i18n/numbers.ts
+// Locale-aware numbers, kept apart from the catalogs so lib/units.ts (and through it the
+// API schemas) can use them without pulling in every message.
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+// Fixed decimals, no grouping: weights never reach the thousands
+export function formatNumber(value: number, decimals: number, locale = "en") {
+  const key = `${locale}:${decimals}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, {
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+      useGrouping: false,
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter.format(value);
+}
+
+// Typed text -> number, NaN when it isn't one. Takes "72.5", "72,5" and Arabic-Indic
+// digits with the Arabic decimal separator ("٧٢٫٥") whatever the locale, so a keyboard
+// set to another language still works
+export function parseDecimal(value: string) {
+  const normalized = value
+    .trim()
+    .replace(/[٠-٩]/g, (d) => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[۰-۹]/g, (d) => String(d.charCodeAt(0) - 0x06f0))
+    .replace(/[٫,]/g, ".")
+    .replace(/−/g, "-");
+
+  return /^-?(\d+\.?\d*|\.\d+)$/.test(normalized) ? Number(normalized) : NaN;
+}
@@ -0,0 +1,9 @@
+// lib/i18n/types.ts
+
+// Forms picked by Intl.PluralRules, "other" is the fallback every language has
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & {
+  other: string;
+};
+
+// "{name}" placeholders are filled in by t(), see lib/i18n/index.ts
+export type Message = string | PluralMessage;
@@ -0,0 +1,91 @@
+// lib/migrate.ts
+import { getDriver, isUniqueViolation, sql, statement } from "@/lib/drivers";
+import type { SqlDriver, SqlStatement } from "@/lib/drivers";
+import { migrations } from "@/lib/migrations";
+
+// Any constant will do, every runner just has to use the same one
+const MIGRATION_LOCK_ID = 2_024_003;
+
+// Several instances can boot at once (serverless cold starts). On Postgres the advisory
+// lock, released at commit, queues their transactions; SQLite's write lock does the same
+const locked = (driver: SqlDriver, statements: SqlStatement[]): SqlStatement[] =>
+  driver.dialect === "postgres"
+    ? [{ text: `SELECT pg_advisory_xact_lock(${MIGRATION_LOCK_ID})` }, ...statements]
+    : statements;
+
+export async function getAppliedVersions() {
+  const driver = await getDriver();
+
+  // Concurrent CREATE TABLE IF NOT EXISTS can still clash on Postgres, hence the lock
+  await driver.transaction(
+    locked(driver, [
+      {
+        text: `
+          CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INTEGER PRIMARY KEY,
+            name TEXT NOT NULL,
+            applied_at TEXT NOT NULL
+          )
+        `,
+      },
+    ])
+  );
+
+  const rows = await sql<{ version: number }>`
+    SELECT version FROM schema_migrations ORDER BY version
+  `;
+  return rows.map((r) => Number(r.version));
+}
+
+// Applies every pending migration in version order, returns what this runner applied.
+// Each one runs in a transaction with its version row, so a failure leaves nothing behind
+// to trip up the retry (SQLite has no ADD COLUMN IF NOT EXISTS)
+export async function migrate() {
+  const driver = await getDriver();
+  const applied = new Set(await getAppliedVersions());
+
+  const pending = [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .filter((m) => !applied.has(m.version));
+
+  const ran: number[] = [];
+
+  for (const migration of pending) {
+    try {
+      await driver.transaction(
+        locked(driver, [
+          // Recorded first: a runner that lost the race fails here, before any DDL
+          await statement`
+            INSERT INTO schema_migrations (version, name, applied_at)
+            VALUES (${migration.version}, ${migration.name}, ${new Date().toISOString()})
+          `,
+          ...migration.up[driver.dialect].map((text) => ({ text })),
+        ])
+      );
+    } catch (err) {
+      // Another instance applied it in the meantime
+      if (isUniqueViolation(err)) continue;
+      throw err;
+    }
+
+    ran.push(migration.version);
+    console.log(`✅ Applied migration ${migration.version}_${migration.name} (${driver.name})`);
+  }
+
+  return ran;
+}
+
+// Shared by the startup hook and any caller that needs the schema ready
+const globalForMigrate = globalThis as unknown as {
+  dbMigration?: Promise<number[]>;
+};
+
+export function ensureMigrated() {
+  if (!globalForMigrate.dbMigration) {
+    globalForMigrate.dbMigration = migrate().catch((err) => {
+      globalForMigrate.dbMigration = undefined;
+      throw err;
+    });
+  }
+  return globalForMigrate.dbMigration;
+}
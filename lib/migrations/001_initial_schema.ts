@@ -0,0 +1,57 @@
+// lib/migrations/001_initial_schema.ts
+import type { Migration } from "./types";
+
+// IF NOT EXISTS so databases created by hand before migrations existed are adopted as-is
+const migration: Migration = {
+  version: 1,
+  name: "initial_schema",
+  up: {
+    postgres: [
+      `CREATE TABLE IF NOT EXISTS user_profiles (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL,
+        start_weight NUMERIC(6, 2) NOT NULL,
+        goal_weight NUMERIC(6, 2),
+        start_date TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        target_date TIMESTAMPTZ,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )`,
+      `CREATE TABLE IF NOT EXISTS weight_entries (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+        date TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        weight NUMERIC(6, 2) NOT NULL,
+        note TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )`,
+      `CREATE INDEX IF NOT EXISTS weight_entries_user_date_idx
+        ON weight_entries (user_id, date)`,
+    ],
+    sqlite: [
+      // ISO-8601 UTC defaults, same shape the Postgres drivers hand back as JSON
+      `CREATE TABLE IF NOT EXISTS user_profiles (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        start_weight REAL NOT NULL,
+        goal_weight REAL,
+        start_date TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        target_date TEXT,
+        created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+      )`,
+      `CREATE TABLE IF NOT EXISTS weight_entries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+        date TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        weight REAL NOT NULL,
+        note TEXT,
+        created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+      )`,
+      `CREATE INDEX IF NOT EXISTS weight_entries_user_date_idx
+        ON weight_entries (user_id, date)`,
+    ],
+  },
+};
+
+export default migration;
@@ -0,0 +1,38 @@
+// lib/migrations/002_accounts_and_sessions.ts
+import type { Migration } from "./types";
+
+// Profiles created before accounts existed keep NULL credentials and can't sign in
+const migration: Migration = {
+  version: 2,
+  name: "accounts_and_sessions",
+  up: {
+    postgres: [
+      `ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS email TEXT`,
+      `ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS password_hash TEXT`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS user_profiles_email_idx
+        ON user_profiles (email)`,
+      `CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        expires_at TIMESTAMPTZ NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS sessions_user_idx ON sessions (user_id)`,
+    ],
+    sqlite: [
+      `ALTER TABLE user_profiles ADD COLUMN email TEXT`,
+      `ALTER TABLE user_profiles ADD COLUMN password_hash TEXT`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS user_profiles_email_idx
+        ON user_profiles (email)`,
+      `CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+        created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        expires_at TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS sessions_user_idx ON sessions (user_id)`,
+    ],
+  },
+};
+
+export default migration;
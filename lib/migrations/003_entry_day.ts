@@ -0,0 +1,43 @@
+// lib/migrations/003_entry_day.ts
+import type { Migration } from "./types";
+
+// `day` is the client's local calendar day as "YYYY-MM-DD" text (a Postgres DATE would be
+// parsed into a midnight Date by the drivers and drift across timezones).
+// Existing rows are backfilled with their UTC day; when a day already holds several
+// entries only the latest one gets it, the older ones keep NULL instead of being deleted.
+const migration: Migration = {
+  version: 3,
+  name: "entry_day",
+  up: {
+    postgres: [
+      `ALTER TABLE weight_entries ADD COLUMN IF NOT EXISTS day TEXT`,
+      `UPDATE weight_entries AS w
+        SET day = to_char(w.date AT TIME ZONE 'UTC', 'YYYY-MM-DD')
+        WHERE w.day IS NULL AND w.id = (
+          SELECT w2.id FROM weight_entries AS w2
+          WHERE w2.user_id = w.user_id
+            AND to_char(w2.date AT TIME ZONE 'UTC', 'YYYY-MM-DD') = to_char(w.date AT TIME ZONE 'UTC', 'YYYY-MM-DD')
+          ORDER BY w2.date DESC, w2.id DESC
+          LIMIT 1
+        )`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS weight_entries_user_day_idx
+        ON weight_entries (user_id, day)`,
+    ],
+    sqlite: [
+      `ALTER TABLE weight_entries ADD COLUMN day TEXT`,
+      `UPDATE weight_entries
+        SET day = substr(date, 1, 10)
+        WHERE day IS NULL AND id = (
+          SELECT w2.id FROM weight_entries AS w2
+          WHERE w2.user_id = weight_entries.user_id
+            AND substr(w2.date, 1, 10) = substr(weight_entries.date, 1, 10)
+          ORDER BY w2.date DESC, w2.id DESC
+          LIMIT 1
+        )`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS weight_entries_user_day_idx
+        ON weight_entries (user_id, day)`,
+    ],
+  },
+};
+
+export default migration;
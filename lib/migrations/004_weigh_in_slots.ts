@@ -0,0 +1,34 @@
+// lib/migrations/004_weigh_in_slots.ts
+import type { Migration } from "./types";
+
+// Multi weigh-in mode: entries get a slot (morning / evening / other), profiles choose how a
+// day's readings collapse into one value. Unslotted entries keep the one-per-day rule,
+// morning and evening are unique per day, "other" readings are unlimited.
+const migration: Migration = {
+  version: 4,
+  name: "weigh_in_slots",
+  up: {
+    postgres: [
+      `ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS multi_weigh_in BOOLEAN NOT NULL DEFAULT FALSE`,
+      `ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS daily_value TEXT NOT NULL DEFAULT 'first'`,
+      `ALTER TABLE weight_entries ADD COLUMN IF NOT EXISTS slot TEXT`,
+      `DROP INDEX IF EXISTS weight_entries_user_day_idx`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS weight_entries_user_day_idx
+        ON weight_entries (user_id, day) WHERE slot IS NULL`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS weight_entries_user_day_slot_idx
+        ON weight_entries (user_id, day, slot) WHERE slot IN ('morning', 'evening')`,
+    ],
+    sqlite: [
+      `ALTER TABLE user_profiles ADD COLUMN multi_weigh_in INTEGER NOT NULL DEFAULT 0`,
+      `ALTER TABLE user_profiles ADD COLUMN daily_value TEXT NOT NULL DEFAULT 'first'`,
+      `ALTER TABLE weight_entries ADD COLUMN slot TEXT`,
+      `DROP INDEX IF EXISTS weight_entries_user_day_idx`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS weight_entries_user_day_idx
+        ON weight_entries (user_id, day) WHERE slot IS NULL`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS weight_entries_user_day_slot_idx
+        ON weight_entries (user_id, day, slot) WHERE slot IN ('morning', 'evening')`,
+    ],
+  },
+};
+
+export default migration;
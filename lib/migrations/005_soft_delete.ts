@@ -0,0 +1,36 @@
+// lib/migrations/005_soft_delete.ts
+import type { Migration } from "./types";
+
+// Deleted entries and closed accounts keep their rows with a deleted_at stamp until the
+// retention period purges them (lib/trash.ts). The per-day unique indexes only cover
+// live entries, so a trashed day can be logged again.
+const migration: Migration = {
+  version: 5,
+  name: "soft_delete",
+  up: {
+    postgres: [
+      `ALTER TABLE weight_entries ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ`,
+      `ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ`,
+      `DROP INDEX IF EXISTS weight_entries_user_day_idx`,
+      `DROP INDEX IF EXISTS weight_entries_user_day_slot_idx`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS weight_entries_user_day_idx
+        ON weight_entries (user_id, day) WHERE slot IS NULL AND deleted_at IS NULL`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS weight_entries_user_day_slot_idx
+        ON weight_entries (user_id, day, slot)
+        WHERE slot IN ('morning', 'evening') AND deleted_at IS NULL`,
+    ],
+    sqlite: [
+      `ALTER TABLE weight_entries ADD COLUMN deleted_at TEXT`,
+      `ALTER TABLE user_profiles ADD COLUMN deleted_at TEXT`,
+      `DROP INDEX IF EXISTS weight_entries_user_day_idx`,
+      `DROP INDEX IF EXISTS weight_entries_user_day_slot_idx`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS weight_entries_user_day_idx
+        ON weight_entries (user_id, day) WHERE slot IS NULL AND deleted_at IS NULL`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS weight_entries_user_day_slot_idx
+        ON weight_entries (user_id, day, slot)
+        WHERE slot IN ('morning', 'evening') AND deleted_at IS NULL`,
+    ],
+  },
+};
+
+export default migration;
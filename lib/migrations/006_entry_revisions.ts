@@ -0,0 +1,40 @@
+// lib/migrations/006_entry_revisions.ts
+import type { Migration } from "./types";
+
+// Audit trail for weight_entries. old_values / new_values are JSON snapshots
+// ({ weight, note, date, day, slot }) kept as TEXT so both dialects read them the same way;
+// a purged entry takes its history with it.
+const migration: Migration = {
+  version: 6,
+  name: "entry_revisions",
+  up: {
+    postgres: [
+      `CREATE TABLE IF NOT EXISTS entry_revisions (
+        id SERIAL PRIMARY KEY,
+        entry_id INTEGER NOT NULL REFERENCES weight_entries(id) ON DELETE CASCADE,
+        user_id INTEGER NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+        action TEXT NOT NULL,
+        old_values TEXT,
+        new_values TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )`,
+      `CREATE INDEX IF NOT EXISTS entry_revisions_entry_idx
+        ON entry_revisions (entry_id, created_at)`,
+    ],
+    sqlite: [
+      `CREATE TABLE IF NOT EXISTS entry_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        entry_id INTEGER NOT NULL REFERENCES weight_entries(id) ON DELETE CASCADE,
+        user_id INTEGER NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+        action TEXT NOT NULL,
+        old_values TEXT,
+        new_values TEXT,
+        created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+      )`,
+      `CREATE INDEX IF NOT EXISTS entry_revisions_entry_idx
+        ON entry_revisions (entry_id, created_at)`,
+    ],
+  },
+};
+
+export default migration;
@@ -0,0 +1,43 @@
+// lib/migrations/007_goal_phases.ts
+import type { Migration } from "./types";
+
+// A plan split into phases (lose / maintain / gain), each with its own target, a tolerance
+// band in kg and a span of local days ("YYYY-MM-DD" text, like weight_entries.day). An
+// open-ended phase has no end_day. The profile's goal_weight stays the overall goal, so
+// existing accounts start without phases rather than with a copy of it.
+const migration: Migration = {
+  version: 7,
+  name: "goal_phases",
+  up: {
+    postgres: [
+      `CREATE TABLE IF NOT EXISTS goal_phases (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+        phase TEXT NOT NULL,
+        target_weight NUMERIC(6, 2) NOT NULL,
+        tolerance NUMERIC(4, 2) NOT NULL DEFAULT 0,
+        start_day TEXT NOT NULL,
+        end_day TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )`,
+      `CREATE INDEX IF NOT EXISTS goal_phases_user_start_idx
+        ON goal_phases (user_id, start_day)`,
+    ],
+    sqlite: [
+      `CREATE TABLE IF NOT EXISTS goal_phases (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+        phase TEXT NOT NULL,
+        target_weight REAL NOT NULL,
+        tolerance REAL NOT NULL DEFAULT 0,
+        start_day TEXT NOT NULL,
+        end_day TEXT,
+        created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+      )`,
+      `CREATE INDEX IF NOT EXISTS goal_phases_user_start_idx
+        ON goal_phases (user_id, start_day)`,
+    ],
+  },
+};
+
+export default migration;
@@ -0,0 +1,32 @@
+// lib/migrations/008_goal_direction.ts
+import type { Migration } from "./types";
+
+// Which way the profile goal points (lose / maintain / gain) and the band in kg that counts
+// as reached, or as holding when maintaining. Existing goals get the direction their start
+// and goal weights imply.
+const backfill = `UPDATE user_profiles
+  SET goal_direction = CASE
+    WHEN goal_weight < start_weight THEN 'lose'
+    WHEN goal_weight > start_weight THEN 'gain'
+    ELSE 'maintain'
+  END
+  WHERE goal_weight IS NOT NULL AND goal_direction IS NULL`;
+
+const migration: Migration = {
+  version: 8,
+  name: "goal_direction",
+  up: {
+    postgres: [
+      `ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS goal_direction TEXT`,
+      `ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS goal_tolerance NUMERIC(4, 2) NOT NULL DEFAULT 0`,
+      backfill,
+    ],
+    sqlite: [
+      `ALTER TABLE user_profiles ADD COLUMN goal_direction TEXT`,
+      `ALTER TABLE user_profiles ADD COLUMN goal_tolerance REAL NOT NULL DEFAULT 0`,
+      backfill,
+    ],
+  },
+};
+
+export default migration;
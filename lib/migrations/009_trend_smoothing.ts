@@ -0,0 +1,19 @@
+// lib/migrations/009_trend_smoothing.ts
+import type { Migration } from "./types";
+
+// Smoothing factor of the trend-weight line (lib/trend.ts): the share of each new day's
+// value that moves the trend, 0.1 unless the user picks otherwise.
+const migration: Migration = {
+  version: 9,
+  name: "trend_smoothing",
+  up: {
+    postgres: [
+      `ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS trend_smoothing NUMERIC(3, 2) NOT NULL DEFAULT 0.1`,
+    ],
+    sqlite: [
+      `ALTER TABLE user_profiles ADD COLUMN trend_smoothing REAL NOT NULL DEFAULT 0.1`,
+    ],
+  },
+};
+
+export default migration;
@@ -0,0 +1,18 @@
+// lib/migrations/010_weight_unit.ts
+import type { Migration } from "./types";
+
+// Display unit of a profile (kg, lb or st). Weights themselves stay in kg, see lib/units.ts
+const migration: Migration = {
+  version: 10,
+  name: "weight_unit",
+  up: {
+    postgres: [
+      `ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS weight_unit TEXT NOT NULL DEFAULT 'kg'`,
+    ],
+    sqlite: [
+      `ALTER TABLE user_profiles ADD COLUMN weight_unit TEXT NOT NULL DEFAULT 'kg'`,
+    ],
+  },
+};
+
+export default migration;
@@ -0,0 +1,20 @@
+// lib/migrations/011_timezone.ts
+import type { Migration } from "./types";
+
+// IANA time zone of a profile ("Europe/Paris"), where its days start and end (see
+// lib/dates.ts). Existing profiles start on UTC and pick up their device's zone on the
+// next visit; the days already stored on their entries stay as they are
+const migration: Migration = {
+  version: 11,
+  name: "timezone",
+  up: {
+    postgres: [
+      `ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC'`,
+    ],
+    sqlite: [
+      `ALTER TABLE user_profiles ADD COLUMN timezone TEXT NOT NULL DEFAULT 'UTC'`,
+    ],
+  },
+};
+
+export default migration;
@@ -0,0 +1,19 @@
+// lib/migrations/012_chart_range.ts
+import type { Migration } from "./types";
+
+// Range the dashboard chart opens on: a preset ("90d", "ytd"…) or a custom
+// "YYYY-MM-DD..YYYY-MM-DD" span, see lib/ranges.ts
+const migration: Migration = {
+  version: 12,
+  name: "chart_range",
+  up: {
+    postgres: [
+      `ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS chart_range TEXT NOT NULL DEFAULT '30d'`,
+    ],
+    sqlite: [
+      `ALTER TABLE user_profiles ADD COLUMN chart_range TEXT NOT NULL DEFAULT '30d'`,
+    ],
+  },
+};
+
+export default migration;
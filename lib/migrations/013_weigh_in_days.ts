@@ -0,0 +1,19 @@
+// lib/migrations/013_weigh_in_days.ts
+import type { Migration } from "./types";
+
+// Weigh-in schedule: the weekdays the profile plans to weigh in on, as digits with
+// 0 = Sunday ("135" for Monday / Wednesday / Friday). Every day by default, see lib/streaks.ts
+const migration: Migration = {
+  version: 13,
+  name: "weigh_in_days",
+  up: {
+    postgres: [
+      `ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS weigh_in_days TEXT NOT NULL DEFAULT '0123456'`,
+    ],
+    sqlite: [
+      `ALTER TABLE user_profiles ADD COLUMN weigh_in_days TEXT NOT NULL DEFAULT '0123456'`,
+    ],
+  },
+};
+
+export default migration;
@@ -0,0 +1,34 @@
+// lib/migrations/index.ts
+import type { Migration } from "./types";
+import initialSchema from "./001_initial_schema";
+import accountsAndSessions from "./002_accounts_and_sessions";
+import entryDay from "./003_entry_day";
+import weighInSlots from "./004_weigh_in_slots";
+import softDelete from "./005_soft_delete";
+import entryRevisions from "./006_entry_revisions";
+import goalPhases from "./007_goal_phases";
+import goalDirection from "./008_goal_direction";
+import trendSmoothing from "./009_trend_smoothing";
+import weightUnit from "./010_weight_unit";
+import timezone from "./011_timezone";
+import chartRange from "./012_chart_range";
+import weighInDays from "./013_weigh_in_days";
+
+export type { Migration } from "./types";
+
+// Append new migrations here, never edit one that has shipped
+export const migrations: Migration[] = [
+  initialSchema,
+  accountsAndSessions,
+  entryDay,
+  weighInSlots,
+  softDelete,
+  entryRevisions,
+  goalPhases,
+  goalDirection,
+  trendSmoothing,
+  weightUnit,
+  timezone,
+  chartRange,
+  weighInDays,
+];
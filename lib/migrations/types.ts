@@ -0,0 +1,9 @@
+// lib/migrations/types.ts
+import type { SqlDialect } from "@/lib/drivers";
+
+export type Migration = {
+  version: number;
+  name: string;
+  // One statement per item: the Neon HTTP driver can't run multi-statement strings
+  up: Record<SqlDialect, string[]>;
+};
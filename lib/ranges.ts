@@ -0,0 +1,53 @@
+// lib/ranges.ts
+// Dashboard chart ranges (see chartRangeInput): presets count back from today, custom
+// ranges are a fixed "yyyy-MM-dd..yyyy-MM-dd" span. Days are the profile's local days.
+import {
+  differenceInCalendarDays,
+  format,
+  parseISO,
+  startOfYear,
+  subDays,
+  subMonths,
+  subYears,
+} from "date-fns";
+import type { ChartRange, ChartRangePreset } from "@/lib/schemas";
+
+export const DEFAULT_CHART_RANGE: ChartRangePreset = "30d";
+
+const dayKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+export const isCustomRange = (range: ChartRange): range is `${string}..${string}` =>
+  range.includes("..");
+
+export const customRange = (from: string, to: string): ChartRange =>
+  `${from}..${to}`;
+
+// First and last day a range shows, null where it is open (the whole history, up to today)
+export function rangeBounds(
+  range: ChartRange,
+  today: string
+): { from: string | null; to: string | null } {
+  if (isCustomRange(range)) {
+    const [from, to] = range.split("..");
+    return { from, to };
+  }
+
+  const end = parseISO(today);
+  const from = {
+    "7d": () => dayKey(subDays(end, 7)),
+    "30d": () => dayKey(subDays(end, 30)),
+    "90d": () => dayKey(subDays(end, 90)),
+    "6m": () => dayKey(subMonths(end, 6)),
+    "1y": () => dayKey(subYears(end, 1)),
+    ytd: () => dayKey(startOfYear(end)),
+    all: () => null,
+  }[range]();
+
+  return { from, to: null };
+}
+
+// Days a range spans, null for the whole history
+export function rangeLength(range: ChartRange, today: string) {
+  const { from, to } = rangeBounds(range, today);
+  return from ? differenceInCalendarDays(parseISO(to ?? today), parseISO(from)) : null;
+}
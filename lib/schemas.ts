@@ -0,0 +1,510 @@
+// lib/schemas.ts
+// Shared by the API routes (input validation, row normalization) and the client (typed responses)
+import { z } from "zod";
+import type { Translator } from "@/lib/i18n";
+import { isTimeZone } from "@/lib/dates";
+import { fieldToKg, formatWeight } from "@/lib/units";
+
+export const MIN_WEIGHT_KG = 20;
+export const MAX_WEIGHT_KG = 400;
+
+// ==================== INPUT ====================
+export const weightInput = z
+  .number({ error: "Weight must be a number" })
+  .min(MIN_WEIGHT_KG, `Weight must be at least ${MIN_WEIGHT_KG} kg`)
+  .max(MAX_WEIGHT_KG, `Weight must be at most ${MAX_WEIGHT_KG} kg`);
+
+// Parses a form field in the profile's unit to kg, with the same rules the API applies.
+// Given the UI's translator the error comes in its language, otherwise in the API's
+export const parseWeightField = (
+  value: string,
+  unit: WeightUnit = "kg",
+  i18n?: Pick<Translator, "t" | "locale">
+) => {
+  const result = weightInput.safeParse(fieldToKg(value, unit));
+  if (result.success) return { weight: result.data, error: null };
+
+  const issue = result.error.issues[0];
+  if (issue.code === "invalid_type") {
+    return { weight: null, error: i18n?.t("weight.invalid") ?? issue.message };
+  }
+  if (!i18n && unit === "kg") return { weight: null, error: issue.message };
+
+  const tooSmall = issue.code === "too_small";
+  const bound = formatWeight(
+    tooSmall ? MIN_WEIGHT_KG : MAX_WEIGHT_KG,
+    unit,
+    0,
+    i18n?.locale
+  );
+  return {
+    weight: null,
+    error: i18n
+      ? i18n.t(tooSmall ? "weight.min" : "weight.max", { bound })
+      : `Weight must be at ${tooSmall ? "least" : "most"} ${bound}`,
+  };
+};
+
+export const noteInput = z
+  .string()
+  .trim()
+  .max(500, "Note must be 500 characters or less")
+  .nullish();
+
+export const dateInput = z.iso.datetime({
+  offset: true,
+  error: "Date must be an ISO-8601 timestamp",
+});
+
+// IANA time zone ("Europe/Paris") whose calendar days an entry is logged in
+export const timezoneInput = z
+  .string({ error: "Time zone must be a string" })
+  .refine(isTimeZone, "Unknown time zone");
+
+// Multi weigh-in mode: when in the day a reading was taken
+export const ENTRY_SLOTS = ["morning", "evening", "other"] as const;
+export const entrySlotInput = z.enum(ENTRY_SLOTS, {
+  error: "Slot must be morning, evening or other",
+});
+
+// How a day with several readings turns into the one value stats and the chart use
+export const DAILY_VALUES = ["first", "min", "average"] as const;
+export const dailyValueInput = z.enum(DAILY_VALUES, {
+  error: "Daily value must be first, min or average",
+});
+
+// Display unit, weights are always stored in kg (see lib/units.ts)
+export const WEIGHT_UNITS = ["kg", "lb", "st"] as const;
+export const weightUnitInput = z.enum(WEIGHT_UNITS, {
+  error: "Unit must be kg, lb or st",
+});
+
+// Dashboard chart range: a preset counted back from today, or a custom span of days
+export const CHART_RANGE_PRESETS = ["7d", "30d", "90d", "6m", "1y", "ytd", "all"] as const;
+export const chartRangeInput = z.union(
+  [
+    z.enum(CHART_RANGE_PRESETS),
+    z
+      .templateLiteral([z.iso.date(), "..", z.iso.date()])
+      .refine((range) => {
+        const [from, to] = range.split("..");
+        return from <= to;
+      }, "A custom range can't end before it starts"),
+  ],
+  { error: "Range must be a preset or YYYY-MM-DD..YYYY-MM-DD" }
+);
+
+// Weigh-in schedule: weekdays the profile plans to weigh in on, 0 = Sunday like date-fns
+// getDay(). Any other day is a rest day, see lib/streaks.ts
+export const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+export const weighInDaysInput = z
+  .array(
+    z
+      .number({ error: "Weigh-in days must be weekday numbers" })
+      .int("Weigh-in days must be weekday numbers")
+      .min(0, "Weigh-in days go from 0 (Sunday) to 6 (Saturday)")
+      .max(6, "Weigh-in days go from 0 (Sunday) to 6 (Saturday)"),
+    { error: "Weigh-in days must be a list of weekdays" }
+  )
+  .min(1, "Pick at least one weigh-in day")
+  .transform((days) => [...new Set(days)].sort((a, b) => a - b));
+
+export const entryIdInput = z.coerce
+  .number({ error: "Entry id must be a number" })
+  .int()
+  .positive();
+
+// Without a date the entry is logged now, without a time zone on the profile's days. The
+// slot is ignored unless the profile is in multi weigh-in mode, where it defaults to one
+// matching the time of day
+export const createEntrySchema = z.object({
+  weight: weightInput,
+  note: noteInput,
+  date: dateInput.optional(),
+  slot: entrySlotInput.optional(),
+  timezone: timezoneInput.optional(),
+});
+
+export const updateEntrySchema = z.object({
+  entryId: entryIdInput,
+  weight: weightInput,
+  note: noteInput,
+  date: dateInput.nullish(),
+  slot: entrySlotInput.optional(),
+  timezone: timezoneInput.optional(),
+});
+
+// POST /api/entries/trash takes an entry back out of the trash
+export const restoreEntrySchema = z.object({
+  entryId: entryIdInput,
+});
+
+// POST /api/entries/history puts an entry back the way a revision left it
+export const revertEntrySchema = z.object({
+  entryId: entryIdInput,
+  revisionId: z.coerce
+    .number({ error: "Revision id must be a number" })
+    .int()
+    .positive(),
+});
+
+export const dayInput = z.iso.date({ error: "Day must be formatted as YYYY-MM-DD" });
+
+// PUT /api/entries/day/:date replaces that day's entry wholesale, or with a slot that
+// day's morning / evening reading ("other" readings aren't unique, POST them instead)
+export const upsertDayEntrySchema = z.object({
+  weight: weightInput,
+  note: noteInput,
+  slot: z
+    .enum(["morning", "evening"], { error: "Only morning and evening readings can be replaced" })
+    .optional(),
+  timezone: timezoneInput.optional(),
+});
+
+// Opaque keyset cursor for GET /api/entries: base64url of the last entry's "date|id"
+export const entryCursorInput = z.string().transform((value, ctx) => {
+  const [date, id] = Buffer.from(value, "base64url").toString().split("|");
+
+  if (!date || Number.isNaN(Date.parse(date)) || !Number.isInteger(Number(id))) {
+    ctx.addIssue({ code: "custom", message: "Invalid cursor" });
+    return z.NEVER;
+  }
+  return { date, id: Number(id) };
+});
+
+// GET /api/entries: newest first, `from` / `to` are inclusive local days
+export const ENTRY_PAGE_LIMIT = 500;
+
+export const entryListQuerySchema = z.object({
+  from: dayInput.optional(),
+  to: dayInput.optional(),
+  limit: z.coerce
+    .number({ error: "Limit must be a number" })
+    .int("Limit must be a whole number")
+    .min(1, "Limit must be at least 1")
+    .max(1000, "Limit must be at most 1000")
+    .default(ENTRY_PAGE_LIMIT),
+  cursor: entryCursorInput.optional(),
+  fields: z.enum(["full", "summary"]).default("full"),
+});
+
+// GET /api/stats, inclusive local days (defaults to the whole history)
+export const statsQuerySchema = z.object({
+  from: dayInput.optional(),
+  to: dayInput.optional(),
+});
+
+// GET /api/stats/calendar?year=, the current year (in the profile's time zone) by default
+export const calendarQuerySchema = z.object({
+  year: z.coerce
+    .number({ error: "Year must be a number" })
+    .int()
+    .min(1970, "Year must be 1970 or later")
+    .max(9999)
+    .optional(),
+});
+
+export const GOAL_DIRECTIONS = ["lose", "maintain", "gain"] as const;
+
+export const goalDirectionInput = z.enum(GOAL_DIRECTIONS, {
+  error: "Must be lose, maintain or gain",
+});
+
+// Band in kg around a target that counts as reached, or as holding when maintaining
+export const toleranceInput = z
+  .number({ error: "Tolerance must be a number" })
+  .min(0, "Tolerance can't be negative")
+  .max(10, "Tolerance must be at most 10 kg");
+
+// POST /api/goals. Without an end day the phase runs until the next one
+export const createGoalPhaseSchema = z
+  .object({
+    phase: goalDirectionInput,
+    targetWeight: weightInput,
+    tolerance: toleranceInput.default(0),
+    startDay: dayInput,
+    endDay: dayInput.nullish(),
+  })
+  .refine((goal) => !goal.endDay || goal.endDay >= goal.startDay, {
+    message: "End day must not be before the start day",
+    path: ["endDay"],
+  });
+
+export const goalPhaseIdInput = z.coerce
+  .number({ error: "Goal id must be a number" })
+  .int()
+  .positive();
+
+// PATCH /api/user, every field is optional; null clears the goal weight or target date.
+// A goal without a direction gets one from start vs goal weight (see lib/goals.ts)
+export const updateUserSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(80).optional(),
+  startWeight: weightInput.optional(),
+  goalWeight: weightInput.nullable().optional(),
+  goalDirection: goalDirectionInput.nullable().optional(),
+  goalTolerance: toleranceInput.optional(),
+  targetDate: dateInput.nullable().optional(),
+  multiWeighIn: z.boolean({ error: "multiWeighIn must be true or false" }).optional(),
+  dailyValue: dailyValueInput.optional(),
+  weightUnit: weightUnitInput.optional(),
+  timezone: timezoneInput.optional(),
+  chartRange: chartRangeInput.optional(),
+  weighInDays: weighInDaysInput.optional(),
+  // See lib/trend.ts
+  trendSmoothing: z
+    .number({ error: "Smoothing must be a number" })
+    .min(0.05, "Smoothing must be at least 0.05")
+    .max(0.5, "Smoothing must be at most 0.5")
+    .optional(),
+});
+
+export const registerSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(80),
+  email: z.email("Enter a valid email"),
+  password: z
+    .string()
+    .min(8, "Password must be at least 8 characters")
+    .max(200),
+  startWeight: weightInput,
+  goalWeight: weightInput.nullish(),
+  goalDirection: goalDirectionInput.nullish(),
+  goalTolerance: toleranceInput.optional(),
+  targetDate: dateInput.nullish(),
+  weightUnit: weightUnitInput.optional(),
+  timezone: timezoneInput.optional(),
+});
+
+export const loginSchema = z.object({
+  email: z.email("Enter a valid email"),
+  password: z.string().min(1, "Password is required"),
+});
+
+// ==================== ROWS / RESPONSES ====================
+// Postgres hands NUMERIC back as strings and timestamps as Date, SQLite as numbers and
+// text; both end up as plain numbers and ISO strings here
+const numeric = z.coerce.number();
+
+const timestamp = z
+  .union([z.string(), z.date()])
+  .transform((v) => (v instanceof Date ? v.toISOString() : v));
+
+// Unknown keys are stripped, so password_hash never survives a parse
+export const userProfileSchema = z.object({
+  id: numeric,
+  name: z.string(),
+  start_weight: numeric,
+  goal_weight: numeric.nullable(),
+  // NULL without a goal
+  goal_direction: goalDirectionInput.nullable(),
+  goal_tolerance: numeric,
+  start_date: timestamp,
+  target_date: timestamp.nullable(),
+  email: z.string().nullable(),
+  // SQLite stores it as 0/1
+  multi_weigh_in: z.coerce.boolean(),
+  daily_value: dailyValueInput,
+  trend_smoothing: numeric,
+  weight_unit: weightUnitInput,
+  // IANA zone the profile's days are counted in
+  timezone: z.string(),
+  chart_range: chartRangeInput,
+  // Rows carry the digits ("135"), API responses the parsed weekdays
+  weigh_in_days: z.preprocess(
+    (value) => (typeof value === "string" ? [...value].map(Number) : value),
+    z.array(z.number())
+  ),
+  created_at: timestamp,
+  updated_at: timestamp,
+});
+
+export const weightEntrySchema = z.object({
+  id: numeric,
+  user_id: numeric,
+  date: timestamp,
+  // Local calendar day, NULL only on duplicates kept from before migration 003
+  day: z.string().nullable(),
+  weight: numeric,
+  note: z.string().nullable(),
+  // NULL unless logged in multi weigh-in mode
+  slot: entrySlotInput.nullable(),
+  created_at: timestamp,
+  // Set while the entry sits in the trash
+  deleted_at: timestamp.nullable(),
+});
+
+export const weightEntryListSchema = z.array(weightEntrySchema);
+
+// `fields=summary` projection: enough to plot and mark logged days
+export const weightEntrySummarySchema = weightEntrySchema.pick({
+  id: true,
+  date: true,
+  day: true,
+  weight: true,
+  slot: true,
+});
+
+export const weightEntrySummaryListSchema = z.array(weightEntrySummarySchema);
+
+export const REVISION_ACTIONS = [
+  "create",
+  "update",
+  "delete",
+  "restore",
+  "revert",
+] as const;
+
+// What an entry looked like before / after a revision, stored as JSON text
+export const entrySnapshotSchema = z.object({
+  weight: z.number(),
+  note: z.string().nullable(),
+  date: z.string(),
+  day: z.string().nullable(),
+  slot: entrySlotInput.nullable(),
+});
+
+// Rows carry the JSON text, API responses the parsed object
+const snapshot = z.preprocess(
+  (value) => (typeof value === "string" ? JSON.parse(value) : value),
+  entrySnapshotSchema
+);
+
+export const entryRevisionSchema = z.object({
+  id: numeric,
+  entry_id: numeric,
+  action: z.enum(REVISION_ACTIONS),
+  old_values: snapshot.nullable(),
+  new_values: snapshot.nullable(),
+  created_at: timestamp,
+});
+
+export const entryRevisionListSchema = z.array(entryRevisionSchema);
+
+export const goalPhaseSchema = z.object({
+  id: numeric,
+  user_id: numeric,
+  phase: goalDirectionInput,
+  target_weight: numeric,
+  tolerance: numeric,
+  start_day: z.string(),
+  end_day: z.string().nullable(),
+  created_at: timestamp,
+});
+
+export const goalPhaseListSchema = z.array(goalPhaseSchema);
+
+// Where the current phase stands, see lib/goals.ts
+export const phaseProgressSchema = z.object({
+  id: z.number(),
+  phase: goalDirectionInput,
+  targetWeight: z.number(),
+  tolerance: z.number(),
+  startDay: z.string(),
+  endDay: z.string().nullable(),
+  startWeight: z.number(),
+  currentWeight: z.number(),
+  // 0-100: weight covered when losing / gaining, share of days within the band when
+  // maintaining
+  progress: z.number().nullable(),
+  // kg still to go, or outside the band when maintaining
+  remaining: z.number(),
+  onTarget: z.boolean(),
+  daysLeft: z.number().nullable(),
+});
+
+// Goal-date forecast from lib/forecast.ts. Dates are local days; the goal dates are null
+// when the trend doesn't head for the goal (or the goal is to maintain), the latest one
+// also when the slow end of the range never gets there
+export const weightForecastSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  slope: z.number(), // kg per week
+  goalDate: z.string().nullable(),
+  goalDateEarliest: z.string().nullable(),
+  goalDateLatest: z.string().nullable(),
+  targetDate: z.string().nullable(),
+  // Projected goal date minus target date, negative when ahead
+  daysBehind: z.number().nullable(),
+  // From the newest day on, with the confidence band around the trend
+  projection: z.array(
+    z.object({ day: z.string(), weight: z.number(), low: z.number(), high: z.number() })
+  ),
+});
+
+// GET /api/stats response, built by lib/stats.ts. Everything is null when the range has
+// no entries; weights are daily values (see lib/daily.ts), rates are kg per week.
+// weeklyAvg and trendChange follow the smoothed trend weight (lib/trend.ts), totalChange
+// and rateOfChange the raw values
+const dayWeight = z.object({ day: z.string(), weight: z.number() });
+
+export const weightStatsSchema = z.object({
+  from: z.string().nullable(),
+  to: z.string().nullable(),
+  entryCount: z.number(),
+  daysLogged: z.number(),
+  startWeight: z.number().nullable(),
+  currentWeight: z.number().nullable(),
+  totalChange: z.number().nullable(),
+  trendWeight: z.number().nullable(),
+  trendChange: z.number().nullable(),
+  weeklyAvg: z.number().nullable(),
+  rateOfChange: z.number().nullable(),
+  min: dayWeight.nullable(),
+  max: dayWeight.nullable(),
+  avg7: z.number().nullable(),
+  avg30: z.number().nullable(),
+  // Progress, kg left (outside the band when maintaining) and whether the profile goal is
+  // met, see lib/goals.ts; null without a goal
+  goalProgress: z.number().nullable(),
+  goalRemaining: z.number().nullable(),
+  goalReached: z.boolean().nullable(),
+  // Phase active on the newest day in range, null without one
+  phase: phaseProgressSchema.nullable(),
+  // Needs a week or more of recent entries
+  forecast: weightForecastSchema.nullable(),
+  streak: z.number(),
+});
+
+// See lib/streaks.ts
+export const loggingCalendarSchema = z.object({
+  year: z.number(),
+  today: z.string(),
+  days: z.array(dayWeight.extend({ change: z.number().nullable() })),
+  months: z.array(
+    z.object({
+      month: z.string(),
+      daysLogged: z.number(),
+      days: z.number(),
+      rate: z.number().nullable(),
+    })
+  ),
+  streak: z.object({
+    current: z.number(),
+    longest: z.object({
+      length: z.number(),
+      from: z.string().nullable(),
+      to: z.string().nullable(),
+    }),
+    loggedToday: z.boolean(),
+    weighInToday: z.boolean(),
+  }),
+});
+
+export type UserProfile = z.infer<typeof userProfileSchema>;
+export type WeightEntry = z.infer<typeof weightEntrySchema>;
+export type WeightEntrySummary = z.infer<typeof weightEntrySummarySchema>;
+export type EntrySnapshot = z.infer<typeof entrySnapshotSchema>;
+export type EntryRevision = z.infer<typeof entryRevisionSchema>;
+export type RevisionAction = (typeof REVISION_ACTIONS)[number];
+export type EntrySlot = z.infer<typeof entrySlotInput>;
+export type DailyValue = z.infer<typeof dailyValueInput>;
+export type WeightUnit = (typeof WEIGHT_UNITS)[number];
+export type ChartRange = z.infer<typeof chartRangeInput>;
+export type ChartRangePreset = (typeof CHART_RANGE_PRESETS)[number];
+export type WeightStats = z.infer<typeof weightStatsSchema>;
+export type LoggingCalendar = z.infer<typeof loggingCalendarSchema>;
+export type UserChanges = z.infer<typeof updateUserSchema>;
+export type UpdateEntryInput = z.input<typeof updateEntrySchema>;
+export type GoalPhase = z.infer<typeof goalPhaseSchema>;
+export type GoalDirection = (typeof GOAL_DIRECTIONS)[number];
+export type PhaseProgress = z.infer<typeof phaseProgressSchema>;
+export type WeightForecast = z.infer<typeof weightForecastSchema>;
@@ -0,0 +1,170 @@
+// lib/stats.test.ts
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { dailyWeights } from "@/lib/daily";
+import { computeStats, profileGoal, rateOfChange, trailingAverage } from "@/lib/stats";
+import { daily, everyDay, profile, reading } from "@/test/fixtures";
+
+// Today is 2026-03-15 in the profile's zone (UTC)
+beforeAll(() => {
+  vi.useFakeTimers({ now: new Date("2026-03-15T12:00:00.000Z"), toFake: ["Date"] });
+});
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+describe("computeStats", () => {
+  it("comes back empty when nothing falls in the range", () => {
+    const days = daily(["2026-02-10", 82], ["2026-02-11", 81]);
+    const stats = computeStats(profile(), days, { from: "2026-03-01" });
+
+    expect(stats).toMatchObject({
+      from: null,
+      to: null,
+      entryCount: 0,
+      daysLogged: 0,
+      currentWeight: null,
+      rateOfChange: null,
+      forecast: null,
+      streak: 0,
+    });
+    expect(computeStats(profile(), []).entryCount).toBe(0);
+  });
+
+  it("handles a single day", () => {
+    const stats = computeStats(profile(), daily(["2026-03-15", 80]));
+
+    expect(stats).toMatchObject({
+      from: "2026-03-15",
+      to: "2026-03-15",
+      entryCount: 1,
+      daysLogged: 1,
+      startWeight: 80,
+      currentWeight: 80,
+      totalChange: 0,
+      trendWeight: 80,
+      trendChange: 0,
+      weeklyAvg: 0,
+      rateOfChange: null,
+      min: { day: "2026-03-15", weight: 80 },
+      max: { day: "2026-03-15", weight: 80 },
+      avg7: 80,
+      avg30: 80,
+      forecast: null,
+      streak: 1,
+    });
+  });
+
+  it("counts a multi weigh-in day once, by its daily value", () => {
+    const days = dailyWeights(
+      [
+        reading("2026-03-14", 82, "07:00"),
+        reading("2026-03-14", 81, "19:00"),
+        reading("2026-03-15", 80, "07:00"),
+      ],
+      "min",
+      "UTC"
+    );
+    const stats = computeStats(profile({ daily_value: "min" }), days);
+
+    expect(stats.entryCount).toBe(3);
+    expect(stats.daysLogged).toBe(2);
+    expect(stats.startWeight).toBe(81);
+    expect(stats.totalChange).toBe(-1);
+    expect(stats.max).toEqual({ day: "2026-03-14", weight: 81 });
+  });
+
+  it("counts a streak that started before the range", () => {
+    const days = everyDay("2026-03-01", "2026-03-15", (i) => 85 - i * 0.1);
+    const stats = computeStats(profile(), days, { from: "2026-03-10" });
+
+    expect(stats.daysLogged).toBe(6);
+    expect(stats.streak).toBe(15);
+  });
+
+  it("looks back from the end of a range that ends before today", () => {
+    const days = everyDay("2026-03-01", "2026-03-10", (i) => 85 - i * 0.1);
+
+    const past = computeStats(profile(), days, { to: "2026-03-05" });
+    expect(past.to).toBe("2026-03-05");
+    expect(past.currentWeight).toBeCloseTo(84.6);
+    expect(past.streak).toBe(5);
+
+    // Up to today the days since the 10th went unlogged
+    expect(computeStats(profile(), days).streak).toBe(0);
+  });
+
+  it("reports the profile goal over the range", () => {
+    const days = daily(["2026-03-14", 86], ["2026-03-15", 85]);
+    const stats = computeStats(profile({ start_weight: 90, goal_weight: 80 }), days);
+
+    expect(stats.goalProgress).toBe(50);
+    expect(stats.goalRemaining).toBe(5);
+    expect(stats.goalReached).toBe(false);
+  });
+});
+
+describe("rateOfChange", () => {
+  it("needs two days", () => {
+    expect(rateOfChange([])).toBeNull();
+    expect(rateOfChange(daily(["2026-03-15", 80]))).toBeNull();
+  });
+
+  it("is the fitted slope in kg per week", () => {
+    const days = everyDay("2026-03-01", "2026-03-15", (i) => 85 - i * 0.1);
+    expect(rateOfChange(days)).toBeCloseTo(-0.7);
+  });
+
+  it("fits through noise rather than first vs last", () => {
+    const days = daily(["2026-03-01", 80], ["2026-03-02", 84], ["2026-03-03", 80]);
+    expect(rateOfChange(days)).toBeCloseTo(0);
+  });
+});
+
+describe("trailingAverage", () => {
+  const days = everyDay("2026-03-01", "2026-03-15", (i) => 80 + i);
+
+  it("averages the span ending on the given day", () => {
+    // 03-09..03-15 hold 88..94
+    expect(trailingAverage(days, "2026-03-15", 7)).toBe(91);
+    expect(trailingAverage(days, "2026-03-03", 7)).toBe(81);
+  });
+
+  it("is null without days in the span", () => {
+    expect(trailingAverage([], "2026-03-15", 7)).toBeNull();
+    expect(trailingAverage(days, "2026-02-20", 7)).toBeNull();
+  });
+
+  it("takes a single day as is", () => {
+    expect(trailingAverage(daily(["2026-03-15", 80]), "2026-03-15", 30)).toBe(80);
+  });
+});
+
+describe("profileGoal", () => {
+  const days = daily(["2026-03-14", 86], ["2026-03-15", 85]);
+
+  it("is null without a goal weight or any day", () => {
+    expect(profileGoal(profile(), days)).toBeNull();
+    expect(profileGoal(profile({ goal_weight: 80 }), [])).toBeNull();
+  });
+
+  it("infers the direction from the start and goal weights", () => {
+    expect(profileGoal(profile({ start_weight: 90, goal_weight: 80 }), days)).toEqual({
+      progress: 50,
+      remaining: 5,
+      onTarget: false,
+    });
+    expect(profileGoal(profile({ start_weight: 80, goal_weight: 90 }), days)).toEqual({
+      progress: 50,
+      remaining: 5,
+      onTarget: false,
+    });
+  });
+
+  it("follows an explicit direction", () => {
+    const goal = profileGoal(
+      profile({ goal_weight: 85, goal_direction: "maintain", goal_tolerance: 0.5 }),
+      days
+    );
+    expect(goal).toEqual({ progress: 50, remaining: 0, onTarget: true });
+  });
+});
@@ -0,0 +1,162 @@
+// lib/stats.ts
+// Weight analytics behind GET /api/stats. Everything works on daily values (one point per
+// logged day, newest first, see lib/daily.ts) so multi weigh-in days count once.
+import { differenceInCalendarDays, format, parseISO, subDays } from "date-fns";
+import { localToday } from "@/lib/dates";
+import type { DailyWeight } from "@/lib/daily";
+import { forecastGoal } from "@/lib/forecast";
+import { currentStreak } from "@/lib/streaks";
+import { trendWeights } from "@/lib/trend";
+import { goalStatus, inferGoalDirection, phaseOn, phaseProgress } from "@/lib/goals";
+import type { GoalPhase, UserProfile, WeightStats } from "@/lib/schemas";
+
+const mean = (values: number[]) =>
+  values.length
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : null;
+
+// Calendar days from one "yyyy-MM-dd" key to another
+const daysBetween = (from: string, to: string) =>
+  differenceInCalendarDays(parseISO(to), parseISO(from));
+
+// Least-squares slope through every point, less jumpy than first-vs-last
+export function rateOfChange(days: DailyWeight[]) {
+  if (days.length < 2) return null;
+
+  const origin = days[days.length - 1].day;
+  const xs = days.map((d) => daysBetween(origin, d.day));
+  const ys = days.map((d) => d.weight);
+  const meanX = mean(xs)!;
+  const meanY = mean(ys)!;
+
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    variance += (xs[i] - meanX) ** 2;
+  }
+
+  return variance === 0 ? null : (covariance / variance) * 7;
+}
+
+// Mean daily value over the `span` days ending on `end`
+export function trailingAverage(days: DailyWeight[], end: string, span: number) {
+  const start = format(subDays(parseISO(end), span - 1), "yyyy-MM-dd");
+  return mean(
+    days.filter((d) => d.day >= start && d.day <= end).map((d) => d.weight)
+  );
+}
+
+// Profile goal (see goalStatus in lib/goals.ts) over `days`, newest first
+export function profileGoal(user: UserProfile, days: DailyWeight[]) {
+  if (user.goal_weight == null) return null;
+
+  return goalStatus(
+    user.goal_direction ?? inferGoalDirection(user.start_weight, user.goal_weight),
+    user.goal_weight,
+    user.goal_tolerance,
+    user.start_weight,
+    days
+  );
+}
+
+export function computeStats(
+  user: UserProfile,
+  days: DailyWeight[],
+  { from, to }: { from?: string; to?: string } = {},
+  phases: GoalPhase[] = []
+): WeightStats {
+  const inRange = days.filter(
+    (d) => (!from || d.day >= from) && (!to || d.day <= to)
+  );
+
+  if (!inRange.length) {
+    return {
+      from: null,
+      to: null,
+      entryCount: 0,
+      daysLogged: 0,
+      startWeight: null,
+      currentWeight: null,
+      totalChange: null,
+      trendWeight: null,
+      trendChange: null,
+      weeklyAvg: null,
+      rateOfChange: null,
+      min: null,
+      max: null,
+      avg7: null,
+      avg30: null,
+      goalProgress: null,
+      goalRemaining: null,
+      goalReached: null,
+      phase: null,
+      forecast: null,
+      streak: 0,
+    };
+  }
+
+  // Days are counted in the profile's time zone, a range ending earlier looks back from there
+  const today = localToday(user.timezone);
+  const asOf = to && to < today ? to : today;
+
+  const latest = inRange[0];
+  const first = inRange[inRange.length - 1];
+
+  const totalChange = latest.weight - first.weight;
+  const daysTracked = daysBetween(first.day, latest.day) || 1;
+
+  // The trend runs in from before the range, like the streak
+  const trend = new Map(
+    trendWeights(
+      days.filter((d) => d.day <= latest.day),
+      user.trend_smoothing
+    ).map((t) => [t.day, t.trend])
+  );
+  const trendChange = trend.get(latest.day)! - trend.get(first.day)!;
+
+  const point = ({ day, weight }: DailyWeight) => ({ day, weight });
+  const lowest = inRange.reduce((a, b) => (b.weight < a.weight ? b : a));
+  const highest = inRange.reduce((a, b) => (b.weight > a.weight ? b : a));
+  const phase = phaseOn(phases, latest.day);
+  const goal = profileGoal(user, inRange);
+
+  return {
+    from: first.day,
+    to: latest.day,
+    entryCount: inRange.reduce((sum, d) => sum + d.readings.length, 0),
+    daysLogged: inRange.length,
+    startWeight: first.weight,
+    currentWeight: latest.weight,
+    totalChange,
+    trendWeight: trend.get(latest.day)!,
+    trendChange,
+    weeklyAvg: (trendChange / daysTracked) * 7,
+    rateOfChange: rateOfChange(inRange),
+    min: point(lowest),
+    max: point(highest),
+    avg7: trailingAverage(inRange, latest.day, 7),
+    avg30: trailingAverage(inRange, latest.day, 30),
+    goalProgress: goal?.progress ?? null,
+    goalRemaining: goal?.remaining ?? null,
+    goalReached: goal?.onTarget ?? null,
+    phase: phase
+      ? phaseProgress(phase, days.filter((d) => d.day <= latest.day), latest.day)
+      : null,
+    forecast: forecastGoal(
+      inRange,
+      {
+        weight: user.goal_weight,
+        direction: user.goal_weight != null ? user.goal_direction : null,
+        targetDate: user.target_date,
+      },
+      user.timezone
+    ),
+    // A streak can run in from before the range
+    streak: currentStreak(
+      days.filter((d) => d.day <= latest.day),
+      asOf,
+      user.weigh_in_days
+    ),
+  };
+}
@@ -0,0 +1,144 @@
+// lib/streaks.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  currentStreak,
+  isWeighInDay,
+  longestStreak,
+  loggingCalendar,
+  monthlyLoggingRates,
+  nextWeighInDay,
+  streakSummary,
+} from "@/lib/streaks";
+import { daily, everyDay } from "@/test/fixtures";
+
+// March 2026 starts on a Sunday: the 2nd is a Monday, the 15th a Sunday
+const MON_WED_FRI = [1, 3, 5];
+
+describe("weigh-in schedule", () => {
+  it("tells scheduled days from rest days", () => {
+    expect(isWeighInDay("2026-03-02", MON_WED_FRI)).toBe(true);
+    expect(isWeighInDay("2026-03-03", MON_WED_FRI)).toBe(false);
+  });
+
+  it("finds the next scheduled day", () => {
+    expect(nextWeighInDay("2026-03-02", MON_WED_FRI)).toBe("2026-03-04");
+    expect(nextWeighInDay("2026-03-06", MON_WED_FRI)).toBe("2026-03-09");
+    expect(nextWeighInDay("2026-03-02", [1])).toBe("2026-03-09");
+  });
+});
+
+describe("currentStreak", () => {
+  const days = everyDay("2026-03-10", "2026-03-14", () => 80);
+
+  it("counts logged days in a row up to the newest", () => {
+    expect(currentStreak(days, "2026-03-14")).toBe(5);
+    expect(currentStreak([], "2026-03-14")).toBe(0);
+  });
+
+  it("keeps running through today until today is over", () => {
+    expect(currentStreak(days, "2026-03-15")).toBe(5);
+    expect(currentStreak(days, "2026-03-16")).toBe(0);
+  });
+
+  it("stops at a missed day", () => {
+    const gap = everyDay("2026-03-07", "2026-03-14", () => 80).filter(
+      (d) => d.day !== "2026-03-09"
+    );
+    expect(currentStreak(gap, "2026-03-14")).toBe(5);
+  });
+
+  it("skips rest days on the schedule", () => {
+    const logged = daily(["2026-03-02", 80], ["2026-03-04", 80], ["2026-03-06", 80]);
+
+    expect(currentStreak(logged, "2026-03-08", MON_WED_FRI)).toBe(3);
+    // Monday 9th is still in its grace period, Wednesday 11th ends the streak
+    expect(currentStreak(logged, "2026-03-09", MON_WED_FRI)).toBe(3);
+    expect(currentStreak(logged, "2026-03-11", MON_WED_FRI)).toBe(0);
+  });
+
+  it("counts a rest day logged anyway", () => {
+    const logged = daily(["2026-03-02", 80], ["2026-03-03", 80], ["2026-03-04", 80]);
+    expect(currentStreak(logged, "2026-03-04", MON_WED_FRI)).toBe(3);
+  });
+});
+
+describe("longestStreak", () => {
+  it("finds the longest run, the most recent one on a tie", () => {
+    const days = daily(
+      ["2026-03-01", 80],
+      ["2026-03-02", 80],
+      ["2026-03-05", 80],
+      ["2026-03-06", 80],
+      ["2026-03-09", 80]
+    );
+    expect(longestStreak(days)).toEqual({ length: 2, from: "2026-03-05", to: "2026-03-06" });
+  });
+
+  it("is empty without days", () => {
+    expect(longestStreak([])).toEqual({ length: 0, from: null, to: null });
+  });
+
+  it("follows the schedule", () => {
+    const days = daily(["2026-03-02", 80], ["2026-03-04", 80], ["2026-03-06", 80]);
+    expect(longestStreak(days, MON_WED_FRI).length).toBe(3);
+    expect(longestStreak(days).length).toBe(1);
+  });
+});
+
+describe("monthlyLoggingRates", () => {
+  it("counts from the first logged day up to today", () => {
+    const days = everyDay("2026-02-21", "2026-02-28", () => 80).filter(
+      (d) => d.day !== "2026-02-25"
+    );
+    const months = monthlyLoggingRates(days, 2026, "2026-03-10");
+
+    expect(months).toHaveLength(12);
+    expect(months[0]).toEqual({ month: "2026-01", daysLogged: 0, days: 0, rate: null });
+    expect(months[1]).toEqual({ month: "2026-02", daysLogged: 7, days: 8, rate: 7 / 8 });
+    expect(months[2]).toEqual({ month: "2026-03", daysLogged: 0, days: 10, rate: 0 });
+    expect(months[3].rate).toBeNull();
+  });
+
+  it("only counts scheduled days", () => {
+    const days = daily(["2026-03-02", 80], ["2026-03-03", 80]);
+    const march = monthlyLoggingRates(days, 2026, "2026-03-08", MON_WED_FRI)[2];
+
+    // Mon 2nd, Wed 4th and Fri 6th are scheduled, the Tuesday reading doesn't count
+    expect(march).toEqual({ month: "2026-03", daysLogged: 1, days: 3, rate: 1 / 3 });
+  });
+
+  it("has no rates without days", () => {
+    const months = monthlyLoggingRates([], 2026, "2026-03-10");
+    expect(months.every((m) => m.rate === null)).toBe(true);
+  });
+});
+
+describe("loggingCalendar", () => {
+  it("lists the year oldest first with changes from the day before, across years", () => {
+    const days = daily(["2025-12-31", 81], ["2026-01-02", 80], ["2026-01-03", 80.5]);
+
+    expect(loggingCalendar(days, 2026)).toEqual([
+      { day: "2026-01-02", weight: 80, change: -1 },
+      { day: "2026-01-03", weight: 80.5, change: 0.5 },
+    ]);
+    expect(loggingCalendar(days, 2025)).toEqual([
+      { day: "2025-12-31", weight: 81, change: null },
+    ]);
+  });
+});
+
+describe("streakSummary", () => {
+  it("flags today's state", () => {
+    const days = everyDay("2026-03-10", "2026-03-14", () => 80);
+
+    expect(streakSummary(days, "2026-03-15")).toMatchObject({
+      current: 5,
+      loggedToday: false,
+      weighInToday: true,
+    });
+    expect(streakSummary(days, "2026-03-14", MON_WED_FRI)).toMatchObject({
+      loggedToday: true,
+      weighInToday: false,
+    });
+  });
+});
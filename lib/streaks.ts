@@ -0,0 +1,132 @@
+// lib/streaks.ts
+// Logging consistency behind GET /api/stats/calendar and the streak in GET /api/stats.
+// Works on daily values, newest first (see lib/daily.ts), whose days are "yyyy-MM-dd" keys
+// in the profile's time zone (see lib/dates.ts).
+// Streaks follow the profile's weigh-in schedule: only a scheduled day left unlogged breaks
+// one, rest days in between don't (and still count when logged anyway).
+import { addDays, format, getDay, getDaysInMonth, parseISO } from "date-fns";
+import type { DailyWeight } from "@/lib/daily";
+import { EVERY_DAY } from "@/lib/schemas";
+
+const nextDay = (day: string) => format(addDays(parseISO(day), 1), "yyyy-MM-dd");
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// Whether `day` is on the schedule, weekdays as in the profile's weigh_in_days
+export const isWeighInDay = (day: string, weighInDays: number[]) =>
+  weighInDays.includes(getDay(parseISO(day)));
+
+// First scheduled day after `day`
+export function nextWeighInDay(day: string, weighInDays: number[]) {
+  let next = nextDay(day);
+  for (let i = 0; i < 7 && !isWeighInDay(next, weighInDays); i++) next = nextDay(next);
+  return next;
+}
+
+// Whether a scheduled day strictly between two logged days went unlogged
+const missedBetween = (older: string, newer: string, weighInDays: number[]) => {
+  for (let day = nextDay(older); day < newer; day = nextDay(day)) {
+    if (isWeighInDay(day, weighInDays)) return true;
+  }
+  return false;
+};
+
+// Logged days in a row up to the newest one. Today gets a grace period: until it is over a
+// streak that reached the last scheduled day still runs
+export function currentStreak(days: DailyWeight[], today: string, weighInDays = EVERY_DAY) {
+  if (!days.length || missedBetween(days[0].day, today, weighInDays)) return 0;
+
+  let streak = 1;
+  for (let i = 0; i < days.length - 1; i++) {
+    if (missedBetween(days[i + 1].day, days[i].day, weighInDays)) break;
+    streak++;
+  }
+  return streak;
+}
+
+// Longest run of logged days without a missed weigh-in, the most recent one on a tie
+export function longestStreak(days: DailyWeight[], weighInDays = EVERY_DAY) {
+  let longest: { length: number; from: string | null; to: string | null } = {
+    length: 0,
+    from: null,
+    to: null,
+  };
+  let length = 0;
+  let to = "";
+
+  for (let i = 0; i < days.length; i++) {
+    if (i > 0 && !missedBetween(days[i].day, days[i - 1].day, weighInDays)) {
+      length++;
+    } else {
+      length = 1;
+      to = days[i].day;
+    }
+    if (length > longest.length) longest = { length, from: days[i].day, to };
+  }
+  return longest;
+}
+
+// Share of scheduled days logged in each month of `year`, counted from the first day ever
+// logged up to `today`. A month without scheduled days in that span has no rate
+export function monthlyLoggingRates(
+  days: DailyWeight[],
+  year: number,
+  today: string,
+  weighInDays = EVERY_DAY
+) {
+  const first = days[days.length - 1]?.day;
+  const logged = new Set(days.map((d) => d.day));
+
+  return Array.from({ length: 12 }, (_, i) => {
+    const month = `${year}-${pad(i + 1)}`;
+    const monthStart = `${month}-01`;
+    const monthEnd = `${month}-${pad(getDaysInMonth(parseISO(monthStart)))}`;
+
+    const start = first && first > monthStart ? first : monthStart;
+    const end = today < monthEnd ? today : monthEnd;
+    if (!first || start > end) return { month, daysLogged: 0, days: 0, rate: null };
+
+    let scheduled = 0;
+    let daysLogged = 0;
+    for (let day = start; day <= end; day = nextDay(day)) {
+      if (!isWeighInDay(day, weighInDays)) continue;
+      scheduled++;
+      if (logged.has(day)) daysLogged++;
+    }
+    return {
+      month,
+      daysLogged,
+      days: scheduled,
+      rate: scheduled ? daysLogged / scheduled : null,
+    };
+  });
+}
+
+// Logged days of `year`, oldest first, each with its change from the logged day before
+// (which may fall in the previous year). null on the very first one
+export function loggingCalendar(days: DailyWeight[], year: number) {
+  return days
+    .flatMap((d, i) =>
+      d.day.startsWith(`${year}-`)
+        ? [
+            {
+              day: d.day,
+              weight: d.weight,
+              change: i + 1 < days.length ? d.weight - days[i + 1].weight : null,
+            },
+          ]
+        : []
+    )
+    .reverse();
+}
+
+export function streakSummary(days: DailyWeight[], today: string, weighInDays = EVERY_DAY) {
+  return {
+    current: currentStreak(days, today, weighInDays),
+    longest: longestStreak(days, weighInDays),
+    // False while today's grace period runs
+    loggedToday: days[0]?.day === today,
+    // A rest day never needs logging
+    weighInToday: isWeighInDay(today, weighInDays),
+  };
+}
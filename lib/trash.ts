@@ -0,0 +1,40 @@
+// lib/trash.ts
+// Deleted entries and closed accounts stay restorable for TRASH_RETENTION_DAYS (30 by
+// default), then a sweep removes them for good.
+import { db } from "@/lib/db";
+
+export const TRASH_RETENTION_DAYS =
+  Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+export function retentionCutoff(now = new Date()) {
+  return new Date(
+    now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+  ).toISOString();
+}
+
+// A closed account (or deleted entry) past retention is as good as gone, the sweep just
+// hasn't got to it yet
+export const pastRetention = (deletedAt: string | Date) =>
+  new Date(deletedAt).toISOString() < retentionCutoff();
+
+export async function purgeExpired() {
+  await db.purgeDeletedBefore(retentionCutoff());
+  await db.deleteExpiredSessions();
+}
+
+// Hourly sweep for long-running servers (dev, `next start`, Electron); serverless
+// deployments still get one per cold start and whenever a trash view is opened
+const globalForTrash = globalThis as unknown as { trashSweep?: NodeJS.Timeout };
+
+export function scheduleTrashSweep() {
+  if (globalForTrash.trashSweep) return;
+
+  const sweep = () =>
+    purgeExpired().catch((err) => console.error("Trash sweep failed:", err));
+
+  sweep();
+  globalForTrash.trashSweep = setInterval(sweep, SWEEP_INTERVAL_MS);
+  globalForTrash.trashSweep.unref();
+}
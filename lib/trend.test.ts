@@ -0,0 +1,44 @@
+// lib/trend.test.ts
+import { describe, expect, it } from "vitest";
+import { MIN_TREND_SMOOTHING, trendWarmUpFrom, trendWeights } from "@/lib/trend";
+import { daily, everyDay } from "@/test/fixtures";
+
+describe("trendWeights", () => {
+  it("seeds on the oldest day and pulls towards each new one", () => {
+    const trend = trendWeights(daily(["2026-03-02", 80], ["2026-03-01", 90]), 0.1);
+
+    expect(trend.map((p) => p.day)).toEqual(["2026-03-02", "2026-03-01"]);
+    expect(trend[1].trend).toBe(90);
+    expect(trend[0].trend).toBeCloseTo(89);
+  });
+
+  it("counts a gap as one step per day", () => {
+    const trend = trendWeights(daily(["2026-03-03", 80], ["2026-03-01", 90]), 0.1);
+    expect(trend[0].trend).toBeCloseTo(90 - 10 * (1 - 0.9 ** 2));
+  });
+});
+
+describe("trendWarmUpFrom", () => {
+  it("is open for the whole history", () => {
+    expect(trendWarmUpFrom(null)).toBeNull();
+  });
+
+  it("reaches back far enough to match the trend over the whole history", () => {
+    // 60 kg, up to 100 from July, down to 80 in March: the warm-up starts mid climb
+    const days = [
+      ...everyDay("2026-03-01", "2026-03-15", () => 80),
+      ...everyDay("2025-07-01", "2026-02-28", () => 100),
+      ...everyDay("2025-01-01", "2025-06-30", () => 60),
+    ];
+    const from = trendWarmUpFrom("2026-03-01")!;
+    const warmedUp = days.filter((d) => d.day >= from);
+
+    expect(from).toBe("2025-09-02");
+
+    const full = trendWeights(days, MIN_TREND_SMOOTHING);
+    const partial = trendWeights(warmedUp, MIN_TREND_SMOOTHING);
+
+    expect(partial[0].trend).toBeCloseTo(full[0].trend, 2);
+    expect(partial[14].trend).toBeCloseTo(full[14].trend, 2);
+  });
+});
@@ -0,0 +1,44 @@
+// lib/trend.ts
+// Trend weight: an exponentially weighted moving average of the daily values, so a single
+// salty dinner barely moves it. Each day pulls the trend `smoothing` of the way towards its
+// value; a gap of n days counts as n steps, so sparse logging doesn't slow it down.
+import { differenceInCalendarDays, format, parseISO, subDays } from "date-fns";
+import type { DailyWeight } from "@/lib/daily";
+
+export const DEFAULT_TREND_SMOOTHING = 0.1;
+export const MIN_TREND_SMOOTHING = 0.05;
+export const MAX_TREND_SMOOTHING = 0.5;
+
+// Days read before a range so the trend on its first day matches the one run over the whole
+// history: at the slowest smoothing a day that far back weighs under 0.01%
+export const TREND_WARM_UP_DAYS = 180;
+
+export type TrendPoint = { day: string; trend: number };
+
+export const trendWarmUpFrom = (from: string | null) =>
+  from ? format(subDays(parseISO(from), TREND_WARM_UP_DAYS), "yyyy-MM-dd") : null;
+
+// `days` newest first, and so is the result. The oldest day seeds the average
+export function trendWeights(days: DailyWeight[], smoothing = DEFAULT_TREND_SMOOTHING) {
+  const points: TrendPoint[] = [];
+  let previous: TrendPoint | undefined;
+
+  for (let i = days.length - 1; i >= 0; i--) {
+    const { day, weight } = days[i];
+
+    let trend = weight;
+    if (previous) {
+      const gap = Math.max(
+        1,
+        differenceInCalendarDays(parseISO(day), parseISO(previous.day))
+      );
+      const pull = 1 - (1 - smoothing) ** gap;
+      trend = previous.trend + pull * (weight - previous.trend);
+    }
+
+    previous = { day, trend };
+    points.unshift(previous);
+  }
+
+  return points;
+}
@@ -0,0 +1,51 @@
+// lib/units.test.ts
+import { describe, expect, it } from "vitest";
+import { createTranslator } from "@/lib/i18n";
+import { parseWeightField } from "@/lib/schemas";
+import { KG_PER_LB, fieldToKg, weightFieldValue } from "@/lib/units";
+
+describe("fieldToKg", () => {
+  it("reads kg and pounds in any decimal style", () => {
+    expect(fieldToKg("72,5", "kg")).toBe(72.5);
+    expect(fieldToKg("٧٢٫٥", "kg")).toBe(72.5);
+    expect(fieldToKg("160", "lb")).toBeCloseTo(160 * KG_PER_LB);
+  });
+
+  it("reads stones and pounds, an empty half counting as 0", () => {
+    expect(fieldToKg("11 5.5", "st")).toBeCloseTo(159.5 * KG_PER_LB);
+    expect(fieldToKg("11 ", "st")).toBeCloseTo(154 * KG_PER_LB);
+    expect(fieldToKg(" 150", "st")).toBeCloseTo(150 * KG_PER_LB);
+  });
+
+  it("is NaN for text that isn't a number, in any half", () => {
+    expect(fieldToKg("abc", "kg")).toBeNaN();
+    expect(fieldToKg("", "lb")).toBeNaN();
+    expect(fieldToKg(" ", "st")).toBeNaN();
+    expect(fieldToKg("x", "st")).toBeNaN();
+    expect(fieldToKg("11 abc", "st")).toBeNaN();
+    expect(fieldToKg("x 5", "st")).toBeNaN();
+    expect(fieldToKg("11 5 3", "st")).toBeNaN();
+  });
+
+  it("reads back what weightFieldValue writes", () => {
+    const kg = 72.3;
+    for (const unit of ["kg", "lb", "st"] as const) {
+      expect(fieldToKg(weightFieldValue(kg, unit, "fr"), unit)).toBeCloseTo(kg, 1);
+    }
+  });
+});
+
+describe("parseWeightField", () => {
+  const i18n = createTranslator("en");
+
+  it("rejects a stones field with a half that doesn't parse", () => {
+    expect(parseWeightField("11 abc", "st", i18n)).toEqual({
+      weight: null,
+      error: "Weight must be a number",
+    });
+  });
+
+  it("accepts a whole stones field", () => {
+    expect(parseWeightField("11 5", "st", i18n).weight).toBeCloseTo(159 * KG_PER_LB);
+  });
+});
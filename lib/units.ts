@@ -0,0 +1,88 @@
+// lib/units.ts
+// Weights are stored and computed in kg everywhere (database, API, stats); the profile's
+// weight unit only changes how the client shows them and reads its input fields. Stones
+// are written as "st lb", amounts that aren't a body weight (changes, rates, tolerances)
+// use plain pounds there. Numbers follow the UI locale ("72,5 kg" in French), input
+// fields accept any of them.
+import { formatNumber, parseDecimal } from "@/lib/i18n/numbers";
+import type { WeightUnit } from "@/lib/schemas";
+
+export const KG_PER_LB = 0.45359237;
+export const LB_PER_ST = 14;
+
+// Symbol of a single number in this unit
+export const unitSymbol = (unit: WeightUnit) => (unit === "kg" ? "kg" : "lb");
+
+// kg -> kg or pounds (stones too, see unitSymbol) and back
+export const toUnit = (kg: number, unit: WeightUnit) =>
+  unit === "kg" ? kg : kg / KG_PER_LB;
+
+export const fromUnit = (value: number, unit: WeightUnit) =>
+  unit === "kg" ? value : value * KG_PER_LB;
+
+// Whole stones and the pounds left over, rounded to `decimals` first so 13.96 lb never
+// shows as "0 st 14.0 lb"
+const splitStones = (kg: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  const pounds = Math.round(toUnit(Math.abs(kg), "lb") * factor) / factor;
+  const stones = Math.floor(pounds / LB_PER_ST);
+  return { stones, pounds: pounds - stones * LB_PER_ST };
+};
+
+// A body weight: "72.5 kg", "159.8 lb", "11 st 5.8 lb"
+export function formatWeight(
+  kg: number | null | undefined,
+  unit: WeightUnit,
+  decimals = 1,
+  locale = "en"
+) {
+  if (unit === "st") {
+    const { stones, pounds } = splitStones(kg ?? 0, decimals);
+    return `${formatNumber(stones, 0, locale)} st ${formatNumber(pounds, decimals, locale)} lb`;
+  }
+  return `${formatNumber(toUnit(kg ?? 0, unit), decimals, locale)} ${unit}`;
+}
+
+// A change, rate or tolerance in kg or pounds, sign kept: "-1.2 lb"
+export const formatWeightChange = (
+  kg: number | null | undefined,
+  unit: WeightUnit,
+  decimals = 1,
+  locale = "en"
+) => `${formatNumber(toUnit(kg ?? 0, unit), decimals, locale)} ${unitSymbol(unit)}`;
+
+// Chart axis tick for a value already in the unit (pounds for stones)
+export const formatAxisWeight = (value: number, unit: WeightUnit, locale = "en") =>
+  unit === "st"
+    ? formatWeight(fromUnit(value, unit), unit, 0, locale)
+    : value.toLocaleString(locale, { useGrouping: false });
+
+// Input field text for a stored weight, what parseWeightField() reads back. Stones are
+// "11 5.8", the two halves of the stones + pounds inputs
+export function weightFieldValue(
+  kg: number | null | undefined,
+  unit: WeightUnit,
+  locale = "en"
+) {
+  if (kg == null) return "";
+  if (unit === "st") {
+    const { stones, pounds } = splitStones(kg, 1);
+    return `${formatNumber(stones, 0, locale)} ${formatNumber(pounds, 1, locale)}`;
+  }
+  return unit === "kg"
+    ? kg.toLocaleString(locale, { useGrouping: false, maximumFractionDigits: 20 })
+    : formatNumber(toUnit(kg, unit), 1, locale);
+}
+
+// Field text in the unit -> kg, NaN when it isn't a number. Either half of stones may be
+// left empty ("11 " is 11 st 0 lb), but text that doesn't parse is NaN, never 0
+export function fieldToKg(value: string, unit: WeightUnit) {
+  if (unit !== "st") return fromUnit(parseDecimal(value), unit);
+
+  const [stones = "", pounds = "", ...rest] = value.split(" ");
+  if (!stones.trim() && !pounds.trim()) return NaN;
+  if (rest.some((part) => part.trim())) return NaN;
+
+  const half = (text: string) => (text.trim() ? parseDecimal(text) : 0);
+  return fromUnit(half(stones) * LB_PER_ST + half(pounds), "lb");
+}
@@ -0,0 +1,43 @@
+// lib/validate.ts
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+export class ValidationError extends Error {
+  constructor(public fieldErrors: Record<string, string[] | undefined>, message: string) {
+    super(message);
+    this.name = "ValidationError";
+  }
+}
+
+export function parseInput<T extends z.ZodType>(schema: T, data: unknown): z.infer<T> {
+  const result = schema.safeParse(data);
+
+  if (!result.success) {
+    const { formErrors, fieldErrors } = z.flattenError(result.error);
+    const [field, messages] =
+      Object.entries(fieldErrors as Record<string, string[]>)[0] ?? [];
+
+    throw new ValidationError(
+      fieldErrors,
+      field ? `${field}: ${messages[0]}` : formErrors[0] || "Invalid request"
+    );
+  }
+
+  return result.data;
+}
+
+export async function parseBody<T extends z.ZodType>(req: Request, schema: T) {
+  const body = await req.json().catch(() => {
+    throw new ValidationError({}, "Request body must be JSON");
+  });
+  return parseInput(schema, body);
+}
+
+// Turns a ValidationError into a 400 with field-level details, null for anything else
+export function validationErrorResponse(err: unknown) {
+  if (!(err instanceof ValidationError)) return null;
+  return NextResponse.json(
+    { error: err.message, fieldErrors: err.fieldErrors },
+    { status: 400 }
+  );
+}
@@ -3,6 +3,7 @@ const path = require("path");
 const { spawn } = require("child_process");
 const fs = require("fs");
 const http = require("http");
+const dotenv = require("dotenv");
 
 const isDev = process.env.NODE_ENV === "development" || !app.isPackaged;
 
@@ -68,14 +69,27 @@ function startNextServer() {
     }
 
     // ✅ Ensure .env.local exists
-    if (!fs.existsSync(envPath)) {
+    let fileEnv = {};
+    if (fs.existsSync(envPath)) {
+      fileEnv = dotenv.parse(fs.readFileSync(envPath));
+    } else {
       console.warn("⚠️ .env.local not found at:", envPath);
     }
 
+    // ✅ Offline storage lives next to the user's app data, not inside resources
+    const sqlitePath =
+      process.env.SQLITE_PATH ||
+      fileEnv.SQLITE_PATH ||
+      path.join(app.getPath("userData"), "weightwise.db");
+
+    // ✅ Server applies pending migrations on boot (instrumentation.ts)
     nextServerProcess = spawn(process.execPath, [serverPath], {
       cwd: standaloneCwd,
       env: {
+        ...fileEnv,
         ...process.env,
+        SQLITE_PATH: sqlitePath,
+        DB_MIGRATE_ON_START: "true",
         PORT: 3000,
         NODE_ENV: "production",
         HOSTNAME: "localhost",
@@ -0,0 +1,27 @@
+// scripts/migrate.ts
+// Usage: npm run db:migrate
+import { config } from "dotenv";
+
+config({ path: ".env.local" });
+config();
+
+async function main() {
+  const { migrate } = await import("@/lib/migrate");
+  const { resolveDriverName } = await import("@/lib/drivers");
+
+  console.log(`📌 Migrating ${resolveDriverName()} database…`);
+  const applied = await migrate();
+
+  if (applied.length === 0) {
+    console.log("✅ Database is already up to date.");
+  } else {
+    console.log(`✅ Applied ${applied.length} migration(s): ${applied.join(", ")}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error("❌ Migration failed:", err);
+    process.exit(1);
+  });
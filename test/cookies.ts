@@ -0,0 +1,15 @@
+// test/cookies.ts
+// In-memory stand-in for next/headers' cookies(), just the calls lib/auth.ts makes
+const values = new Map<string, string>();
+
+export const cookieJar = {
+  get: (name: string) =>
+    values.has(name) ? { name, value: values.get(name)! } : undefined,
+  set: (name: string, value: string) => {
+    values.set(name, value);
+  },
+  delete: (name: string) => {
+    values.delete(name);
+  },
+  clear: () => values.clear(),
+};
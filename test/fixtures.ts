@@ -0,0 +1,75 @@
+// test/fixtures.ts
+// Builders for the entries, daily values, profiles and goal phases the lib tests run on
+import { addDays, format, parseISO } from "date-fns";
+import type { DailyWeight } from "@/lib/daily";
+import type { GoalPhase, UserProfile, WeightEntry } from "@/lib/schemas";
+
+let ids = 0;
+
+// One weigh-in on a UTC day, at "HH:mm"
+export function reading(day: string, weight: number, time = "08:00"): WeightEntry {
+  const date = `${day}T${time}:00.000Z`;
+  return {
+    id: ++ids,
+    user_id: 1,
+    date,
+    day,
+    weight,
+    note: null,
+    slot: null,
+    created_at: date,
+    deleted_at: null,
+  };
+}
+
+// Daily values from [day, weight] pairs, newest first like lib/daily.ts hands them out
+export const daily = (...points: [string, number][]): DailyWeight[] =>
+  points
+    .map(([day, weight]) => {
+      const entry = reading(day, weight);
+      return { day, date: entry.date, weight, readings: [entry] };
+    })
+    .sort((a, b) => b.day.localeCompare(a.day));
+
+// A value on every day from `from` to `to`, `weight(i)` for the i-th day counted from `from`
+export function everyDay(from: string, to: string, weight: (i: number) => number) {
+  const points: [string, number][] = [];
+  for (let i = 0, day = from; day <= to; i++) {
+    points.push([day, weight(i)]);
+    day = format(addDays(parseISO(day), 1), "yyyy-MM-dd");
+  }
+  return daily(...points);
+}
+
+export const profile = (changes: Partial<UserProfile> = {}): UserProfile => ({
+  id: 1,
+  name: "Test",
+  start_weight: 90,
+  goal_weight: null,
+  goal_direction: null,
+  goal_tolerance: 0,
+  start_date: "2026-01-01T08:00:00.000Z",
+  target_date: null,
+  email: "test@example.com",
+  multi_weigh_in: false,
+  daily_value: "first",
+  trend_smoothing: 0.1,
+  weight_unit: "kg",
+  timezone: "UTC",
+  chart_range: "30d",
+  weigh_in_days: [0, 1, 2, 3, 4, 5, 6],
+  created_at: "2026-01-01T08:00:00.000Z",
+  updated_at: "2026-01-01T08:00:00.000Z",
+  ...changes,
+});
+
+export const goalPhase = (
+  phase: Pick<GoalPhase, "phase" | "target_weight" | "start_day"> & Partial<GoalPhase>
+): GoalPhase => ({
+  id: ++ids,
+  user_id: 1,
+  tolerance: 0,
+  end_day: null,
+  created_at: "2026-01-01T08:00:00.000Z",
+  ...phase,
+});
@@ -0,0 +1,45 @@
+// test/routes.ts
+// Helpers for calling route handlers directly, signed in as a throwaway account
+import { NextRequest } from "next/server";
+import { POST as register } from "@/app/api/auth/register/route";
+import { SESSION_COOKIE } from "@/lib/auth";
+import { cookieJar } from "./cookies";
+
+export type TestUser = { id: number; email: string; token: string };
+
+export const PASSWORD = "correct horse battery";
+
+export const request = (method: string, url: string, body?: unknown) =>
+  new NextRequest(new URL(url, "http://localhost"), {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+let accounts = 0;
+
+// Registers a new account and leaves it signed in
+export async function signUp(): Promise<TestUser> {
+  accounts += 1;
+  cookieJar.clear();
+
+  const email = `user${accounts}@example.com`;
+  const res = await register(
+    request("POST", "/api/auth/register", {
+      name: `User ${accounts}`,
+      email,
+      password: PASSWORD,
+      startWeight: 80,
+      timezone: "UTC",
+    })
+  );
+  if (res.status !== 201) throw new Error(`Sign up failed with ${res.status}`);
+
+  const user = await res.json();
+  return { id: Number(user.id), email, token: cookieJar.get(SESSION_COOKIE)!.value };
+}
+
+export function signInAs(user: TestUser | null) {
+  cookieJar.clear();
+  if (user) cookieJar.set(SESSION_COOKIE, user.token);
+}
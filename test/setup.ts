@@ -0,0 +1,21 @@
+// test/setup.ts
+// Each test file gets its own SQLite database, and route handlers read the session from
+// test/cookies.ts instead of a real request
+import { mkdtempSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, vi } from "vitest";
+
+const dir = mkdtempSync(path.join(os.tmpdir(), "weightwise-test-"));
+
+process.env.DB_DRIVER = "sqlite";
+process.env.SQLITE_PATH = path.join(dir, "weightwise.db");
+
+vi.mock("next/headers", async () => {
+  const { cookieJar } = await import("./cookies");
+  return { cookies: async () => cookieJar };
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
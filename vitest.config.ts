@@ -0,0 +1,18 @@
+// vitest.config.ts
+// Usage: npm test
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": path.resolve(__dirname) },
+  },
+  test: {
+    environment: "node",
+    include: ["**/*.test.ts"],
+    exclude: ["node_modules/**", ".next/**", "release/**", "dist/**"],
+    setupFiles: ["test/setup.ts"],
+    // Every file migrates its own database, the progress lines are just noise
+    onConsoleLog: (log) => !log.startsWith("✅ Applied migration"),
+  },
+});